@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."LLMProvider" ADD VALUE 'GEMINI';
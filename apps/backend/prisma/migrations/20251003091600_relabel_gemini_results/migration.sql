@@ -0,0 +1,9 @@
+-- Gemini results and configurations were previously stored under ANTHROPIC.
+-- Kept separate from the enum change because a new enum value cannot be used
+-- in the same transaction that adds it.
+
+-- Relabel ValidationResult rows
+UPDATE "public"."ValidationResult" SET "llmProvider" = 'GEMINI' WHERE "modelVersion" LIKE 'gemini%';
+
+-- Relabel LLMConfiguration rows
+UPDATE "public"."LLMConfiguration" SET "provider" = 'GEMINI' WHERE "provider" = 'ANTHROPIC' AND "modelName" LIKE 'gemini%';
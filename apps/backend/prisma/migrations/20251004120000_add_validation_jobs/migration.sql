@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "public"."ValidationJobKind" AS ENUM ('CONTENT', 'REVALIDATE', 'ASSIGNMENT');
+
+-- CreateEnum
+CREATE TYPE "public"."ValidationJobStatus" AS ENUM ('QUEUED', 'ROUND_1', 'ROUND_2', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."ValidationJob" (
+    "id" TEXT NOT NULL,
+    "kind" "public"."ValidationJobKind" NOT NULL,
+    "status" "public"."ValidationJobStatus" NOT NULL DEFAULT 'QUEUED',
+    "payload" JSONB NOT NULL,
+    "result" JSONB,
+    "error" TEXT,
+    "previousContentStatus" "public"."ContentStatus",
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "contentId" TEXT,
+    "requestedById" TEXT NOT NULL,
+
+    CONSTRAINT "ValidationJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ValidationJob_status_createdAt_idx" ON "public"."ValidationJob"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."ValidationJob" ADD CONSTRAINT "ValidationJob_contentId_fkey" FOREIGN KEY ("contentId") REFERENCES "public"."Content"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ValidationJob" ADD CONSTRAINT "ValidationJob_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."ValidationJob" ADD COLUMN     "events" JSONB NOT NULL DEFAULT '[]';
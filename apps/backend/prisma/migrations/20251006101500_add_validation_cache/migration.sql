@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "public"."ValidationResult" ADD COLUMN     "cacheKey" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."ValidationCache" (
+    "key" TEXT NOT NULL,
+    "contentType" "public"."ContentType",
+    "dualResult" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ValidationCache_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "ValidationResult_contentId_cacheKey_idx" ON "public"."ValidationResult"("contentId", "cacheKey");
+
+-- CreateIndex
+CREATE INDEX "ValidationCache_contentType_idx" ON "public"."ValidationCache"("contentType");
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "public"."ScoreAggregationStrategy" AS ENUM ('MAX', 'MIN', 'MEAN', 'WEIGHTED', 'AGREEMENT');
+
+-- AlterTable
+ALTER TABLE "public"."LLMConfiguration" ADD COLUMN     "weight" DOUBLE PRECISION NOT NULL DEFAULT 1.0;
+
+-- AlterTable
+ALTER TABLE "public"."ValidationResult" ADD COLUMN     "aggregationStrategy" "public"."ScoreAggregationStrategy",
+ADD COLUMN     "agreementThreshold" INTEGER,
+ADD COLUMN     "flaggedForReview" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "public"."ScoreAggregationSetting" (
+    "contentType" "public"."ContentType" NOT NULL,
+    "strategy" "public"."ScoreAggregationStrategy" NOT NULL DEFAULT 'MAX',
+    "agreementThreshold" INTEGER,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "updatedById" TEXT NOT NULL,
+
+    CONSTRAINT "ScoreAggregationSetting_pkey" PRIMARY KEY ("contentType")
+);
+
+-- AddForeignKey
+ALTER TABLE "public"."ScoreAggregationSetting" ADD CONSTRAINT "ScoreAggregationSetting_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
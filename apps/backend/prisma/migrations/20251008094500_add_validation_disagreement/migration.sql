@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."ScoreAggregationSetting" ADD COLUMN     "disagreementThreshold" INTEGER;
+
+-- AlterTable
+ALTER TABLE "public"."ValidationResult" ADD COLUMN     "disagreement" JSONB,
+ADD COLUMN     "maxDisagreement" INTEGER;
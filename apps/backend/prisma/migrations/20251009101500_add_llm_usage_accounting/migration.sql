@@ -0,0 +1,53 @@
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "monthlyValidationBudgetUsd" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "public"."LLMUsage" (
+    "id" TEXT NOT NULL,
+    "provider" "public"."LLMProvider" NOT NULL,
+    "modelName" TEXT NOT NULL,
+    "stage" TEXT NOT NULL,
+    "promptTokens" INTEGER NOT NULL,
+    "completionTokens" INTEGER NOT NULL,
+    "costUsd" DOUBLE PRECISION NOT NULL,
+    "contentType" "public"."ContentType",
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "jobId" TEXT,
+    "contentId" TEXT,
+    "requestedById" TEXT NOT NULL,
+    "creatorId" TEXT,
+
+    CONSTRAINT "LLMUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."LLMPrice" (
+    "modelName" TEXT NOT NULL,
+    "inputPerMillionUsd" DOUBLE PRECISION NOT NULL,
+    "outputPerMillionUsd" DOUBLE PRECISION NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "updatedById" TEXT NOT NULL,
+
+    CONSTRAINT "LLMPrice_pkey" PRIMARY KEY ("modelName")
+);
+
+-- CreateIndex
+CREATE INDEX "LLMUsage_createdAt_idx" ON "public"."LLMUsage"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "LLMUsage_creatorId_createdAt_idx" ON "public"."LLMUsage"("creatorId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."LLMUsage" ADD CONSTRAINT "LLMUsage_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "public"."ValidationJob"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LLMUsage" ADD CONSTRAINT "LLMUsage_contentId_fkey" FOREIGN KEY ("contentId") REFERENCES "public"."Content"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LLMUsage" ADD CONSTRAINT "LLMUsage_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LLMUsage" ADD CONSTRAINT "LLMUsage_creatorId_fkey" FOREIGN KEY ("creatorId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LLMPrice" ADD CONSTRAINT "LLMPrice_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
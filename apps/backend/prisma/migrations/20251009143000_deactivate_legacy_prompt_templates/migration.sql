@@ -0,0 +1,11 @@
+-- The v1 templates seeded by seed-super-admin were never rendered (validation always used the built-in
+-- prompts) and ask for a {BRIEF} variable and rubric keys the response parser doesn't accept.
+-- Now that active templates are used as the real prompts, switch them off so validation keeps using
+-- the built-in prompts until a super admin activates a template.
+UPDATE "public"."PromptTemplate"
+SET "isActive" = false
+WHERE "name" IN (
+  'Assignment Validation Prompt v1',
+  'Lecture Note Validation Prompt v1',
+  'Pre-Read Validation Prompt v1'
+);
@@ -0,0 +1,38 @@
+-- DropIndex
+DROP INDEX "public"."PromptTemplate_name_key";
+
+-- DropIndex
+DROP INDEX "public"."GuidelinesTemplate_name_key";
+
+-- Renumber existing rows so each content type has one row per version, oldest first
+UPDATE "public"."PromptTemplate" AS "t"
+SET "version" = "v"."rn"
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "contentType" ORDER BY "createdAt", "id") AS "rn"
+  FROM "public"."PromptTemplate"
+) AS "v"
+WHERE "t"."id" = "v"."id";
+
+UPDATE "public"."GuidelinesTemplate" AS "t"
+SET "version" = "v"."rn"
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "contentType" ORDER BY "createdAt", "id") AS "rn"
+  FROM "public"."GuidelinesTemplate"
+) AS "v"
+WHERE "t"."id" = "v"."id";
+
+-- AlterTable
+ALTER TABLE "public"."ValidationResult" ADD COLUMN     "guidelinesTemplateId" TEXT,
+ADD COLUMN     "promptTemplateId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromptTemplate_contentType_version_key" ON "public"."PromptTemplate"("contentType", "version");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GuidelinesTemplate_contentType_version_key" ON "public"."GuidelinesTemplate"("contentType", "version");
+
+-- AddForeignKey
+ALTER TABLE "public"."ValidationResult" ADD CONSTRAINT "ValidationResult_promptTemplateId_fkey" FOREIGN KEY ("promptTemplateId") REFERENCES "public"."PromptTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ValidationResult" ADD CONSTRAINT "ValidationResult_guidelinesTemplateId_fkey" FOREIGN KEY ("guidelinesTemplateId") REFERENCES "public"."GuidelinesTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "public"."PromptExperimentStatus" AS ENUM ('RUNNING', 'ENDED');
+
+-- AlterTable
+ALTER TABLE "public"."ValidationResult" ADD COLUMN     "experimentVariantId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."PromptExperiment" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "contentType" "public"."ContentType" NOT NULL,
+    "status" "public"."PromptExperimentStatus" NOT NULL DEFAULT 'RUNNING',
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" TIMESTAMP(3),
+    "createdById" TEXT NOT NULL,
+
+    CONSTRAINT "PromptExperiment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."PromptExperimentVariant" (
+    "id" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "weight" INTEGER NOT NULL,
+    "experimentId" TEXT NOT NULL,
+    "promptTemplateId" TEXT NOT NULL,
+
+    CONSTRAINT "PromptExperimentVariant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PromptExperiment_contentType_status_idx" ON "public"."PromptExperiment"("contentType", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."ValidationResult" ADD CONSTRAINT "ValidationResult_experimentVariantId_fkey" FOREIGN KEY ("experimentVariantId") REFERENCES "public"."PromptExperimentVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PromptExperiment" ADD CONSTRAINT "PromptExperiment_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PromptExperimentVariant" ADD CONSTRAINT "PromptExperimentVariant_experimentId_fkey" FOREIGN KEY ("experimentId") REFERENCES "public"."PromptExperiment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PromptExperimentVariant" ADD CONSTRAINT "PromptExperimentVariant_promptTemplateId_fkey" FOREIGN KEY ("promptTemplateId") REFERENCES "public"."PromptTemplate"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
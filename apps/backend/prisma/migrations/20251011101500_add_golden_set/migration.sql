@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "public"."GoldenVerdict" AS ENUM ('APPROVE', 'REJECT');
+
+-- CreateEnum
+CREATE TYPE "public"."GoldenSetRunStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."GoldenSetItem" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "contentType" "public"."ContentType" NOT NULL,
+    "topic" TEXT NOT NULL,
+    "topicsTaughtSoFar" TEXT[],
+    "difficulty" TEXT,
+    "content" TEXT NOT NULL,
+    "expectedMinScore" INTEGER NOT NULL,
+    "expectedMaxScore" INTEGER NOT NULL,
+    "expectedVerdict" "public"."GoldenVerdict",
+    "notes" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdById" TEXT NOT NULL,
+
+    CONSTRAINT "GoldenSetItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."GoldenSetRun" (
+    "id" TEXT NOT NULL,
+    "name" TEXT,
+    "status" "public"."GoldenSetRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "useStubProvider" BOOLEAN NOT NULL DEFAULT false,
+    "candidate" JSONB NOT NULL,
+    "itemCount" INTEGER NOT NULL,
+    "results" JSONB NOT NULL DEFAULT '[]',
+    "summary" JSONB,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+    "requestedById" TEXT NOT NULL,
+
+    CONSTRAINT "GoldenSetRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GoldenSetItem_contentType_isActive_idx" ON "public"."GoldenSetItem"("contentType", "isActive");
+
+-- CreateIndex
+CREATE INDEX "GoldenSetRun_startedAt_idx" ON "public"."GoldenSetRun"("startedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."GoldenSetItem" ADD CONSTRAINT "GoldenSetItem_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."GoldenSetRun" ADD CONSTRAINT "GoldenSetRun_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."ValidationResult" ADD COLUMN     "modelScores" JSONB;
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "public"."SubmissionGateSetting" (
+    "contentType" "public"."ContentType" NOT NULL,
+    "minOverallScore" INTEGER,
+    "minCriterionScores" JSONB NOT NULL DEFAULT '{}',
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "updatedById" TEXT NOT NULL,
+
+    CONSTRAINT "SubmissionGateSetting_pkey" PRIMARY KEY ("contentType")
+);
+
+-- CreateTable
+CREATE TABLE "public"."SubmissionGateOverride" (
+    "id" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "usedAt" TIMESTAMP(3),
+    "contentId" TEXT NOT NULL,
+    "grantedById" TEXT NOT NULL,
+
+    CONSTRAINT "SubmissionGateOverride_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SubmissionGateOverride_contentId_usedAt_idx" ON "public"."SubmissionGateOverride"("contentId", "usedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."SubmissionGateSetting" ADD CONSTRAINT "SubmissionGateSetting_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."SubmissionGateOverride" ADD CONSTRAINT "SubmissionGateOverride_contentId_fkey" FOREIGN KEY ("contentId") REFERENCES "public"."Content"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."SubmissionGateOverride" ADD CONSTRAINT "SubmissionGateOverride_grantedById_fkey" FOREIGN KEY ("grantedById") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
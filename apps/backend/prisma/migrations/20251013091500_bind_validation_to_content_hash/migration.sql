@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."ValidationJob" ADD COLUMN     "contentHash" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."ValidationResult" ADD COLUMN     "contentHash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ValidationJob_contentId_completedAt_idx" ON "public"."ValidationJob"("contentId", "completedAt");
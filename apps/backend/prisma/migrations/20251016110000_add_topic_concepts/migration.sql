@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Topic" ADD COLUMN     "concepts" TEXT[] DEFAULT ARRAY[]::TEXT[];
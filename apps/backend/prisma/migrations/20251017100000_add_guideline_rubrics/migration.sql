@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."Guideline" ADD COLUMN     "contentType" "public"."ContentType",
+ADD COLUMN     "passThreshold" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Guideline_contentType_isActive_idx" ON "public"."Guideline"("contentType", "isActive");
@@ -12,6 +12,9 @@ import contentRouter from './routes/content.js';
 import adminRouter from './routes/admin.js';
 import { assignmentsRouter } from './routes/assignments.js';
 import { superAdminRouter } from './routes/super-admin.js';
+import { curriculumRouter } from './routes/curriculum.js';
+import { startValidationWorker } from './services/validationQueue.js';
+import { failInterruptedGoldenSetRuns } from './services/goldenSet.js';
 
 const app = express();
 const logger = pino({ transport: { target: 'pino-pretty' } });
@@ -63,8 +66,11 @@ app.use('/api/content', contentRouter);
 app.use('/api/admin', adminRouter);
 app.use('/api/assignments', assignmentsRouter);
 app.use('/api/super-admin', superAdminRouter);
+app.use('/api/curriculum', curriculumRouter);
 
 const port = process.env.PORT ? Number(process.env.PORT) : 4000;
 app.listen(port, '0.0.0.0', () => {
   logger.info({ port }, 'Backend listening');
+  startValidationWorker();
+  void failInterruptedGoldenSetRuns();
 });
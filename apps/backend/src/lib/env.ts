@@ -2,6 +2,9 @@ export const env = {
   jwtSecret: process.env.JWT_SECRET || 'devsecret',
   openaiApiKey: process.env.OPENAI_API_KEY || '',
   geminiApiKey: process.env.GEMINI_API_KEY || '',
+  anthropicApiKey: process.env.ANTHROPIC_API_KEY || '',
+  localLlmApiKey: process.env.LOCAL_LLM_API_KEY || '',
+  llmCallTimeoutMs: Number(process.env.LLM_CALL_TIMEOUT_MS) || 60000,
 };
 
 
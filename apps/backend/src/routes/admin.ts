@@ -228,6 +228,79 @@ adminRouter.get('/review-queue', requireAuth, requireRole(['ADMIN']), async (req
   }
 });
 
+// Submissions from this admin's creators that the minimum score gate turned away (last 30 days)
+adminRouter.get('/blocked-submissions', requireAuth, requireRole(['ADMIN']), async (req, res) => {
+  try {
+    const adminId = req.user!.id;
+    const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+
+    const blockLogs = await prisma.auditLog.findMany({
+      where: {
+        action: 'SUBMISSION_BLOCKED',
+        createdAt: { gte: since },
+        user: { assignedAdminId: adminId }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 200
+    });
+
+    // Only the latest block per content matters
+    const latestBlocks = new Map<string, typeof blockLogs[number]>();
+    for (const log of blockLogs) {
+      const contentId = (log.metadata as { contentId?: unknown } | null)?.contentId;
+      if (typeof contentId === 'string' && !latestBlocks.has(contentId)) {
+        latestBlocks.set(contentId, log);
+      }
+    }
+
+    const contents = await prisma.content.findMany({
+      where: {
+        id: { in: [...latestBlocks.keys()] },
+        status: { in: ['DRAFT', 'REJECTED'] },
+        author: { assignedAdminId: adminId }
+      },
+      select: {
+        id: true,
+        title: true,
+        contentType: true,
+        status: true,
+        submittedAt: true,
+        author: {
+          select: { id: true, name: true, email: true }
+        },
+        gateOverrides: {
+          where: { usedAt: null },
+          select: { id: true, reason: true, createdAt: true },
+          orderBy: { createdAt: 'desc' },
+          take: 1
+        }
+      }
+    });
+
+    const blockedSubmissions = contents
+      .map(({ gateOverrides, ...content }) => {
+        const log = latestBlocks.get(content.id)!;
+        const metadata = log.metadata as { overallScore?: number; shortfalls?: unknown; flaggedForReview?: boolean };
+        return {
+          content,
+          blockedAt: log.createdAt,
+          overallScore: metadata.overallScore ?? null,
+          shortfalls: metadata.shortfalls ?? [],
+          flaggedForReview: metadata.flaggedForReview ?? false,
+          pendingOverride: gateOverrides[0] ?? null
+        };
+      })
+      // A block from before the latest successful submission is no longer relevant
+      .filter(({ content, blockedAt }) => !content.submittedAt || blockedAt > content.submittedAt)
+      .sort((a, b) => b.blockedAt.getTime() - a.blockedAt.getTime());
+
+    res.json({ blockedSubmissions });
+  } catch (error) {
+    console.error('Error fetching blocked submissions:', error);
+    res.status(500).json({ error: 'Failed to fetch blocked submissions' });
+  }
+});
+
 // Get admin dashboard statistics
 adminRouter.get('/stats', requireAuth, requireRole(['ADMIN']), async (req, res) => {
   try {
@@ -3,13 +3,18 @@ import type { Request, Response } from 'express';
 import { z } from 'zod';
 import { requireAuth, requireRole } from '../middleware/auth.js';
 import { prisma } from '../lib/prisma.js';
+import { findLatestServerValidation, validationResultDataOf } from '../services/submissionGate.js';
+import { topicsTaughtBefore } from '../services/curriculum.js';
+import { hashContent } from '../utils/contentHash.js';
 
 export const assignmentsRouter = Router();
 
 // Validation schemas
+// With a curriculum topic, topic and topicsTaughtSoFar are derived from the course and may be omitted
 const createAssignmentSchema = z.object({
-  topic: z.string().min(1).max(200),
-  topicsTaughtSoFar: z.array(z.string()).min(1, "At least one prerequisite topic is required for proper validation"),
+  topicId: z.string().optional(),
+  topic: z.string().min(1).max(200).optional(),
+  topicsTaughtSoFar: z.array(z.string()).optional(),
   guidelines: z.string().min(10, "Sub-topics must be at least 10 characters for effective validation"),
   contentType: z.enum(['PRE_READ', 'ASSIGNMENT', 'LECTURE_NOTE']),
   difficulty: z.string().optional(), // Required for ASSIGNMENT type
@@ -24,9 +29,16 @@ const createAssignmentSchema = z.object({
 }, {
   message: "Difficulty level is required for ASSIGNMENT content type",
   path: ["difficulty"]
+}).refine((data) => data.topicId || data.topic, {
+  message: "Topic is required unless a curriculum topic is selected",
+  path: ["topic"]
+}).refine((data) => data.topicId || (data.topicsTaughtSoFar?.length ?? 0) > 0, {
+  message: "At least one prerequisite topic is required for proper validation",
+  path: ["topicsTaughtSoFar"]
 });
 
 const updateAssignmentSchema = z.object({
+  topicId: z.string().nullable().optional(), // null unlinks the assignment from the curriculum
   topic: z.string().min(1).max(200).optional(),
   topicsTaughtSoFar: z.array(z.string()).optional(),
   guidelines: z.string().optional(),
@@ -49,6 +61,9 @@ assignmentsRouter.get('/', requireAuth, requireRole(['ADMIN']), async (req: Requ
         assignedTo: {
           select: { id: true, name: true, email: true }
         },
+        curriculumTopic: {
+          select: { id: true, name: true, module: { select: { name: true, course: { select: { id: true, name: true } } } } }
+        },
         content: {
           include: { 
             validationResults: {
@@ -169,9 +184,16 @@ assignmentsRouter.post('/', requireAuth, requireRole(['ADMIN']), async (req: Req
       return res.status(400).json({ error: 'Invalid input', details: parsed.error.issues });
     }
 
-    const { topic, topicsTaughtSoFar, guidelines, contentType, difficulty, dueDate, assignedToId } = parsed.data;
+    const { topicId, guidelines, contentType, difficulty, dueDate, assignedToId } = parsed.data;
     const adminId = req.user!.id;
 
+    const curriculumTopic = topicId ? await topicsTaughtBefore(topicId) : null;
+    if (topicId && !curriculumTopic) {
+      return res.status(400).json({ error: 'Curriculum topic not found' });
+    }
+    const topic = curriculumTopic?.topic ?? parsed.data.topic!;
+    const topicsTaughtSoFar = curriculumTopic?.topicsTaughtSoFar ?? parsed.data.topicsTaughtSoFar ?? [];
+
     // Verify the assigned user exists and is a creator assigned to this admin
     const assignedCreator = await prisma.user.findUnique({
       where: { id: assignedToId },
@@ -197,6 +219,7 @@ assignmentsRouter.post('/', requireAuth, requireRole(['ADMIN']), async (req: Req
         data: {
           topic,
           topicsTaughtSoFar,
+          topicId: topicId ?? null,
           guidelines: guidelines || null,
           contentType,
           difficulty: difficulty || null,
@@ -291,7 +314,15 @@ assignmentsRouter.put('/:id', requireAuth, requireRole(['ADMIN']), async (req: R
       });
     }
 
-    const { topic, topicsTaughtSoFar, guidelines, contentType, difficulty, dueDate, status, assignedToId } = parsed.data;
+    const { topicId, guidelines, contentType, difficulty, dueDate, status, assignedToId } = parsed.data;
+
+    const curriculumTopic = topicId ? await topicsTaughtBefore(topicId) : null;
+    if (topicId && !curriculumTopic) {
+      return res.status(400).json({ error: 'Curriculum topic not found' });
+    }
+    // A linked topic's name and prerequisites come from the curriculum, not the request
+    const topic = curriculumTopic?.topic ?? parsed.data.topic;
+    const topicsTaughtSoFar = curriculumTopic?.topicsTaughtSoFar ?? parsed.data.topicsTaughtSoFar;
     
     // If changing assignedToId, validate that the new creator exists and is assigned to this admin
     if (assignedToId && assignedToId !== existingAssignment.assignedToId) {
@@ -313,6 +344,7 @@ assignmentsRouter.put('/:id', requireAuth, requireRole(['ADMIN']), async (req: R
       const updatedAssignment = await tx.contentAssignment.update({
         where: { id: assignmentId as string },
         data: {
+          ...(topicId !== undefined && { topicId }),
           ...(topic && { topic }),
           ...(topicsTaughtSoFar && { topicsTaughtSoFar }),
           ...(guidelines !== undefined && { guidelines: guidelines || null }),
@@ -444,7 +476,7 @@ assignmentsRouter.post('/:id/start', requireAuth, requireRole(['CREATOR']), asyn
 assignmentsRouter.post('/:id/link-content', requireAuth, requireRole(['CREATOR']), async (req: Request, res: Response) => {
   try {
     const assignmentId = req.params.id;
-    const { contentId, validationData } = req.body; // Added validationData
+    const { contentId } = req.body;
     const creatorId = req.user!.id;
 
     if (!contentId) {
@@ -454,7 +486,7 @@ assignmentsRouter.post('/:id/link-content', requireAuth, requireRole(['CREATOR']
     // Verify assignment belongs to creator
     const assignment = await prisma.contentAssignment.findUnique({
       where: { id: assignmentId as string },
-      select: { id: true, assignedToId: true, contentId: true, topic: true }
+      select: { id: true, assignedToId: true, contentId: true, topic: true, guidelines: true }
     });
 
     if (!assignment) {
@@ -472,7 +504,7 @@ assignmentsRouter.post('/:id/link-content', requireAuth, requireRole(['CREATOR']
     // Verify content exists and belongs to creator
     const content = await prisma.content.findUnique({
       where: { id: contentId },
-      select: { id: true, authorId: true, title: true }
+      select: { id: true, authorId: true, title: true, content: true }
     });
 
     if (!content) {
@@ -483,6 +515,15 @@ assignmentsRouter.post('/:id/link-content', requireAuth, requireRole(['CREATOR']
       return res.status(403).json({ error: 'Content does not belong to you' });
     }
 
+    // Only a result the server computed for the text as it stands now is kept with the content
+    const serverValidation = await findLatestServerValidation(contentId);
+    const validationData = serverValidation?.contentHash === hashContent(content.content)
+      ? serverValidation.result
+      : null;
+    const validationResultData = validationData
+      ? await validationResultDataOf(contentId, { contentHash: serverValidation!.contentHash, result: validationData }, content.content, assignment.guidelines)
+      : null;
+
     // Wrap all operations in a transaction
     const result = await prisma.$transaction(async (tx) => {
       // Link content to assignment and mark as completed
@@ -511,18 +552,9 @@ assignmentsRouter.post('/:id/link-content', requireAuth, requireRole(['CREATOR']
         }
       });
 
-      // Store validation results if provided
-      if (validationData) {
-        await tx.validationResult.create({
-          data: {
-            contentId: contentId,
-            llmProvider: 'OPENAI', // Use valid enum value (represents dual validation)
-            modelVersion: 'gpt-4-gemini-2.5-flash-lite',
-            criteria: validationData.criteria,
-            overallScore: validationData.overallScore || validationData.overall, // Handle both field names
-            processingTimeMs: validationData.processingTime || 0
-          }
-        });
+      // Store the server's validation result if there is one for this text
+      if (validationResultData) {
+        await tx.validationResult.create({ data: validationResultData });
       }
 
       // Log the action
@@ -3,6 +3,8 @@ import type { Request, Response } from 'express';
 import { z } from 'zod';
 import { requireAuth, requireRole } from '../middleware/auth.js';
 import { prisma } from '../lib/prisma.js';
+import { describeGateFailure, evaluateSubmissionGate, findLatestServerValidation, getSubmissionGateSettings, validationResultDataOf } from '../services/submissionGate.js';
+import { hashContent } from '../utils/contentHash.js';
 export const contentRouter = Router();
 
 // Validation schemas
@@ -24,6 +26,10 @@ const updateContentSchema = z.object({
   difficulty: z.string().optional(), // For ASSIGNMENT type
 });
 
+const gateOverrideSchema = z.object({
+  reason: z.string().trim().min(1).max(1000),
+});
+
 // Helper functions
 function calculateReadingTime(content: string): number {
   const wordsPerMinute = 200;
@@ -250,7 +256,8 @@ contentRouter.post('/', requireAuth, requireRole(['CREATOR', 'SUPER_ADMIN']), as
 // Submit content for review
 contentRouter.post('/submit', requireAuth, requireRole(['CREATOR', 'SUPER_ADMIN']), async (req, res) => {
   try {
-    const { contentId, validationData } = req.body;
+    // Any validationData in the body is ignored; only results the server computed count
+    const { contentId } = req.body;
     
     if (!contentId || typeof contentId !== 'string') {
       return res.status(400).json({ error: 'Valid contentId is required' });
@@ -264,7 +271,8 @@ contentRouter.post('/submit', requireAuth, requireRole(['CREATOR', 'SUPER_ADMIN'
       include: { 
         author: { 
           include: { assignedAdmin: true } 
-        } 
+        },
+        assignment: { select: { guidelines: true } }
       }
     });
 
@@ -284,6 +292,68 @@ contentRouter.post('/submit', requireAuth, requireRole(['CREATOR', 'SUPER_ADMIN'
       return res.status(400).json({ error: 'No admin assigned to review your content' });
     }
 
+    // Submission needs a server-side validation of the current text that meets the content type's minimums,
+    // unless an admin has granted an override
+    const [serverValidation, gateOverride, gateSettings] = await Promise.all([
+      findLatestServerValidation(content.id),
+      prisma.submissionGateOverride.findFirst({
+        where: { contentId: content.id, usedAt: null },
+        orderBy: { createdAt: 'desc' }
+      }),
+      getSubmissionGateSettings(content.contentType)
+    ]);
+
+    // An override waives the minimums, never the link between the reviewed text and its scores
+    if (serverValidation && serverValidation.contentHash !== hashContent(content.content)) {
+      return res.status(409).json({
+        error: 'The content has changed since it was last validated. Validate the current version before submitting it for review',
+        code: 'CONTENT_CHANGED'
+      });
+    }
+
+    if (!serverValidation && !gateOverride) {
+      return res.status(409).json({
+        error: 'Validate the current version of this content before submitting it for review',
+        code: 'VALIDATION_REQUIRED'
+      });
+    }
+
+    if (serverValidation && !serverValidation.result && !gateOverride) {
+      return res.status(409).json({
+        error: 'The latest validation of this content could not be completed. Validate it again before submitting it for review',
+        code: 'VALIDATION_INCOMPLETE'
+      });
+    }
+
+    const validationData = serverValidation?.result;
+    const gateEvaluation = validationData ? evaluateSubmissionGate(validationData, gateSettings) : null;
+    if (gateEvaluation && !gateEvaluation.passed && !gateOverride) {
+      await prisma.auditLog.create({
+        data: {
+          userId: user.id,
+          action: 'SUBMISSION_BLOCKED',
+          metadata: {
+            contentId,
+            authorId: content.authorId,
+            title: content.title,
+            validationJobId: serverValidation!.jobId,
+            overallScore: validationData!.overall,
+            shortfalls: gateEvaluation.shortfalls,
+            flaggedForReview: gateEvaluation.flaggedForReview
+          }
+        }
+      });
+      return res.status(422).json({
+        error: describeGateFailure(gateEvaluation),
+        code: 'BELOW_MINIMUM_SCORE',
+        shortfalls: gateEvaluation.shortfalls,
+        flaggedForReview: gateEvaluation.flaggedForReview
+      });
+    }
+
+    // The override is only spent on a submission that couldn't have gone through without it
+    const usedOverride = !validationData || (gateEvaluation && !gateEvaluation.passed) ? gateOverride : null;
+
     // Update content status and assign reviewer
     const updateData: any = {
       status: 'REVIEW',
@@ -300,6 +370,10 @@ contentRouter.post('/submit', requireAuth, requireRole(['CREATOR', 'SUPER_ADMIN'
       updateData.version = content.version + 1;
     }
 
+    const validationResultData = validationData
+      ? await validationResultDataOf(contentId, { contentHash: serverValidation!.contentHash, result: validationData }, content.content, content.assignment?.guidelines)
+      : null;
+
     // Wrap content update, validation storage, and audit logging in a transaction
     const result = await prisma.$transaction(async (tx) => {
       const updatedContent = await tx.content.update({
@@ -315,20 +389,18 @@ contentRouter.post('/submit', requireAuth, requireRole(['CREATOR', 'SUPER_ADMIN'
         }
       });
 
-      // Store validation results if provided
-      if (validationData) {
-        await tx.validationResult.create({
-          data: {
-            contentId: contentId,
-            llmProvider: 'OPENAI', // Use valid enum value (represents dual validation)
-            modelVersion: 'gpt-4-gemini-2.5-flash-lite',
-            criteria: validationData.criteria,
-            overallScore: validationData.overallScore || validationData.overall, // Handle both field names
-            processingTimeMs: validationData.processingTime || 0
-          }
+      if (usedOverride) {
+        await tx.submissionGateOverride.update({
+          where: { id: usedOverride.id },
+          data: { usedAt: new Date() }
         });
       }
 
+      // Store the server's validation result with the submission
+      if (validationResultData) {
+        await tx.validationResult.create({ data: validationResultData });
+      }
+
       // Log the action
       await tx.auditLog.create({
         data: {
@@ -339,7 +411,9 @@ contentRouter.post('/submit', requireAuth, requireRole(['CREATOR', 'SUPER_ADMIN'
             reviewerId: content.author.assignedAdminId,
             title: content.title,
             version: updateData.version || content.version,
-            hasValidationData: !!validationData
+            hasValidationData: !!validationData,
+            validationJobId: serverValidation?.jobId ?? null,
+            gateOverrideId: usedOverride?.id ?? null
           }
         }
       });
@@ -456,6 +530,64 @@ contentRouter.post('/:id/review', requireAuth, requireRole(['ADMIN']), async (re
   }
 });
 
+// Let the next submission of content through the minimum score gate - the creator's admin or a super admin
+contentRouter.post('/:id/gate-override', requireAuth, requireRole(['ADMIN', 'SUPER_ADMIN']), async (req, res) => {
+  try {
+    const contentId = req.params.id!;
+    const user = req.user!;
+    const { reason } = gateOverrideSchema.parse(req.body);
+
+    const content = await prisma.content.findUnique({
+      where: { id: contentId },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        authorId: true,
+        author: { select: { assignedAdminId: true } }
+      }
+    });
+
+    if (!content) {
+      return res.status(404).json({ error: 'Content not found' });
+    }
+
+    if (user.role !== 'SUPER_ADMIN' && content.author.assignedAdminId !== user.id) {
+      return res.status(403).json({ error: 'You are not assigned to this creator' });
+    }
+
+    if (content.status !== 'DRAFT' && content.status !== 'REJECTED') {
+      return res.status(400).json({ error: 'Only draft or rejected content can be given an override' });
+    }
+
+    const override = await prisma.submissionGateOverride.create({
+      data: { contentId, reason, grantedById: user.id }
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: user.id,
+        action: 'SUBMISSION_GATE_OVERRIDE_GRANTED',
+        metadata: {
+          contentId,
+          authorId: content.authorId,
+          title: content.title,
+          overrideId: override.id,
+          reason
+        }
+      }
+    });
+
+    res.json({ override });
+  } catch (error) {
+    console.error('Error granting gate override:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'A reason is required', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to grant override' });
+  }
+});
+
 // Update content (only for DRAFT and REJECTED status)
 contentRouter.put('/:id', requireAuth, requireRole(['CREATOR']), async (req: Request, res: Response) => {
   try {
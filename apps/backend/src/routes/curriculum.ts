@@ -0,0 +1,326 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { requireAuth, requireRole } from '../middleware/auth.js';
+import { prisma } from '../lib/prisma.js';
+import {
+  getCourseOutline,
+  linkAssignmentsByTopicName,
+  listCourseOutlines,
+  nextPosition,
+  syncCourseAssignments,
+  topicsTaughtBefore,
+} from '../services/curriculum.js';
+
+export const curriculumRouter = Router();
+
+curriculumRouter.use(requireAuth, requireRole(['ADMIN', 'SUPER_ADMIN']));
+
+const courseSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().nullable().optional(),
+});
+
+const moduleSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+});
+
+const topicSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().nullable().optional(),
+  // Concepts the topic introduces, for the prerequisite check
+  concepts: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+});
+
+const topicUpdateSchema = topicSchema.partial().extend({
+  // Moves the topic to the end of another module
+  moduleId: z.string().min(1).optional(),
+});
+
+const orderSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1),
+});
+
+// Same members, any order
+function isPermutation(ids: string[], existing: string[]): boolean {
+  return ids.length === existing.length && new Set(ids).size === ids.length && ids.every(id => existing.includes(id));
+}
+
+function handleCurriculumError(res: Response, error: unknown, message: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid input', details: error.issues });
+  }
+  if ((error as any)?.code === 'P2002') {
+    return res.status(409).json({ error: 'A course with this name already exists' });
+  }
+  if ((error as any)?.code === 'P2025') {
+    return res.status(404).json({ error: 'Not found' });
+  }
+  console.error(`Failed to ${message}:`, error);
+  res.status(500).json({ error: `Failed to ${message}` });
+}
+
+// Courses with their modules and topics in teaching order
+curriculumRouter.get('/courses', async (_req: Request, res: Response) => {
+  try {
+    const courses = await listCourseOutlines();
+    res.json({ courses });
+  } catch (error) {
+    handleCurriculumError(res, error, 'fetch courses');
+  }
+});
+
+curriculumRouter.post('/courses', async (req: Request, res: Response) => {
+  try {
+    const data = courseSchema.parse(req.body);
+    const course = await prisma.$transaction(async (tx) => {
+      const created = await tx.course.create({
+        data: { name: data.name, description: data.description ?? null, createdById: req.user!.id }
+      });
+      await tx.auditLog.create({
+        data: { userId: req.user!.id, action: 'COURSE_CREATED', metadata: { courseId: created.id, name: created.name } }
+      });
+      return created;
+    });
+    res.status(201).json({ course: await getCourseOutline(course.id) });
+  } catch (error) {
+    handleCurriculumError(res, error, 'create course');
+  }
+});
+
+curriculumRouter.put('/courses/:id', async (req: Request, res: Response) => {
+  try {
+    const data = courseSchema.partial().parse(req.body);
+    await prisma.course.update({
+      where: { id: req.params.id as string },
+      data: {
+        ...(data.name && { name: data.name }),
+        ...(data.description !== undefined && { description: data.description }),
+      }
+    });
+    res.json({ course: await getCourseOutline(req.params.id as string) });
+  } catch (error) {
+    handleCurriculumError(res, error, 'update course');
+  }
+});
+
+// Assignments on the course's topics keep their topic and "taught so far" lists but are no longer linked
+curriculumRouter.delete('/courses/:id', async (req: Request, res: Response) => {
+  try {
+    await prisma.$transaction(async (tx) => {
+      const course = await tx.course.delete({ where: { id: req.params.id as string } });
+      await tx.auditLog.create({
+        data: { userId: req.user!.id, action: 'COURSE_DELETED', metadata: { courseId: course.id, name: course.name } }
+      });
+    });
+    res.json({ success: true });
+  } catch (error) {
+    handleCurriculumError(res, error, 'delete course');
+  }
+});
+
+curriculumRouter.post('/courses/:id/modules', async (req: Request, res: Response) => {
+  try {
+    const courseId = req.params.id as string;
+    const data = moduleSchema.parse(req.body);
+    const last = await prisma.courseModule.findFirst({ where: { courseId }, orderBy: { position: 'desc' }, select: { position: true } });
+    await prisma.courseModule.create({ data: { courseId, name: data.name, position: nextPosition(last) } });
+    res.status(201).json({ course: await getCourseOutline(courseId) });
+  } catch (error) {
+    handleCurriculumError(res, error, 'create module');
+  }
+});
+
+curriculumRouter.put('/courses/:id/modules/order', async (req: Request, res: Response) => {
+  try {
+    const courseId = req.params.id as string;
+    const { ids } = orderSchema.parse(req.body);
+    const modules = await prisma.courseModule.findMany({ where: { courseId }, select: { id: true } });
+    if (!isPermutation(ids, modules.map(module => module.id))) {
+      return res.status(400).json({ error: 'Module order must list every module of the course exactly once' });
+    }
+
+    const updatedAssignments = await prisma.$transaction(async (tx) => {
+      for (const [position, id] of ids.entries()) {
+        await tx.courseModule.update({ where: { id }, data: { position } });
+      }
+      return syncCourseAssignments(courseId, tx);
+    });
+    res.json({ course: await getCourseOutline(courseId), updatedAssignments });
+  } catch (error) {
+    handleCurriculumError(res, error, 'reorder modules');
+  }
+});
+
+curriculumRouter.put('/modules/:id', async (req: Request, res: Response) => {
+  try {
+    const data = moduleSchema.parse(req.body);
+    const module = await prisma.courseModule.update({ where: { id: req.params.id as string }, data: { name: data.name } });
+    res.json({ course: await getCourseOutline(module.courseId) });
+  } catch (error) {
+    handleCurriculumError(res, error, 'update module');
+  }
+});
+
+curriculumRouter.delete('/modules/:id', async (req: Request, res: Response) => {
+  try {
+    const courseId = await prisma.$transaction(async (tx) => {
+      const module = await tx.courseModule.delete({ where: { id: req.params.id as string } });
+      await syncCourseAssignments(module.courseId, tx);
+      await tx.auditLog.create({
+        data: { userId: req.user!.id, action: 'COURSE_MODULE_DELETED', metadata: { courseId: module.courseId, moduleId: module.id, name: module.name } }
+      });
+      return module.courseId;
+    });
+    res.json({ course: await getCourseOutline(courseId) });
+  } catch (error) {
+    handleCurriculumError(res, error, 'delete module');
+  }
+});
+
+curriculumRouter.post('/modules/:id/topics', async (req: Request, res: Response) => {
+  try {
+    const moduleId = req.params.id as string;
+    const data = topicSchema.parse(req.body);
+    const module = await prisma.courseModule.findUnique({ where: { id: moduleId }, select: { courseId: true } });
+    if (!module) {
+      return res.status(404).json({ error: 'Module not found' });
+    }
+
+    const last = await prisma.topic.findFirst({ where: { moduleId }, orderBy: { position: 'desc' }, select: { position: true } });
+    await prisma.$transaction(async (tx) => {
+      await tx.topic.create({
+        data: {
+          moduleId,
+          name: data.name,
+          description: data.description ?? null,
+          concepts: data.concepts ?? [],
+          position: nextPosition(last),
+        }
+      });
+      // Topics later in the course now have one more topic taught before them
+      await syncCourseAssignments(module.courseId, tx);
+    });
+    res.status(201).json({ course: await getCourseOutline(module.courseId) });
+  } catch (error) {
+    handleCurriculumError(res, error, 'create topic');
+  }
+});
+
+curriculumRouter.put('/modules/:id/topics/order', async (req: Request, res: Response) => {
+  try {
+    const moduleId = req.params.id as string;
+    const { ids } = orderSchema.parse(req.body);
+    const module = await prisma.courseModule.findUnique({
+      where: { id: moduleId },
+      select: { courseId: true, topics: { select: { id: true } } }
+    });
+    if (!module) {
+      return res.status(404).json({ error: 'Module not found' });
+    }
+    if (!isPermutation(ids, module.topics.map(topic => topic.id))) {
+      return res.status(400).json({ error: 'Topic order must list every topic of the module exactly once' });
+    }
+
+    const updatedAssignments = await prisma.$transaction(async (tx) => {
+      for (const [position, id] of ids.entries()) {
+        await tx.topic.update({ where: { id }, data: { position } });
+      }
+      return syncCourseAssignments(module.courseId, tx);
+    });
+    res.json({ course: await getCourseOutline(module.courseId), updatedAssignments });
+  } catch (error) {
+    handleCurriculumError(res, error, 'reorder topics');
+  }
+});
+
+curriculumRouter.put('/topics/:id', async (req: Request, res: Response) => {
+  try {
+    const topicId = req.params.id as string;
+    const data = topicUpdateSchema.parse(req.body);
+    const existing = await prisma.topic.findUnique({
+      where: { id: topicId },
+      select: { moduleId: true, module: { select: { courseId: true } } }
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Topic not found' });
+    }
+
+    const target = data.moduleId && data.moduleId !== existing.moduleId
+      ? await prisma.courseModule.findUnique({ where: { id: data.moduleId }, select: { id: true, courseId: true } })
+      : null;
+    if (data.moduleId && data.moduleId !== existing.moduleId && !target) {
+      return res.status(400).json({ error: 'Target module not found' });
+    }
+    const last = target
+      ? await prisma.topic.findFirst({ where: { moduleId: target.id }, orderBy: { position: 'desc' }, select: { position: true } })
+      : null;
+
+    const updatedAssignments = await prisma.$transaction(async (tx) => {
+      await tx.topic.update({
+        where: { id: topicId },
+        data: {
+          ...(data.name && { name: data.name }),
+          ...(data.description !== undefined && { description: data.description }),
+          ...(data.concepts && { concepts: data.concepts }),
+          ...(target && { moduleId: target.id, position: nextPosition(last) }),
+        }
+      });
+      const courseIds = new Set([existing.module.courseId, ...(target ? [target.courseId] : [])]);
+      let count = 0;
+      for (const courseId of courseIds) {
+        count += await syncCourseAssignments(courseId, tx);
+      }
+      return count;
+    });
+    res.json({ course: await getCourseOutline(target?.courseId ?? existing.module.courseId), updatedAssignments });
+  } catch (error) {
+    handleCurriculumError(res, error, 'update topic');
+  }
+});
+
+// Assignments on the topic keep their topic and "taught so far" lists but are no longer linked
+curriculumRouter.delete('/topics/:id', async (req: Request, res: Response) => {
+  try {
+    const courseId = await prisma.$transaction(async (tx) => {
+      const topic = await tx.topic.delete({
+        where: { id: req.params.id as string },
+        include: { module: { select: { courseId: true } } }
+      });
+      await syncCourseAssignments(topic.module.courseId, tx);
+      await tx.auditLog.create({
+        data: { userId: req.user!.id, action: 'TOPIC_DELETED', metadata: { courseId: topic.module.courseId, topicId: topic.id, name: topic.name } }
+      });
+      return topic.module.courseId;
+    });
+    res.json({ course: await getCourseOutline(courseId) });
+  } catch (error) {
+    handleCurriculumError(res, error, 'delete topic');
+  }
+});
+
+// What an assignment on this topic will be validated against
+curriculumRouter.get('/topics/:id/taught-so-far', async (req: Request, res: Response) => {
+  try {
+    const taught = await topicsTaughtBefore(req.params.id as string);
+    if (!taught) {
+      return res.status(404).json({ error: 'Topic not found' });
+    }
+    res.json(taught);
+  } catch (error) {
+    handleCurriculumError(res, error, 'fetch topics taught so far');
+  }
+});
+
+// Link assignments created before the curriculum to the topics with the same name
+curriculumRouter.post('/link-assignments', async (req: Request, res: Response) => {
+  try {
+    const result = await linkAssignmentsByTopicName();
+    await prisma.auditLog.create({
+      data: { userId: req.user!.id, action: 'ASSIGNMENTS_LINKED_TO_CURRICULUM', metadata: result }
+    });
+    res.json(result);
+  } catch (error) {
+    handleCurriculumError(res, error, 'link assignments to the curriculum');
+  }
+});
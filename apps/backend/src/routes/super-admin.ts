@@ -2,7 +2,20 @@ import { Router } from 'express';
 import { z } from 'zod';
 import { prisma } from '../lib/prisma.js';
 import { requireAuth } from '../middleware/auth.js';
-import { runDualLLMValidation, type AssignmentContext } from '../services/validation.js';
+import { buildPrompt, getLLMConfigurations, runDualLLMValidation, type AssignmentContext } from '../services/validation.js';
+import { BUILT_IN_PROMPT_TEMPLATES, PROMPT_VARIABLES, PromptTemplateError, checkPromptTemplate } from '../services/promptTemplates.js';
+import { parseSubTopics } from '../services/assignmentBrief.js';
+import { getProviderHealth } from '../services/providerResilience.js';
+import { invalidateValidationCache } from '../services/validationCache.js';
+import { buildExperimentReport } from '../services/promptExperiments.js';
+import { startGoldenSetRun } from '../services/goldenSet.js';
+import { activateGuidelinesVersion, activatePromptVersion, createGuidelinesVersion, createPromptVersion, diffLines } from '../services/templateVersions.js';
+import { DEFAULT_AGGREGATION_SETTINGS, DEFAULT_AGREEMENT_THRESHOLD } from '../services/scoreAggregation.js';
+import { buildCalibrationReport } from '../services/calibration.js';
+import { DEFAULT_SUBMISSION_GATE } from '../services/submissionGate.js';
+import { BUILT_IN_RUBRICS } from '../services/rubrics.js';
+import { criteriaListOf, rubricCriteriaSchema } from '../services/rubricDefinitions.js';
+import { DEFAULT_LLM_PRICES, recordValidationUsage, startOfMonth } from '../services/llmUsage.js';
 import bcrypt from 'bcryptjs';
 import csv from 'csv-parser';
 import { Readable } from 'stream';
@@ -28,13 +41,107 @@ const promptTemplateSchema = z.object({
   prompt: z.string().min(1),
 });
 
+const contentTypeSchema = z.enum(['PRE_READ', 'ASSIGNMENT', 'LECTURE_NOTE']);
+
+const templateDiffSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+});
+
+const experimentVariantSchema = z.object({
+  promptTemplateId: z.string().min(1),
+  label: z.string().min(1),
+  weight: z.number().int().min(0),
+});
+
+const promptExperimentSchema = z.object({
+  name: z.string().min(1),
+  contentType: contentTypeSchema,
+  variants: z.array(experimentVariantSchema).min(2),
+}).refine((data) => data.variants.some(variant => variant.weight > 0), {
+  message: 'At least one variant needs a weight above zero',
+  path: ['variants'],
+}).refine((data) => new Set(data.variants.map(variant => variant.promptTemplateId)).size === data.variants.length, {
+  message: 'Each variant must use a different prompt version',
+  path: ['variants'],
+});
+
+const experimentWeightsSchema = z.object({
+  weights: z.record(z.string(), z.number().int().min(0)),
+});
+
 const llmConfigSchema = z.object({
-  provider: z.enum(['OPENAI', 'ANTHROPIC', 'LOCAL']),
+  provider: z.enum(['OPENAI', 'ANTHROPIC', 'GEMINI', 'LOCAL']),
   modelName: z.string().min(1),
   temperature: z.number().min(0).max(2).default(0.0),
   maxTokens: z.number().optional(),
-  apiEndpoint: z.string().optional(),
+  apiEndpoint: z.string().url().optional(),
   priority: z.number().default(1),
+  weight: z.number().min(0).default(1),
+}).refine((data) => data.provider !== 'LOCAL' || !!data.apiEndpoint, {
+  message: 'apiEndpoint is required for LOCAL (OpenAI-compatible) providers',
+  path: ['apiEndpoint'],
+});
+
+const goldenSetItemSchema = z.object({
+  title: z.string().min(1),
+  contentType: contentTypeSchema,
+  topic: z.string().min(1),
+  topicsTaughtSoFar: z.array(z.string()).default([]),
+  difficulty: z.enum(['EASY', 'MEDIUM', 'HARD']).nullable().optional(),
+  content: z.string().min(1),
+  expectedMinScore: z.number().int().min(0).max(100),
+  expectedMaxScore: z.number().int().min(0).max(100),
+  expectedVerdict: z.enum(['APPROVE', 'REJECT']).nullable().optional(),
+  notes: z.string().nullable().optional(),
+}).refine((data) => data.expectedMinScore <= data.expectedMaxScore, {
+  message: 'expectedMinScore must not exceed expectedMaxScore',
+  path: ['expectedMaxScore'],
+});
+
+const goldenSetRunSchema = z.object({
+  name: z.string().min(1).optional(),
+  useStubProvider: z.boolean().default(false),
+  candidate: z.object({
+    contentType: contentTypeSchema.optional(),
+    promptTemplateId: z.string().min(1).optional(),
+    llmConfigs: z.array(llmConfigSchema).min(1).optional(),
+    approveThreshold: z.number().int().min(0).max(100).default(70),
+  }),
+});
+
+const aggregationSettingSchema = z.object({
+  strategy: z.enum(['MAX', 'MIN', 'MEAN', 'WEIGHTED', 'AGREEMENT']),
+  agreementThreshold: z.number().int().min(0).max(100).nullable().optional(),
+  disagreementThreshold: z.number().int().min(0).max(100).nullable().optional(),
+});
+
+const criterionMinimumSchema = z.number().int().min(0).max(100).optional();
+
+const submissionGateSchema = z.object({
+  minOverallScore: z.number().int().min(0).max(100).nullable(),
+  minCriterionScores: z.object({
+    relevance: criterionMinimumSchema,
+    continuity: criterionMinimumSchema,
+    documentation: criterionMinimumSchema,
+  }).default({}),
+});
+
+const rubricSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  contentType: contentTypeSchema,
+  description: z.string().nullable().optional(),
+  criteria: rubricCriteriaSchema,
+  passThreshold: z.number().int().min(0).max(100).nullable().default(null),
+});
+
+const llmPriceSchema = z.object({
+  inputPerMillionUsd: z.number().min(0),
+  outputPerMillionUsd: z.number().min(0),
+});
+
+const validationBudgetSchema = z.object({
+  monthlyBudgetUsd: z.number().min(0).nullable(),
 });
 
 const userCreateSchema = z.object({
@@ -49,6 +156,9 @@ const promptTestSchema = z.object({
   variables: z.object({
     topic: z.string(),
     prerequisites: z.string(),
+    difficulty: z.string().optional(),
+    // Assignment guidelines, so drafts can be tried against a brief
+    subTopics: z.string().optional(),
     content: z.string(),
   }),
 });
@@ -60,27 +170,29 @@ superAdminRouter.post('/prompts/test', async (req, res) => {
   try {
     const { prompt, contentType, variables } = promptTestSchema.parse(req.body);
     
-    // Replace variables in the prompt
-    let processedPrompt = prompt
-      .replace(/{TOPIC}/g, variables.topic)
-      .replace(/{TOPICS_TAUGHT_SO_FAR}/g, variables.prerequisites)
-      .replace(/{PREREQUISITES}/g, variables.prerequisites) // Keep backward compatibility
-      .replace(/{CONTENT}/g, variables.content);
-    
     // Create assignment context for validation
     const assignmentContext: AssignmentContext = {
       topic: variables.topic,
       topicsTaughtSoFar: variables.prerequisites.split(',').map(p => p.trim()).filter(p => p),
       contentType: contentType,
+      difficulty: variables.difficulty || null,
+      guidelines: variables.subTopics || null,
+      subTopics: parseSubTopics(variables.subTopics),
     };
+
+    // Render the draft exactly as validation will, so template errors show up before any LLM call
+    const processedPrompt = await buildPrompt(variables.content, assignmentContext, prompt);
     
-    // Run dual LLM validation
+    // Run dual LLM validation with the draft template
     const startTime = Date.now();
     const dualResult = await runDualLLMValidation(
       variables.content, 
-      assignmentContext
+      assignmentContext,
+      undefined,
+      { promptTemplate: prompt }
     );
     const processingTime = Date.now() - startTime;
+    await recordValidationUsage({ dualResult, requestedById: req.user!.id, contentType });
     
     res.json({
       success: true,
@@ -91,8 +203,10 @@ superAdminRouter.post('/prompts/test', async (req, res) => {
         content: variables.content,
       },
       dualValidationResult: {
-        finalScore: dualResult.finalScore,
-        finalFeedback: dualResult.finalFeedback,
+        status: dualResult.status,
+        ...(dualResult.status === 'completed'
+          ? { finalScore: dualResult.finalScore, finalFeedback: dualResult.finalFeedback, rubric: dualResult.rubric }
+          : { reason: dualResult.reason }),
         round1Results: dualResult.round1Results,
         round2Results: dualResult.round2Results,
         processingTime: dualResult.processingTime,
@@ -108,6 +222,9 @@ superAdminRouter.post('/prompts/test', async (req, res) => {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Invalid test data', details: error.issues });
     }
+    if (error instanceof PromptTemplateError) {
+      return res.status(400).json({ error: 'Invalid prompt template', details: error.issues });
+    }
     res.status(500).json({ 
       error: 'Failed to test prompt', 
       details: error instanceof Error ? error.message : 'Unknown error'
@@ -119,31 +236,13 @@ superAdminRouter.post('/prompts/test', async (req, res) => {
 superAdminRouter.get('/prompts/variables', async (req, res) => {
   try {
     const variables = {
-      available: [
-        {
-          name: 'TOPIC',
-          description: 'The main topic/subject of the content',
-          example: 'Introduction to React Hooks',
-          required: true,
-        },
-        {
-          name: 'TOPICS_TAUGHT_SO_FAR',
-          description: 'Comma-separated list of topics taught so far',
-          example: 'JavaScript Fundamentals, ES6 Features, React Basics',
-          required: true,
-        },
-        {
-          name: 'CONTENT',
-          description: 'The actual content to be validated (markdown format)',
-          example: '# React Hooks\n\nReact Hooks are functions that...',
-          required: true,
-        },
-      ],
+      available: PROMPT_VARIABLES,
       usage: {
-        syntax: 'Use {VARIABLE_NAME} in your prompt template',
+        syntax: 'Use {VARIABLE_NAME} in your prompt template; {{VARIABLE_NAME}} renders a literal {VARIABLE_NAME}',
         examples: [
           'Analyze the following {CONTENT} about {TOPIC}',
           'Topics Taught So Far: {TOPICS_TAUGHT_SO_FAR}',
+          'Difficulty: {DIFFICULTY}',
         ],
       },
       sampleData: {
@@ -239,6 +338,20 @@ At its core, machine learning is about finding patterns in data and using those
   }
 });
 
+// Built-in prompt used for a content type while no template is active
+superAdminRouter.get('/prompts/default/:contentType', async (req, res) => {
+  try {
+    const contentType = contentTypeSchema.parse(req.params.contentType);
+    res.json({ contentType, prompt: BUILT_IN_PROMPT_TEMPLATES[contentType] });
+  } catch (error) {
+    console.error('Error fetching default prompt:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid content type', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to fetch default prompt' });
+  }
+});
+
 // Get all prompt templates
 superAdminRouter.get('/prompts', async (req, res) => {
   try {
@@ -264,33 +377,15 @@ superAdminRouter.get('/prompts', async (req, res) => {
 superAdminRouter.post('/prompts', async (req, res) => {
   try {
     const { name, contentType, prompt } = promptTemplateSchema.parse(req.body);
+
+    const templateIssues = checkPromptTemplate(prompt);
+    if (templateIssues.length > 0) {
+      return res.status(400).json({ error: 'Invalid prompt template', details: templateIssues });
+    }
     
-    // Deactivate existing prompts for this content type
-    await prisma.promptTemplate.updateMany({
-      where: { contentType, isActive: true },
-      data: { isActive: false }
-    });
-    
-    // Get next version number
-    const lastVersion = await prisma.promptTemplate.findFirst({
-      where: { contentType },
-      orderBy: { version: 'desc' }
-    });
+    const newPrompt = await createPromptVersion({ name, contentType, prompt, createdById: req.user!.id });
     
-    const newPrompt = await prisma.promptTemplate.create({
-      data: {
-        name,
-        contentType,
-        prompt,
-        version: (lastVersion?.version || 0) + 1,
-        createdById: req.user!.id,
-      },
-      include: {
-        createdBy: {
-          select: { name: true, email: true }
-        }
-      }
-    });
+    await invalidateValidationCache(contentType);
     
     res.json({ prompt: newPrompt });
   } catch (error) {
@@ -302,22 +397,31 @@ superAdminRouter.post('/prompts', async (req, res) => {
   }
 });
 
-// Update prompt template
+// Update prompt template; versions are immutable, so this saves the edit as the next active version
 superAdminRouter.put('/prompts/:id', async (req, res) => {
   try {
     const { id } = req.params;
-    const { name, contentType, prompt } = promptTemplateSchema.parse(req.body);
+    const { name, prompt } = promptTemplateSchema.parse(req.body);
+
+    const existing = await prisma.promptTemplate.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Prompt not found' });
+    }
+
+    const templateIssues = checkPromptTemplate(prompt);
+    if (templateIssues.length > 0) {
+      return res.status(400).json({ error: 'Invalid prompt template', details: templateIssues });
+    }
     
-    const updatedPrompt = await prisma.promptTemplate.update({
-      where: { id },
-      data: { name, contentType, prompt },
-      include: {
-        createdBy: {
-          select: { name: true, email: true }
-        }
-      }
+    const updatedPrompt = await createPromptVersion({
+      name,
+      contentType: existing.contentType,
+      prompt,
+      createdById: req.user!.id,
     });
     
+    await invalidateValidationCache(updatedPrompt.contentType);
+    
     res.json({ prompt: updatedPrompt });
   } catch (error) {
     console.error('Error updating prompt:', error);
@@ -340,6 +444,11 @@ superAdminRouter.patch('/prompts/:id/toggle', async (req, res) => {
     
     // If activating, deactivate others of same content type
     if (!prompt.isActive) {
+      const templateIssues = checkPromptTemplate(prompt.prompt);
+      if (templateIssues.length > 0) {
+        return res.status(400).json({ error: 'Invalid prompt template', details: templateIssues });
+      }
+
       await prisma.promptTemplate.updateMany({
         where: { contentType: prompt.contentType, isActive: true },
         data: { isActive: false }
@@ -356,6 +465,8 @@ superAdminRouter.patch('/prompts/:id/toggle', async (req, res) => {
       }
     });
     
+    await invalidateValidationCache(updatedPrompt.contentType);
+    
     res.json({ prompt: updatedPrompt });
   } catch (error) {
     console.error('Error toggling prompt:', error);
@@ -363,167 +474,931 @@ superAdminRouter.patch('/prompts/:id/toggle', async (req, res) => {
   }
 });
 
-// GUIDELINES MANAGEMENT ROUTES
-
-// Get all guidelines templates
-superAdminRouter.get('/guidelines', async (req, res) => {
+// Every version of a content type's prompt, newest first, with how many stored results each produced
+superAdminRouter.get('/prompts/history/:contentType', async (req, res) => {
   try {
-    const guidelines = await prisma.guidelinesTemplate.findMany({
+    const contentType = contentTypeSchema.parse(req.params.contentType);
+    const versions = await prisma.promptTemplate.findMany({
+      where: { contentType },
       include: {
         createdBy: {
           select: { name: true, email: true }
+        },
+        _count: {
+          select: { validationResults: true }
         }
       },
-      orderBy: { createdAt: 'desc' }
+      orderBy: { version: 'desc' }
     });
-    res.json({ guidelines });
+    res.json({ contentType, versions });
   } catch (error) {
-    console.error('Error fetching guidelines:', error);
-    res.status(500).json({ error: 'Failed to fetch guidelines' });
+    console.error('Error fetching prompt history:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid content type', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to fetch prompt history' });
   }
 });
 
-// Create new guidelines template
-const createGuidelinesSchema = z.object({
-  name: z.string().min(1),
-  contentType: z.enum(['PRE_READ', 'ASSIGNMENT', 'LECTURE_NOTE']),
-  guidelines: z.string().min(1),
+// Line diff between two prompt versions
+superAdminRouter.get('/prompts/diff', async (req, res) => {
+  try {
+    const { from, to } = templateDiffSchema.parse(req.query);
+    const [fromVersion, toVersion] = await Promise.all([
+      prisma.promptTemplate.findUnique({ where: { id: from } }),
+      prisma.promptTemplate.findUnique({ where: { id: to } }),
+    ]);
+    if (!fromVersion || !toVersion) {
+      return res.status(404).json({ error: 'Prompt not found' });
+    }
+    if (fromVersion.contentType !== toVersion.contentType) {
+      return res.status(400).json({ error: 'Can only compare versions of the same content type' });
+    }
+
+    res.json({
+      from: { id: fromVersion.id, name: fromVersion.name, version: fromVersion.version },
+      to: { id: toVersion.id, name: toVersion.name, version: toVersion.version },
+      diff: diffLines(fromVersion.prompt, toVersion.prompt),
+    });
+  } catch (error) {
+    console.error('Error diffing prompts:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid diff request', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to diff prompts' });
+  }
 });
 
-superAdminRouter.post('/guidelines', async (req, res) => {
+// Make an earlier prompt version the active one again
+superAdminRouter.post('/prompts/:id/rollback', async (req, res) => {
   try {
-    const { name, contentType, guidelines } = createGuidelinesSchema.parse(req.body);
-    
-    // Deactivate existing guidelines for this content type
-    await prisma.guidelinesTemplate.updateMany({
-      where: { contentType, isActive: true },
-      data: { isActive: false }
+    const { id } = req.params;
+
+    const target = await prisma.promptTemplate.findUnique({ where: { id } });
+    if (!target) {
+      return res.status(404).json({ error: 'Prompt not found' });
+    }
+    if (target.isActive) {
+      return res.status(400).json({ error: 'This version is already active' });
+    }
+
+    // Versions saved before templates were checked may not render
+    const templateIssues = checkPromptTemplate(target.prompt);
+    if (templateIssues.length > 0) {
+      return res.status(400).json({ error: 'Invalid prompt template', details: templateIssues });
+    }
+
+    const previous = await prisma.promptTemplate.findFirst({
+      where: { contentType: target.contentType, isActive: true },
+      select: { id: true, version: true }
     });
-    
-    const newGuidelines = await prisma.guidelinesTemplate.create({
+    const prompt = await activatePromptVersion(id);
+
+    await invalidateValidationCache(prompt.contentType);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'PROMPT_ROLLED_BACK',
+        metadata: {
+          contentType: prompt.contentType,
+          fromPromptId: previous?.id ?? null,
+          fromVersion: previous?.version ?? null,
+          toPromptId: prompt.id,
+          toVersion: prompt.version,
+        }
+      }
+    });
+
+    res.json({ prompt });
+  } catch (error) {
+    console.error('Error rolling back prompt:', error);
+    res.status(500).json({ error: 'Failed to roll back prompt' });
+  }
+});
+
+// PROMPT EXPERIMENT ROUTES
+
+const experimentInclude = {
+  createdBy: {
+    select: { name: true, email: true }
+  },
+  variants: {
+    include: {
+      promptTemplate: {
+        select: { id: true, name: true, version: true }
+      },
+      _count: {
+        select: { validationResults: true }
+      }
+    },
+    orderBy: { id: 'asc' }
+  }
+} as const;
+
+// Get all prompt experiments, running ones first
+superAdminRouter.get('/experiments', async (req, res) => {
+  try {
+    const experiments = await prisma.promptExperiment.findMany({
+      include: experimentInclude,
+      orderBy: [
+        { status: 'asc' },
+        { startedAt: 'desc' }
+      ]
+    });
+    res.json({ experiments });
+  } catch (error) {
+    console.error('Error fetching experiments:', error);
+    res.status(500).json({ error: 'Failed to fetch experiments' });
+  }
+});
+
+// Start an experiment; while it runs its variants replace the active prompt for the content type
+superAdminRouter.post('/experiments', async (req, res) => {
+  try {
+    const { name, contentType, variants } = promptExperimentSchema.parse(req.body);
+
+    const running = await prisma.promptExperiment.findFirst({
+      where: { contentType, status: 'RUNNING' },
+      select: { name: true }
+    });
+    if (running) {
+      return res.status(409).json({ error: `Experiment "${running.name}" is already running for this content type` });
+    }
+
+    const templates = await prisma.promptTemplate.findMany({
+      where: { id: { in: variants.map(variant => variant.promptTemplateId) } },
+      select: { id: true, contentType: true, version: true, prompt: true }
+    });
+    for (const variant of variants) {
+      const template = templates.find(t => t.id === variant.promptTemplateId);
+      if (!template || template.contentType !== contentType) {
+        return res.status(400).json({ error: `Variant "${variant.label}" must use a prompt version for this content type` });
+      }
+      const templateIssues = checkPromptTemplate(template.prompt);
+      if (templateIssues.length > 0) {
+        return res.status(400).json({ error: `Invalid prompt template in variant "${variant.label}" (v${template.version})`, details: templateIssues });
+      }
+    }
+
+    const experiment = await prisma.promptExperiment.create({
       data: {
         name,
         contentType,
-        guidelines,
         createdById: req.user!.id,
-        isActive: true,
+        variants: { create: variants }
       },
-      include: {
-        createdBy: {
-          select: { name: true, email: true }
+      include: experimentInclude
+    });
+
+    await invalidateValidationCache(contentType);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'PROMPT_EXPERIMENT_STARTED',
+        metadata: {
+          experimentId: experiment.id,
+          contentType,
+          variants: variants.map(({ label, promptTemplateId, weight }) => ({ label, promptTemplateId, weight }))
         }
       }
     });
-    
-    res.json({ guidelines: newGuidelines });
+
+    res.json({ experiment });
   } catch (error) {
-    console.error('Error creating guidelines:', error);
-    res.status(500).json({ error: 'Failed to create guidelines' });
+    console.error('Error creating experiment:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid experiment data', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to create experiment' });
   }
 });
 
-// Update guidelines template
-const updateGuidelinesSchema = z.object({
-  name: z.string().min(1).optional(),
-  guidelines: z.string().min(1).optional(),
-});
-
-superAdminRouter.put('/guidelines/:id', async (req, res) => {
+// Change the traffic split of a running experiment
+superAdminRouter.put('/experiments/:id/weights', async (req, res) => {
   try {
     const { id } = req.params;
-    const updates = updateGuidelinesSchema.parse(req.body);
-    
-    const updatedGuidelines = await prisma.guidelinesTemplate.update({
+    const { weights } = experimentWeightsSchema.parse(req.body);
+
+    const experiment = await prisma.promptExperiment.findUnique({
       where: { id },
+      include: { variants: { select: { id: true, weight: true } } }
+    });
+    if (!experiment) {
+      return res.status(404).json({ error: 'Experiment not found' });
+    }
+    if (experiment.status !== 'RUNNING') {
+      return res.status(400).json({ error: 'Experiment has ended' });
+    }
+
+    const unknownVariant = Object.keys(weights).find(variantId => !experiment.variants.some(variant => variant.id === variantId));
+    if (unknownVariant) {
+      return res.status(400).json({ error: `Unknown variant ${unknownVariant}` });
+    }
+    if (experiment.variants.every(variant => (weights[variant.id] ?? variant.weight) === 0)) {
+      return res.status(400).json({ error: 'At least one variant needs a weight above zero' });
+    }
+
+    await prisma.$transaction(
+      Object.entries(weights).map(([variantId, weight]) =>
+        prisma.promptExperimentVariant.update({ where: { id: variantId }, data: { weight } })
+      )
+    );
+
+    // Changing the split moves some content to another variant
+    await invalidateValidationCache(experiment.contentType);
+
+    await prisma.auditLog.create({
       data: {
-        ...(updates.name && { name: updates.name }),
-        ...(updates.guidelines && { guidelines: updates.guidelines }),
-        version: { increment: 1 },
-        updatedAt: new Date(),
-      },
-      include: {
-        createdBy: {
-          select: { name: true, email: true }
-        }
+        userId: req.user!.id,
+        action: 'PROMPT_EXPERIMENT_WEIGHTS_UPDATED',
+        metadata: { experimentId: id, weights }
       }
     });
-    
-    res.json({ guidelines: updatedGuidelines });
+
+    const updated = await prisma.promptExperiment.findUnique({ where: { id }, include: experimentInclude });
+    res.json({ experiment: updated });
   } catch (error) {
-    console.error('Error updating guidelines:', error);
-    res.status(500).json({ error: 'Failed to update guidelines' });
+    console.error('Error updating experiment weights:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid weights', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to update experiment weights' });
   }
 });
 
-// Toggle guidelines active status
-superAdminRouter.patch('/guidelines/:id/toggle', async (req, res) => {
+// Stop an experiment; validations go back to the active prompt
+superAdminRouter.post('/experiments/:id/end', async (req, res) => {
   try {
     const { id } = req.params;
-    
-    const currentGuidelines = await prisma.guidelinesTemplate.findUnique({
-      where: { id }
-    });
-    
-    if (!currentGuidelines) {
-      return res.status(404).json({ error: 'Guidelines not found' });
+
+    const experiment = await prisma.promptExperiment.findUnique({ where: { id } });
+    if (!experiment) {
+      return res.status(404).json({ error: 'Experiment not found' });
     }
-    
-    const updatedGuidelines = await prisma.guidelinesTemplate.update({
+    if (experiment.status !== 'RUNNING') {
+      return res.status(400).json({ error: 'Experiment has already ended' });
+    }
+
+    const ended = await prisma.promptExperiment.update({
       where: { id },
-      data: { isActive: !currentGuidelines.isActive },
-      include: {
-        createdBy: {
-          select: { name: true, email: true }
-        }
+      data: { status: 'ENDED', endedAt: new Date() },
+      include: experimentInclude
+    });
+
+    await invalidateValidationCache(ended.contentType);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'PROMPT_EXPERIMENT_ENDED',
+        metadata: { experimentId: id, contentType: ended.contentType }
       }
     });
-    
-    res.json({ guidelines: updatedGuidelines });
+
+    res.json({ experiment: ended });
   } catch (error) {
-    console.error('Error toggling guidelines:', error);
-    res.status(500).json({ error: 'Failed to toggle guidelines' });
+    console.error('Error ending experiment:', error);
+    res.status(500).json({ error: 'Failed to end experiment' });
   }
 });
 
-// LLM CONFIGURATION ROUTES
+// Compare the variants' score distributions, model disagreement and review outcomes
+superAdminRouter.get('/experiments/:id/report', async (req, res) => {
+  try {
+    const report = await buildExperimentReport(req.params.id);
+    if (!report) {
+      return res.status(404).json({ error: 'Experiment not found' });
+    }
+    res.json(report);
+  } catch (error) {
+    console.error('Error building experiment report:', error);
+    res.status(500).json({ error: 'Failed to build experiment report' });
+  }
+});
 
-// Get all LLM configurations
-superAdminRouter.get('/llm-configs', async (req, res) => {
+// GOLDEN SET ROUTES
+
+// Get all golden-set items
+superAdminRouter.get('/golden-set/items', async (req, res) => {
   try {
-    const configs = await prisma.lLMConfiguration.findMany({
+    const items = await prisma.goldenSetItem.findMany({
       include: {
         createdBy: {
           select: { name: true, email: true }
         }
       },
-      orderBy: { priority: 'asc' }
+      orderBy: [
+        { contentType: 'asc' },
+        { createdAt: 'asc' }
+      ]
     });
-    res.json({ configs });
+    res.json({ items });
   } catch (error) {
-    console.error('Error fetching LLM configs:', error);
-    res.status(500).json({ error: 'Failed to fetch LLM configurations' });
+    console.error('Error fetching golden-set items:', error);
+    res.status(500).json({ error: 'Failed to fetch golden-set items' });
   }
 });
 
-// Create new LLM configuration
-superAdminRouter.post('/llm-configs', async (req, res) => {
+// Add a golden-set item
+superAdminRouter.post('/golden-set/items', async (req, res) => {
   try {
-    const configData = llmConfigSchema.parse(req.body);
-    
-    const newConfig = await prisma.lLMConfiguration.create({
+    const data = goldenSetItemSchema.parse(req.body);
+    const item = await prisma.goldenSetItem.create({
       data: {
-        provider: configData.provider,
-        modelName: configData.modelName,
-        temperature: configData.temperature,
-        maxTokens: configData.maxTokens || null,
-        apiEndpoint: configData.apiEndpoint || null,
-        priority: configData.priority,
+        ...data,
+        difficulty: data.difficulty ?? null,
+        expectedVerdict: data.expectedVerdict ?? null,
+        notes: data.notes ?? null,
         createdById: req.user!.id,
-      },
-      include: {
-        createdBy: {
-          select: { name: true, email: true }
-        }
+      }
+    });
+    res.json({ item });
+  } catch (error) {
+    console.error('Error creating golden-set item:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid golden-set item', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to create golden-set item' });
+  }
+});
+
+// Update a golden-set item
+superAdminRouter.put('/golden-set/items/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const data = goldenSetItemSchema.parse(req.body);
+
+    const existing = await prisma.goldenSetItem.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Golden-set item not found' });
+    }
+
+    const item = await prisma.goldenSetItem.update({
+      where: { id },
+      data: {
+        ...data,
+        difficulty: data.difficulty ?? null,
+        expectedVerdict: data.expectedVerdict ?? null,
+        notes: data.notes ?? null,
+      }
+    });
+    res.json({ item });
+  } catch (error) {
+    console.error('Error updating golden-set item:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid golden-set item', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to update golden-set item' });
+  }
+});
+
+// Include or exclude a golden-set item from future runs
+superAdminRouter.patch('/golden-set/items/:id/toggle', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.goldenSetItem.findUnique({ where: { id }, select: { isActive: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Golden-set item not found' });
+    }
+
+    const item = await prisma.goldenSetItem.update({
+      where: { id },
+      data: { isActive: !existing.isActive }
+    });
+    res.json({ item });
+  } catch (error) {
+    console.error('Error toggling golden-set item:', error);
+    res.status(500).json({ error: 'Failed to toggle golden-set item' });
+  }
+});
+
+// Run the golden set against a candidate configuration and production
+superAdminRouter.post('/golden-set/runs', async (req, res) => {
+  try {
+    const { name, useStubProvider, candidate } = goldenSetRunSchema.parse(req.body);
+
+    let contentType = candidate.contentType;
+    if (candidate.promptTemplateId) {
+      const template = await prisma.promptTemplate.findUnique({
+        where: { id: candidate.promptTemplateId },
+        select: { contentType: true, prompt: true }
+      });
+      if (!template) {
+        return res.status(404).json({ error: 'Prompt not found' });
+      }
+      if (contentType && contentType !== template.contentType) {
+        return res.status(400).json({ error: 'The candidate prompt is for a different content type' });
+      }
+      const templateIssues = checkPromptTemplate(template.prompt);
+      if (templateIssues.length > 0) {
+        return res.status(400).json({ error: 'Invalid prompt template', details: templateIssues });
+      }
+      // A prompt only applies to its own content type
+      contentType = template.contentType;
+    }
+
+    const itemCount = await prisma.goldenSetItem.count({
+      where: { isActive: true, ...(contentType && { contentType }) }
+    });
+    if (itemCount === 0) {
+      return res.status(400).json({ error: 'No active golden-set items to run' });
+    }
+
+    const run = await startGoldenSetRun({
+      name,
+      useStubProvider,
+      requestedById: req.user!.id,
+      candidate: {
+        contentType,
+        promptTemplateId: candidate.promptTemplateId,
+        llmConfigs: candidate.llmConfigs?.map(config => ({
+          provider: config.provider,
+          modelName: config.modelName,
+          temperature: config.temperature,
+          maxTokens: config.maxTokens ?? null,
+          apiEndpoint: config.apiEndpoint ?? null,
+          priority: config.priority,
+          weight: config.weight,
+        })),
+        approveThreshold: candidate.approveThreshold,
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'GOLDEN_SET_RUN_STARTED',
+        metadata: { runId: run.id, itemCount: run.itemCount, useStubProvider }
+      }
+    });
+
+    res.status(202).json({ run });
+  } catch (error) {
+    console.error('Error starting golden-set run:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid golden-set run', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to start golden-set run' });
+  }
+});
+
+// Recent golden-set runs, without their per-item results
+superAdminRouter.get('/golden-set/runs', async (req, res) => {
+  try {
+    const runs = await prisma.goldenSetRun.findMany({
+      select: {
+        id: true,
+        name: true,
+        status: true,
+        useStubProvider: true,
+        candidate: true,
+        itemCount: true,
+        summary: true,
+        error: true,
+        startedAt: true,
+        completedAt: true,
+        requestedBy: {
+          select: { name: true, email: true }
+        }
+      },
+      orderBy: { startedAt: 'desc' },
+      take: 20
+    });
+    res.json({ runs });
+  } catch (error) {
+    console.error('Error fetching golden-set runs:', error);
+    res.status(500).json({ error: 'Failed to fetch golden-set runs' });
+  }
+});
+
+// A golden-set run with its drift report; results fill in while it is running
+superAdminRouter.get('/golden-set/runs/:id', async (req, res) => {
+  try {
+    const run = await prisma.goldenSetRun.findUnique({
+      where: { id: req.params.id },
+      include: {
+        requestedBy: {
+          select: { name: true, email: true }
+        }
+      }
+    });
+    if (!run) {
+      return res.status(404).json({ error: 'Golden-set run not found' });
+    }
+    res.json({ run });
+  } catch (error) {
+    console.error('Error fetching golden-set run:', error);
+    res.status(500).json({ error: 'Failed to fetch golden-set run' });
+  }
+});
+
+// GUIDELINES MANAGEMENT ROUTES
+
+// Get all guidelines templates
+superAdminRouter.get('/guidelines', async (req, res) => {
+  try {
+    const guidelines = await prisma.guidelinesTemplate.findMany({
+      include: {
+        createdBy: {
+          select: { name: true, email: true }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+    res.json({ guidelines });
+  } catch (error) {
+    console.error('Error fetching guidelines:', error);
+    res.status(500).json({ error: 'Failed to fetch guidelines' });
+  }
+});
+
+// Create new guidelines template
+const createGuidelinesSchema = z.object({
+  name: z.string().min(1),
+  contentType: z.enum(['PRE_READ', 'ASSIGNMENT', 'LECTURE_NOTE']),
+  guidelines: z.string().min(1),
+});
+
+superAdminRouter.post('/guidelines', async (req, res) => {
+  try {
+    const { name, contentType, guidelines } = createGuidelinesSchema.parse(req.body);
+    
+    const newGuidelines = await createGuidelinesVersion({ name, contentType, guidelines, createdById: req.user!.id });
+    
+    await invalidateValidationCache(contentType);
+    
+    res.json({ guidelines: newGuidelines });
+  } catch (error) {
+    console.error('Error creating guidelines:', error);
+    res.status(500).json({ error: 'Failed to create guidelines' });
+  }
+});
+
+// Update guidelines template; like prompts, the edit is saved as the next active version
+const updateGuidelinesSchema = z.object({
+  name: z.string().min(1).optional(),
+  guidelines: z.string().min(1).optional(),
+});
+
+superAdminRouter.put('/guidelines/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const updates = updateGuidelinesSchema.parse(req.body);
+
+    const existing = await prisma.guidelinesTemplate.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Guidelines not found' });
+    }
+    
+    const updatedGuidelines = await createGuidelinesVersion({
+      name: updates.name ?? existing.name,
+      contentType: existing.contentType,
+      guidelines: updates.guidelines ?? existing.guidelines,
+      createdById: req.user!.id,
+    });
+    
+    await invalidateValidationCache(updatedGuidelines.contentType);
+    
+    res.json({ guidelines: updatedGuidelines });
+  } catch (error) {
+    console.error('Error updating guidelines:', error);
+    res.status(500).json({ error: 'Failed to update guidelines' });
+  }
+});
+
+// Toggle guidelines active status
+superAdminRouter.patch('/guidelines/:id/toggle', async (req, res) => {
+  try {
+    const { id } = req.params;
+    
+    const currentGuidelines = await prisma.guidelinesTemplate.findUnique({
+      where: { id }
+    });
+    
+    if (!currentGuidelines) {
+      return res.status(404).json({ error: 'Guidelines not found' });
+    }
+    
+    // Only one version per content type may be active
+    const updatedGuidelines = currentGuidelines.isActive
+      ? await prisma.guidelinesTemplate.update({
+          where: { id },
+          data: { isActive: false },
+          include: {
+            createdBy: {
+              select: { name: true, email: true }
+            }
+          }
+        })
+      : await activateGuidelinesVersion(id);
+    
+    await invalidateValidationCache(updatedGuidelines.contentType);
+    
+    res.json({ guidelines: updatedGuidelines });
+  } catch (error) {
+    console.error('Error toggling guidelines:', error);
+    res.status(500).json({ error: 'Failed to toggle guidelines' });
+  }
+});
+
+// Every version of a content type's guidelines, newest first, with how many stored results each produced
+superAdminRouter.get('/guidelines/history/:contentType', async (req, res) => {
+  try {
+    const contentType = contentTypeSchema.parse(req.params.contentType);
+    const versions = await prisma.guidelinesTemplate.findMany({
+      where: { contentType },
+      include: {
+        createdBy: {
+          select: { name: true, email: true }
+        },
+        _count: {
+          select: { validationResults: true }
+        }
+      },
+      orderBy: { version: 'desc' }
+    });
+    res.json({ contentType, versions });
+  } catch (error) {
+    console.error('Error fetching guidelines history:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid content type', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to fetch guidelines history' });
+  }
+});
+
+// Line diff between two guidelines versions
+superAdminRouter.get('/guidelines/diff', async (req, res) => {
+  try {
+    const { from, to } = templateDiffSchema.parse(req.query);
+    const [fromVersion, toVersion] = await Promise.all([
+      prisma.guidelinesTemplate.findUnique({ where: { id: from } }),
+      prisma.guidelinesTemplate.findUnique({ where: { id: to } }),
+    ]);
+    if (!fromVersion || !toVersion) {
+      return res.status(404).json({ error: 'Guidelines not found' });
+    }
+    if (fromVersion.contentType !== toVersion.contentType) {
+      return res.status(400).json({ error: 'Can only compare versions of the same content type' });
+    }
+
+    res.json({
+      from: { id: fromVersion.id, name: fromVersion.name, version: fromVersion.version },
+      to: { id: toVersion.id, name: toVersion.name, version: toVersion.version },
+      diff: diffLines(fromVersion.guidelines, toVersion.guidelines),
+    });
+  } catch (error) {
+    console.error('Error diffing guidelines:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid diff request', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to diff guidelines' });
+  }
+});
+
+// Make an earlier guidelines version the active one again
+superAdminRouter.post('/guidelines/:id/rollback', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const target = await prisma.guidelinesTemplate.findUnique({ where: { id } });
+    if (!target) {
+      return res.status(404).json({ error: 'Guidelines not found' });
+    }
+    if (target.isActive) {
+      return res.status(400).json({ error: 'This version is already active' });
+    }
+
+    const previous = await prisma.guidelinesTemplate.findFirst({
+      where: { contentType: target.contentType, isActive: true },
+      select: { id: true, version: true }
+    });
+    const guidelines = await activateGuidelinesVersion(id);
+
+    await invalidateValidationCache(guidelines.contentType);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'GUIDELINES_ROLLED_BACK',
+        metadata: {
+          contentType: guidelines.contentType,
+          fromGuidelinesId: previous?.id ?? null,
+          fromVersion: previous?.version ?? null,
+          toGuidelinesId: guidelines.id,
+          toVersion: guidelines.version,
+        }
+      }
+    });
+
+    res.json({ guidelines });
+  } catch (error) {
+    console.error('Error rolling back guidelines:', error);
+    res.status(500).json({ error: 'Failed to roll back guidelines' });
+  }
+});
+
+// RUBRIC ROUTES
+
+const rubricInclude = {
+  createdBy: {
+    select: { name: true, email: true }
+  }
+} as const;
+
+// Saved rubrics, and the built-in rubric each content type falls back to while none of them is active
+superAdminRouter.get('/rubrics', async (req, res) => {
+  try {
+    const rubrics = await prisma.guideline.findMany({
+      where: { contentType: { not: null } },
+      include: rubricInclude,
+      orderBy: [
+        { contentType: 'asc' },
+        { updatedAt: 'desc' }
+      ]
+    });
+
+    const contentTypes = ['PRE_READ', 'ASSIGNMENT', 'LECTURE_NOTE'] as const;
+    res.json({
+      rubrics,
+      defaults: contentTypes.map(contentType => ({
+        contentType,
+        name: BUILT_IN_RUBRICS[contentType].name,
+        criteria: criteriaListOf(BUILT_IN_RUBRICS[contentType]),
+        passThreshold: BUILT_IN_RUBRICS[contentType].passThreshold,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching rubrics:', error);
+    res.status(500).json({ error: 'Failed to fetch rubrics' });
+  }
+});
+
+// New rubrics start inactive, so they can be reviewed before validation uses them
+superAdminRouter.post('/rubrics', async (req, res) => {
+  try {
+    const data = rubricSchema.parse(req.body);
+
+    const rubric = await prisma.guideline.create({
+      data: {
+        name: data.name,
+        contentType: data.contentType,
+        description: data.description ?? null,
+        criteria: data.criteria,
+        passThreshold: data.passThreshold,
+        isActive: false,
+        createdById: req.user!.id,
+      },
+      include: rubricInclude
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'RUBRIC_CREATED',
+        metadata: { rubricId: rubric.id, contentType: data.contentType, name: data.name }
+      }
+    });
+
+    res.status(201).json({ rubric });
+  } catch (error) {
+    console.error('Error creating rubric:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid rubric', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to create rubric' });
+  }
+});
+
+// Results already stored keep the criteria they were scored with, so a rubric is edited in place
+superAdminRouter.put('/rubrics/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const data = rubricSchema.omit({ contentType: true }).parse(req.body);
+
+    const existing = await prisma.guideline.findUnique({ where: { id } });
+    if (!existing?.contentType) {
+      return res.status(404).json({ error: 'Rubric not found' });
+    }
+
+    const rubric = await prisma.guideline.update({
+      where: { id },
+      data: {
+        name: data.name,
+        description: data.description ?? null,
+        criteria: data.criteria,
+        passThreshold: data.passThreshold,
+      },
+      include: rubricInclude
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'RUBRIC_UPDATED',
+        metadata: { rubricId: id, contentType: existing.contentType, name: data.name, isActive: existing.isActive }
+      }
+    });
+
+    if (existing.isActive) {
+      await invalidateValidationCache(existing.contentType);
+    }
+
+    res.json({ rubric });
+  } catch (error) {
+    console.error('Error updating rubric:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid rubric', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to update rubric' });
+  }
+});
+
+// Activate a rubric in place of the content type's current one, or deactivate it to go back to the built-in rubric
+superAdminRouter.patch('/rubrics/:id/toggle', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.guideline.findUnique({ where: { id } });
+    if (!existing?.contentType) {
+      return res.status(404).json({ error: 'Rubric not found' });
+    }
+    const contentType = existing.contentType;
+
+    const rubric = await prisma.$transaction(async (tx) => {
+      if (!existing.isActive) {
+        await tx.guideline.updateMany({
+          where: { contentType, isActive: true },
+          data: { isActive: false }
+        });
+      }
+      return tx.guideline.update({
+        where: { id },
+        data: { isActive: !existing.isActive },
+        include: rubricInclude
+      });
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: rubric.isActive ? 'RUBRIC_ACTIVATED' : 'RUBRIC_DEACTIVATED',
+        metadata: { rubricId: id, contentType, name: rubric.name }
+      }
+    });
+
+    await invalidateValidationCache(contentType);
+
+    res.json({ rubric });
+  } catch (error) {
+    console.error('Error toggling rubric:', error);
+    res.status(500).json({ error: 'Failed to toggle rubric' });
+  }
+});
+
+// LLM CONFIGURATION ROUTES
+
+// Get all LLM configurations
+superAdminRouter.get('/llm-configs', async (req, res) => {
+  try {
+    const configs = await prisma.lLMConfiguration.findMany({
+      include: {
+        createdBy: {
+          select: { name: true, email: true }
+        }
+      },
+      orderBy: { priority: 'asc' }
+    });
+    res.json({ configs });
+  } catch (error) {
+    console.error('Error fetching LLM configs:', error);
+    res.status(500).json({ error: 'Failed to fetch LLM configurations' });
+  }
+});
+
+// Create new LLM configuration
+superAdminRouter.post('/llm-configs', async (req, res) => {
+  try {
+    const configData = llmConfigSchema.parse(req.body);
+    
+    const newConfig = await prisma.lLMConfiguration.create({
+      data: {
+        provider: configData.provider,
+        modelName: configData.modelName,
+        temperature: configData.temperature,
+        maxTokens: configData.maxTokens || null,
+        apiEndpoint: configData.apiEndpoint || null,
+        priority: configData.priority,
+        weight: configData.weight,
+        createdById: req.user!.id,
+      },
+      include: {
+        createdBy: {
+          select: { name: true, email: true }
+        }
       }
     });
     
@@ -552,6 +1427,7 @@ superAdminRouter.put('/llm-configs/:id', async (req, res) => {
         maxTokens: configData.maxTokens || null,
         apiEndpoint: configData.apiEndpoint || null,
         priority: configData.priority,
+        weight: configData.weight,
       },
       include: {
         createdBy: {
@@ -570,6 +1446,24 @@ superAdminRouter.put('/llm-configs/:id', async (req, res) => {
   }
 });
 
+// Circuit breaker state for each active LLM provider
+superAdminRouter.get('/llm-health', async (req, res) => {
+  try {
+    const configs = await getLLMConfigurations();
+    const providers = [...new Set(configs.map(config => config.provider))];
+
+    res.json({
+      providers: providers.map(provider => ({
+        ...getProviderHealth(provider),
+        models: configs.filter(config => config.provider === provider).map(config => config.modelName),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching LLM health:', error);
+    res.status(500).json({ error: 'Failed to fetch LLM provider health' });
+  }
+});
+
 // Toggle LLM configuration active status
 superAdminRouter.patch('/llm-configs/:id/toggle', async (req, res) => {
   try {
@@ -597,6 +1491,446 @@ superAdminRouter.patch('/llm-configs/:id/toggle', async (req, res) => {
   }
 });
 
+// SCORE AGGREGATION ROUTES
+
+// Get the aggregation strategy for every content type (MAX when not configured)
+superAdminRouter.get('/aggregation-settings', async (req, res) => {
+  try {
+    const settings = await prisma.scoreAggregationSetting.findMany({
+      include: {
+        updatedBy: {
+          select: { name: true, email: true }
+        }
+      }
+    });
+
+    const contentTypes = ['PRE_READ', 'ASSIGNMENT', 'LECTURE_NOTE'] as const;
+    res.json({
+      settings: contentTypes.map(contentType =>
+        settings.find(setting => setting.contentType === contentType) ?? {
+          contentType,
+          ...DEFAULT_AGGREGATION_SETTINGS,
+          updatedAt: null,
+          updatedBy: null,
+        }
+      ),
+      defaultAgreementThreshold: DEFAULT_AGREEMENT_THRESHOLD,
+    });
+  } catch (error) {
+    console.error('Error fetching aggregation settings:', error);
+    res.status(500).json({ error: 'Failed to fetch aggregation settings' });
+  }
+});
+
+// Set the aggregation strategy for a content type
+superAdminRouter.put('/aggregation-settings/:contentType', async (req, res) => {
+  try {
+    const contentType = contentTypeSchema.parse(req.params.contentType);
+    const settingData = aggregationSettingSchema.parse(req.body);
+    const agreementThreshold = settingData.strategy === 'AGREEMENT' ? settingData.agreementThreshold ?? null : null;
+    const disagreementThreshold = settingData.disagreementThreshold ?? null;
+
+    const setting = await prisma.scoreAggregationSetting.upsert({
+      where: { contentType },
+      create: {
+        contentType,
+        strategy: settingData.strategy,
+        agreementThreshold,
+        disagreementThreshold,
+        updatedById: req.user!.id,
+      },
+      update: {
+        strategy: settingData.strategy,
+        agreementThreshold,
+        disagreementThreshold,
+        updatedById: req.user!.id,
+      },
+      include: {
+        updatedBy: {
+          select: { name: true, email: true }
+        }
+      }
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'SCORE_AGGREGATION_UPDATED',
+        metadata: { contentType, strategy: setting.strategy, agreementThreshold, disagreementThreshold }
+      }
+    });
+
+    await invalidateValidationCache(contentType);
+
+    res.json({ setting });
+  } catch (error) {
+    console.error('Error updating aggregation setting:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid aggregation setting', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to update aggregation setting' });
+  }
+});
+
+// Get the submission minimums for every content type (none when not configured)
+superAdminRouter.get('/submission-gates', async (req, res) => {
+  try {
+    const gates = await prisma.submissionGateSetting.findMany({
+      include: {
+        updatedBy: {
+          select: { name: true, email: true }
+        }
+      }
+    });
+
+    const contentTypes = ['PRE_READ', 'ASSIGNMENT', 'LECTURE_NOTE'] as const;
+    res.json({
+      gates: contentTypes.map(contentType =>
+        gates.find(gate => gate.contentType === contentType) ?? {
+          contentType,
+          ...DEFAULT_SUBMISSION_GATE,
+          updatedAt: null,
+          updatedBy: null,
+        }
+      ),
+    });
+  } catch (error) {
+    console.error('Error fetching submission gates:', error);
+    res.status(500).json({ error: 'Failed to fetch submission gates' });
+  }
+});
+
+// Set the minimum scores content of a type needs before it can be submitted for review
+superAdminRouter.put('/submission-gates/:contentType', async (req, res) => {
+  try {
+    const contentType = contentTypeSchema.parse(req.params.contentType);
+    const gateData = submissionGateSchema.parse(req.body);
+    const minCriterionScores = Object.fromEntries(
+      Object.entries(gateData.minCriterionScores).filter(([, minimum]) => minimum !== undefined)
+    );
+
+    const gate = await prisma.submissionGateSetting.upsert({
+      where: { contentType },
+      create: {
+        contentType,
+        minOverallScore: gateData.minOverallScore,
+        minCriterionScores,
+        updatedById: req.user!.id,
+      },
+      update: {
+        minOverallScore: gateData.minOverallScore,
+        minCriterionScores,
+        updatedById: req.user!.id,
+      },
+      include: {
+        updatedBy: {
+          select: { name: true, email: true }
+        }
+      }
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'SUBMISSION_GATE_UPDATED',
+        metadata: { contentType, minOverallScore: gateData.minOverallScore, minCriterionScores }
+      }
+    });
+
+    res.json({ gate });
+  } catch (error) {
+    console.error('Error updating submission gate:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid submission gate', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to update submission gate' });
+  }
+});
+
+// SCORE CALIBRATION ROUTES
+
+// How LLM scores line up with admin approve/reject decisions, optionally over the last N days
+superAdminRouter.get('/calibration/:contentType', async (req, res) => {
+  try {
+    const contentType = contentTypeSchema.parse(req.params.contentType);
+    const days = z.coerce.number().int().min(1).max(3650).optional().parse(req.query.days);
+    const since = days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
+
+    const report = await buildCalibrationReport(contentType, since);
+    res.json(report);
+  } catch (error) {
+    console.error('Error building calibration report:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid calibration request', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to build calibration report' });
+  }
+});
+
+// USAGE & COST ROUTES
+
+// Price per million tokens for every model that is configured, priced or has built-in list prices
+superAdminRouter.get('/llm-prices', async (req, res) => {
+  try {
+    const [prices, configs] = await Promise.all([
+      prisma.lLMPrice.findMany({
+        include: {
+          updatedBy: {
+            select: { name: true, email: true }
+          }
+        }
+      }),
+      getLLMConfigurations(),
+    ]);
+
+    const modelNames = [...new Set([
+      ...configs.map(config => config.modelName),
+      ...prices.map(price => price.modelName),
+      ...Object.keys(DEFAULT_LLM_PRICES),
+    ])];
+
+    res.json({
+      prices: modelNames.map(modelName => {
+        const price = prices.find(row => row.modelName === modelName);
+        const listPrice = DEFAULT_LLM_PRICES[modelName];
+        return {
+          modelName,
+          inputPerMillionUsd: price?.inputPerMillionUsd ?? listPrice?.inputPerMillionUsd ?? null,
+          outputPerMillionUsd: price?.outputPerMillionUsd ?? listPrice?.outputPerMillionUsd ?? null,
+          source: price ? 'custom' : listPrice ? 'default' : 'missing',
+          active: configs.some(config => config.modelName === modelName),
+          updatedAt: price?.updatedAt ?? null,
+          updatedBy: price?.updatedBy ?? null,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error('Error fetching LLM prices:', error);
+    res.status(500).json({ error: 'Failed to fetch LLM prices' });
+  }
+});
+
+// Set a model's price; calls already recorded keep the cost they were priced at
+superAdminRouter.put('/llm-prices/:modelName', async (req, res) => {
+  try {
+    const modelName = z.string().min(1).parse(req.params.modelName);
+    const priceData = llmPriceSchema.parse(req.body);
+
+    const price = await prisma.lLMPrice.upsert({
+      where: { modelName },
+      create: { modelName, ...priceData, updatedById: req.user!.id },
+      update: { ...priceData, updatedById: req.user!.id },
+      include: {
+        updatedBy: {
+          select: { name: true, email: true }
+        }
+      }
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'LLM_PRICE_UPDATED',
+        metadata: { modelName, ...priceData }
+      }
+    });
+
+    res.json({ price });
+  } catch (error) {
+    console.error('Error updating LLM price:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid price data', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to update LLM price' });
+  }
+});
+
+type UsageTotals = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+};
+
+function emptyUsageTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+}
+
+function addUsageTotals(total: UsageTotals, usage: UsageTotals) {
+  total.calls += usage.calls;
+  total.promptTokens += usage.promptTokens;
+  total.completionTokens += usage.completionTokens;
+  total.costUsd += usage.costUsd;
+}
+
+// LLM spend over the last `days` days (30 by default) by creator, admin, content type and day.
+// An admin's spend is their own re-validations plus the validations of the creators assigned to them.
+superAdminRouter.get('/usage-analytics', async (req, res) => {
+  try {
+    const days = z.coerce.number().int().min(1).max(366).default(30).parse(req.query.days);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const where = { createdAt: { gte: since } };
+    const sums = { _sum: { promptTokens: true, completionTokens: true, costUsd: true }, _count: { _all: true } } as const;
+
+    const [byRequester, byContentType, byDay] = await Promise.all([
+      prisma.lLMUsage.groupBy({ by: ['requestedById', 'creatorId'], where, ...sums }),
+      prisma.lLMUsage.groupBy({ by: ['contentType'], where, ...sums }),
+      prisma.$queryRaw<Array<{ day: Date } & UsageTotals>>`
+        SELECT date_trunc('day', "createdAt") AS day,
+               COUNT(*)::int AS calls,
+               COALESCE(SUM("promptTokens"), 0)::int AS "promptTokens",
+               COALESCE(SUM("completionTokens"), 0)::int AS "completionTokens",
+               COALESCE(SUM("costUsd"), 0)::float AS "costUsd"
+        FROM "LLMUsage"
+        WHERE "createdAt" >= ${since}
+        GROUP BY day
+        ORDER BY day ASC
+      `,
+    ]);
+
+    const toTotals = (group: typeof byRequester[number] | typeof byContentType[number]): UsageTotals => ({
+      calls: group._count._all,
+      promptTokens: group._sum.promptTokens ?? 0,
+      completionTokens: group._sum.completionTokens ?? 0,
+      costUsd: group._sum.costUsd ?? 0,
+    });
+
+    const userIds = [...new Set(byRequester.flatMap(group => [group.requestedById, group.creatorId]).filter((id): id is string => !!id))];
+    const users = await prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+        monthlyValidationBudgetUsd: true,
+        assignedAdmin: {
+          select: { id: true, name: true, email: true }
+        }
+      }
+    });
+    const usersById = new Map(users.map(user => [user.id, user]));
+
+    const totals = emptyUsageTotals();
+    const creators = new Map<string, { creator: { id: string; name: string | null; email: string } | null; budgetUsd: number | null } & UsageTotals>();
+    const admins = new Map<string, { admin: { id: string; name: string | null; email: string } | null } & UsageTotals>();
+
+    for (const group of byRequester) {
+      const usage = toTotals(group);
+      addUsageTotals(totals, usage);
+
+      const creator = group.creatorId ? usersById.get(group.creatorId) : undefined;
+      const creatorKey = creator?.id ?? 'none';
+      const creatorEntry = creators.get(creatorKey) ?? {
+        creator: creator ? { id: creator.id, name: creator.name, email: creator.email } : null,
+        budgetUsd: creator?.monthlyValidationBudgetUsd ?? null,
+        ...emptyUsageTotals(),
+      };
+      addUsageTotals(creatorEntry, usage);
+      creators.set(creatorKey, creatorEntry);
+
+      const requester = usersById.get(group.requestedById);
+      const admin = requester && requester.role !== 'CREATOR'
+        ? { id: requester.id, name: requester.name, email: requester.email }
+        : creator?.assignedAdmin ?? null;
+      const adminKey = admin?.id ?? 'none';
+      const adminEntry = admins.get(adminKey) ?? { admin, ...emptyUsageTotals() };
+      addUsageTotals(adminEntry, usage);
+      admins.set(adminKey, adminEntry);
+    }
+
+    const byCost = (a: UsageTotals, b: UsageTotals) => b.costUsd - a.costUsd;
+
+    res.json({
+      days,
+      since,
+      totals,
+      byCreator: [...creators.values()].sort(byCost),
+      byAdmin: [...admins.values()].sort(byCost),
+      byContentType: byContentType
+        .map(group => ({ contentType: group.contentType, ...toTotals(group) }))
+        .sort(byCost),
+      byDay: byDay.map(row => ({ ...row, day: row.day.toISOString().slice(0, 10) })),
+    });
+  } catch (error) {
+    console.error('Error fetching usage analytics:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid analytics range', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to fetch usage analytics' });
+  }
+});
+
+// Every creator's monthly validation budget and what they've spent so far this month
+superAdminRouter.get('/validation-budgets', async (req, res) => {
+  try {
+    const monthStart = startOfMonth();
+    const [creators, spend] = await Promise.all([
+      prisma.user.findMany({
+        where: { role: 'CREATOR' },
+        select: { id: true, name: true, email: true, monthlyValidationBudgetUsd: true },
+        orderBy: { email: 'asc' }
+      }),
+      prisma.lLMUsage.groupBy({
+        by: ['creatorId'],
+        where: { createdAt: { gte: monthStart }, creatorId: { not: null } },
+        _sum: { costUsd: true }
+      }),
+    ]);
+
+    res.json({
+      monthStart,
+      budgets: creators.map(creator => ({
+        creator: { id: creator.id, name: creator.name, email: creator.email },
+        monthlyBudgetUsd: creator.monthlyValidationBudgetUsd,
+        spentThisMonthUsd: spend.find(row => row.creatorId === creator.id)?._sum.costUsd ?? 0,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching validation budgets:', error);
+    res.status(500).json({ error: 'Failed to fetch validation budgets' });
+  }
+});
+
+// Set or clear (null) a creator's monthly validation budget
+superAdminRouter.put('/users/:id/validation-budget', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { monthlyBudgetUsd } = validationBudgetSchema.parse(req.body);
+
+    const creator = await prisma.user.findFirst({ where: { id, role: 'CREATOR' } });
+    if (!creator) {
+      return res.status(404).json({ error: 'Creator not found' });
+    }
+
+    const updatedCreator = await prisma.user.update({
+      where: { id },
+      data: { monthlyValidationBudgetUsd: monthlyBudgetUsd },
+      select: { id: true, name: true, email: true, monthlyValidationBudgetUsd: true }
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'VALIDATION_BUDGET_UPDATED',
+        metadata: {
+          creatorId: id,
+          previousBudgetUsd: creator.monthlyValidationBudgetUsd,
+          monthlyBudgetUsd
+        }
+      }
+    });
+
+    res.json({ creator: updatedCreator });
+  } catch (error) {
+    console.error('Error updating validation budget:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid budget', details: error.issues });
+    }
+    res.status(500).json({ error: 'Failed to update validation budget' });
+  }
+});
+
 // USER MANAGEMENT ROUTES
 
 // Get all users
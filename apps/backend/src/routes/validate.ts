@@ -1,9 +1,17 @@
 import { Router } from 'express';
+import type { Request, Response } from 'express';
 import { z } from 'zod';
 import { requireAuth } from '../middleware/auth.js';
-import { runDualLLMValidation, type AssignmentContext } from '../services/validation.js';
+import { validateContentForInjection, type AssignmentContext } from '../services/validation.js';
+import { assignmentContextOf } from '../services/assignmentBrief.js';
+import { curriculumConceptsOf } from '../services/curriculum.js';
+import { enqueueValidationJob, getJobProgress, recordCachedValidationJob, resolveCachedValidation, type ValidationJobPayload } from '../services/validationQueue.js';
+import { computeValidationCacheKey } from '../services/validationCache.js';
+import { checkValidationBudget } from '../services/llmUsage.js';
+import type { ValidationJobKind, ValidationJobStatus } from '@prisma/client';
 import { prisma } from '../lib/prisma.js';
 import { preprocessContent, validateContentStructure } from '../utils/contentPreprocessing.js';
+import { hashContent } from '../utils/contentHash.js';
 
 export const validateRouter = Router();
 
@@ -45,7 +53,65 @@ const requestSchema = z.object({
   topicsTaughtSoFar: z.array(z.string()).optional()
 });
 
-// Unified validation endpoint - uses runDualLLMValidation consistently
+// Reject prompt injection up front so callers get a 400 instead of a failed job
+function rejectUnsafeContent(res: Response, content: string): boolean {
+  const contentValidation = validateContentForInjection(content);
+  if (!contentValidation.isValid) {
+    res.status(400).json({
+      error: 'Content validation failed',
+      message: `Content validation failed: ${contentValidation.reason}`,
+      reason: 'Content contains potential prompt injection patterns'
+    });
+    return true;
+  }
+  return false;
+}
+
+// Serve an identical earlier run from the cache (unless force=true), otherwise enqueue a job.
+// Cache hits are free, so a creator over their monthly budget can still get them.
+async function startValidation(req: Request, res: Response, params: {
+  kind: ValidationJobKind;
+  payload: ValidationJobPayload;
+  contentId?: string | undefined;
+  // Hash of the text exactly as the caller sent it, which submission checks against the saved content
+  contentHash: string;
+}) {
+  const force = req.query.force === 'true' || req.body?.force === true;
+  const cacheKey = await computeValidationCacheKey(params.payload.content, params.payload.assignmentContext);
+  const payload = { ...params.payload, cacheKey };
+
+  if (!force) {
+    const cachedResult = await resolveCachedValidation(params.kind, payload, params.contentHash, params.contentId);
+    if (cachedResult) {
+      console.log(`⚡ Serving cached validation ${cacheKey.slice(0, 12)}`);
+      if (params.contentId) {
+        await recordCachedValidationJob({ kind: params.kind, payload, requestedById: req.user!.id, contentId: params.contentId, contentHash: params.contentHash, result: cachedResult });
+      }
+      return res.json({ jobId: null, status: 'COMPLETED', cached: true, result: cachedResult });
+    }
+  }
+
+  const budget = await checkValidationBudget(req.user!.id);
+  if (!budget.allowed) {
+    return res.status(402).json({
+      error: `Monthly validation budget of $${budget.budgetUsd.toFixed(2)} reached ($${budget.spentUsd.toFixed(2)} spent this month)`,
+      budgetUsd: budget.budgetUsd,
+      spentUsd: budget.spentUsd
+    });
+  }
+
+  const job = await enqueueValidationJob({
+    kind: params.kind,
+    payload,
+    requestedById: req.user!.id,
+    contentId: params.contentId,
+    contentHash: params.contentHash
+  });
+
+  res.status(202).json({ jobId: job.id, status: job.status });
+}
+
+// Unified validation endpoint - enqueues a runDualLLMValidation job
 validateRouter.post('/', requireAuth, async (req, res) => {
   const parsed = requestSchema.safeParse(req.body);
   if (!parsed.success) {
@@ -77,7 +143,7 @@ validateRouter.post('/', requireAuth, async (req, res) => {
   if (contentId) {
     try {
       const contentRecord = await prisma.$queryRaw`
-        SELECT ca.topic, ca."topicsTaughtSoFar", ca.guidelines, c."contentType"
+        SELECT ca.topic, ca."topicsTaughtSoFar", ca.guidelines, ca.difficulty, ca."dueDate", ca."topicId", c."contentType"
         FROM "ContentAssignment" ca
         JOIN "Content" c ON ca."contentId" = c.id
         WHERE ca."contentId" = ${contentId}
@@ -85,17 +151,16 @@ validateRouter.post('/', requireAuth, async (req, res) => {
         topic: string;
         topicsTaughtSoFar: string[];
         guidelines: string | null;
-        contentType: string;
+        difficulty: string | null;
+        dueDate: Date | null;
+        topicId: string | null;
+        contentType: 'PRE_READ' | 'ASSIGNMENT' | 'LECTURE_NOTE';
       }>;
 
       if (contentRecord.length > 0) {
         const record = contentRecord[0];
         if (record) {
-          assignmentContext = {
-            topic: record.topic,
-            topicsTaughtSoFar: record.topicsTaughtSoFar,
-            contentType: record.contentType as 'PRE_READ' | 'ASSIGNMENT' | 'LECTURE_NOTE'
-          };
+          assignmentContext = assignmentContextOf(record, record.contentType, await curriculumConceptsOf(record.topicId));
         }
       }
     } catch (error) {
@@ -124,85 +189,35 @@ validateRouter.post('/', requireAuth, async (req, res) => {
     console.log(`Created final fallback assignment context: ${extractedTopic}`);
   }
 
-  const start = Date.now();
-  
+  if (rejectUnsafeContent(res, contentToValidate)) {
+    return;
+  }
+
   try {
-    console.log('Starting unified dual LLM validation');
-    console.log(`Content length: ${contentToValidate.length} characters`);
-    console.log(`Assignment context: ${assignmentContext ? 'Present' : 'Not present'}`);
-    
-    // Use unified dual LLM validation system
-    const dualResult = await runDualLLMValidation(contentToValidate, assignmentContext);
-    const overallScore = Math.round((dualResult.finalScore.relevance + dualResult.finalScore.continuity + dualResult.finalScore.documentation) / 3);
-    
-    res.json({
-      criteria: {
-        relevance: { 
-          score: dualResult.finalScore.relevance, 
-          confidence: 0.95, // High confidence from dual validation
-          feedback: dualResult.finalFeedback.relevance, 
-          issues: [] 
-        },
-        continuity: { 
-          score: dualResult.finalScore.continuity, 
-          confidence: 0.95,
-          feedback: dualResult.finalFeedback.continuity, 
-          issues: [] 
-        },
-        documentation: { 
-          score: dualResult.finalScore.documentation, 
-          confidence: 0.95,
-          feedback: dualResult.finalFeedback.documentation, 
-          issues: [] 
+    // Only the author's own content is moved to VALIDATING
+    const ownContent = contentId
+      ? await prisma.content.findFirst({ where: { id: contentId, authorId: req.user!.id }, select: { id: true } })
+      : null;
+
+    await startValidation(req, res, {
+      kind: 'CONTENT',
+      payload: {
+        content: contentToValidate,
+        assignmentContext,
+        // Include preprocessing information
+        preprocessing: {
+          warnings,
+          metadata,
+          structureValidation
         },
+        ...(contentToValidate !== content && { sourceText: content })
       },
-      overall: overallScore,
-      processingTime: dualResult.processingTime,
-      confidence: 0.95,
-      // Include preprocessing information
-      preprocessing: {
-        warnings,
-        metadata,
-        structureValidation
-      },
-      // Include detailed dual validation results for debugging
-      dualValidationDetails: {
-        round1: dualResult.round1Results,
-        round2: dualResult.round2Results
-      }
+      contentId: ownContent?.id,
+      contentHash: hashContent(content)
     });
   } catch (error) {
-    console.error('Unified dual LLM validation failed:', error);
-    
-    // Check if this is a content validation error (should return 400, not 500)
-    if (error instanceof Error && error.message.includes('Content validation failed')) {
-      return res.status(400).json({ 
-        error: 'Content validation failed', 
-        message: error.message,
-        reason: 'Content contains potential prompt injection patterns'
-      });
-    }
-    
-    // Log the error for monitoring (only for actual API errors)
-    await prisma.auditLog.create({
-      data: {
-        userId: req.user!.id,
-        action: 'LLM_VALIDATION_ERROR',
-        metadata: {
-          error: error instanceof Error ? error.message : String(error),
-          contentLength: content.length,
-          contentType: assignmentContext?.contentType || 'unknown'
-        }
-      }
-    });
-    
-    // Return error response for API failures
-    res.status(500).json({ 
-      error: 'Validation failed', 
-      message: error instanceof Error ? error.message : 'Unknown validation error',
-      contentLength: content.length,
-      contentType: assignmentContext?.contentType || 'unknown'
-    });
+    console.error('Error enqueueing validation job:', error);
+    res.status(500).json({ error: 'Failed to start validation' });
   }
 });
 
@@ -269,23 +284,22 @@ validateRouter.post('/:id', requireAuth, async (req, res) => {
     let assignmentContext: AssignmentContext | undefined;
     try {
       const assignment = await prisma.$queryRaw`
-        SELECT topic, "topicsTaughtSoFar", guidelines 
+        SELECT topic, "topicsTaughtSoFar", guidelines, difficulty, "dueDate", "topicId"
         FROM "ContentAssignment" 
         WHERE "contentId" = ${contentId}
       ` as Array<{
         topic: string;
         topicsTaughtSoFar: string[];
         guidelines: string | null;
+        difficulty: string | null;
+        dueDate: Date | null;
+        topicId: string | null;
       }>;
 
       if (assignment.length > 0) {
         const assignmentData = assignment[0];
         if (assignmentData) {
-          assignmentContext = {
-            topic: assignmentData.topic,
-            topicsTaughtSoFar: assignmentData.topicsTaughtSoFar || [],
-            contentType: content.contentType as 'PRE_READ' | 'ASSIGNMENT' | 'LECTURE_NOTE' || 'LECTURE_NOTE'
-          };
+          assignmentContext = assignmentContextOf(assignmentData, content.contentType, await curriculumConceptsOf(assignmentData.topicId));
           console.log(`Found assignment context for content ${contentId}: ${assignmentData.topic}`);
         }
       } else {
@@ -308,82 +322,16 @@ validateRouter.post('/:id', requireAuth, async (req, res) => {
       console.log(`Created fallback assignment context for older content ${contentId}: ${extractedTopic}`);
     }
 
-    const start = Date.now();
-    
-    console.log(`Starting unified dual LLM validation for content ${contentId}`);
-    console.log(`Content length: ${content.content.length} characters`);
-    console.log(`Assignment context: ${assignmentContext ? 'Present' : 'Not present'}`);
-    
-    // Use unified dual LLM validation system
-    const dualResult = await runDualLLMValidation(content.content, assignmentContext);
-    const processingTime = Date.now() - start;
-
-    // Store validation results in database
-    const validationResults = [];
-    try {
-      // Store Round 2 results (final scores) from both models
-      const round2Results = [];
-      
-      if (dualResult?.round2Results?.openai) {
-        round2Results.push(dualResult.round2Results.openai);
-      }
-      if (dualResult?.round2Results?.gemini) {
-        round2Results.push(dualResult.round2Results.gemini);
-      }
-      
-      console.log(`Storing ${round2Results.length} validation results`);
-      
-      for (const result of round2Results) {
-        if (result && result.scores) {
-          const validationResult = await prisma.validationResult.create({
-            data: {
-              contentId: content.id,
-              llmProvider: result.provider === 'openai' ? 'OPENAI' : result.provider === 'gemini' ? 'ANTHROPIC' : 'LOCAL',
-              modelVersion: result.provider === 'openai' ? 'gpt-4o-mini' : result.provider === 'gemini' ? 'gemini-1.5-flash' : 'stub',
-              criteria: {
-                relevance: { score: result.scores.relevance, feedback: result.feedback.relevance, issues: [] },
-                continuity: { score: result.scores.continuity, feedback: result.feedback.continuity, issues: [] },
-                documentation: { score: result.scores.documentation, feedback: result.feedback.documentation, issues: [] }
-              },
-              overallScore: Math.round((result.scores.relevance + result.scores.continuity + result.scores.documentation) / 3),
-              processingTimeMs: processingTime,
-            },
-          });
-          validationResults.push(validationResult);
-        }
-      }
-    } catch (dbError) {
-      console.error('Error storing validation results:', dbError);
-      // Continue with response even if database storage fails
+    if (rejectUnsafeContent(res, content.content)) {
+      return;
     }
 
-    // Calculate overall score from final scores (maximum from Round 2)
-    let overallScore = 0;
-    if (dualResult?.finalScore) {
-      overallScore = Math.round((dualResult.finalScore.relevance + dualResult.finalScore.continuity + dualResult.finalScore.documentation) / 3);
-    } else {
-      console.warn('Warning: dualResult.finalScore is missing, using fallback score calculation');
-      // Fallback: calculate from stored validation results
-      if (validationResults.length > 0) {
-        const avgScore = validationResults.reduce((sum, result) => sum + result.overallScore, 0) / validationResults.length;
-        overallScore = Math.round(avgScore);
-      }
-    }
-    
-    console.log(`Final overall score: ${overallScore}`);
-    
-    res.json({
-      validationResults,
-      overallScore,
-      confidence: 95, // High confidence from dual validation
-      processingTimeMs: processingTime,
-      // Include detailed dual validation results for debugging
-      dualValidationDetails: dualResult ? {
-        round1: dualResult.round1Results,
-        round2: dualResult.round2Results,
-        finalScore: dualResult.finalScore,
-        finalFeedback: dualResult.finalFeedback
-      } : null
+    // Results are stored against the content when the job completes
+    await startValidation(req, res, {
+      kind: 'REVALIDATE',
+      payload: { content: content.content, assignmentContext },
+      contentId: content.id,
+      contentHash: hashContent(content.content)
     });
   } catch (error) {
     console.error('Error re-validating content:', error);
@@ -426,56 +374,162 @@ validateRouter.post('/assignment/:assignmentId', requireAuth, async (req, res) =
       return res.status(400).json({ error: 'Content is required' });
     }
 
-    const assignmentContext: AssignmentContext = {
-      topic: assignment.topic,
-      topicsTaughtSoFar: assignment.topicsTaughtSoFar,
-      contentType: contentType || assignment.contentType as 'PRE_READ' | 'ASSIGNMENT' | 'LECTURE_NOTE'
-    };
+    const assignmentContext = assignmentContextOf(
+      assignment,
+      contentType || assignment.contentType,
+      await curriculumConceptsOf(assignment.topicId)
+    );
 
-    const start = Date.now();
-    
-    // Use unified dual LLM validation system
-    const dualResult = await runDualLLMValidation(content, assignmentContext);
-    const processingTime = Date.now() - start;
-    
-    res.json({
-      criteria: {
-        relevance: { 
-          score: dualResult.finalScore.relevance, 
-          confidence: 0.95, // High confidence from dual validation
-          feedback: dualResult.finalFeedback.relevance, 
-          issues: [] 
-        },
-        continuity: { 
-          score: dualResult.finalScore.continuity, 
-          confidence: 0.95,
-          feedback: dualResult.finalFeedback.continuity, 
-          issues: [] 
-        },
-        documentation: { 
-          score: dualResult.finalScore.documentation, 
-          confidence: 0.95,
-          feedback: dualResult.finalFeedback.documentation, 
-          issues: [] 
-        },
-      },
-      overall: Math.round((dualResult.finalScore.relevance + dualResult.finalScore.continuity + dualResult.finalScore.documentation) / 3),
-      processingTime: dualResult.processingTime,
-      confidence: 0.95,
-      assignmentContext: {
-        topic: assignmentContext.topic,
-        topicsTaughtSoFar: assignmentContext.topicsTaughtSoFar,
-        hasGuidelines: false,
-        guidelines: null
-      },
-      // Include detailed dual validation results for debugging
-      dualValidationDetails: {
-        round1: dualResult.round1Results,
-        round2: dualResult.round2Results
-      }
+    if (rejectUnsafeContent(res, content)) {
+      return;
+    }
+
+    await startValidation(req, res, {
+      kind: 'ASSIGNMENT',
+      payload: { content, assignmentContext },
+      contentId: assignment.contentId ?? undefined,
+      contentHash: hashContent(content)
     });
   } catch (error) {
     console.error('Error validating assignment content:', error);
     res.status(500).json({ error: 'Failed to validate assignment content' });
   }
-});
\ No newline at end of file
+});
+
+// Poll a validation job - progress moves queued -> round1 -> round2 -> done (or failed)
+validateRouter.get('/jobs/:id', requireAuth, async (req, res) => {
+  try {
+    const jobId = req.params.id;
+    const user = req.user!;
+
+    if (!jobId) {
+      return res.status(400).json({ error: 'Job ID is required' });
+    }
+
+    const job = await prisma.validationJob.findUnique({
+      where: { id: jobId }
+    });
+
+    // Only the requester (or a super admin) can see a job
+    if (!job || (job.requestedById !== user.id && user.role !== 'SUPER_ADMIN')) {
+      return res.status(404).json({ error: 'Validation job not found' });
+    }
+
+    res.json({
+      id: job.id,
+      kind: job.kind,
+      status: job.status,
+      progress: getJobProgress(job.status),
+      contentId: job.contentId,
+      events: job.events,
+      result: job.result,
+      error: job.error,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt
+    });
+  } catch (error) {
+    console.error('Error fetching validation job:', error);
+    res.status(500).json({ error: 'Failed to fetch validation job' });
+  }
+});
+
+const STREAM_POLL_INTERVAL_MS = 500;
+// Comment line sent when nothing else has been, so proxies don't drop a quiet connection
+const STREAM_HEARTBEAT_MS = 15 * 1000;
+// Past this the client goes back to polling GET /jobs/:id rather than holding the connection open
+const STREAM_MAX_DURATION_MS = 10 * 60 * 1000;
+
+// Server-Sent Events for a validation job: a `call` event per finished LLM call (with partial scores),
+// `progress` on each status change, then a final `done` (with the result) or `failed`, or `timeout`
+// when the job outlasts the stream
+validateRouter.get('/jobs/:id/stream', requireAuth, async (req, res) => {
+  const jobId = req.params.id;
+  const user = req.user!;
+
+  if (!jobId) {
+    return res.status(400).json({ error: 'Job ID is required' });
+  }
+
+  try {
+    const job = await prisma.validationJob.findUnique({
+      where: { id: jobId },
+      select: { requestedById: true }
+    });
+
+    // Only the requester (or a super admin) can follow a job
+    if (!job || (job.requestedById !== user.id && user.role !== 'SUPER_ADMIN')) {
+      return res.status(404).json({ error: 'Validation job not found' });
+    }
+  } catch (error) {
+    console.error('Error fetching validation job:', error);
+    return res.status(500).json({ error: 'Failed to fetch validation job' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+
+  let lastWriteAt = Date.now();
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    lastWriteAt = Date.now();
+  };
+
+  let closed = false;
+  req.on('close', () => {
+    closed = true;
+  });
+
+  // The worker may run in another process, so follow the job row rather than in-memory events
+  let sentEvents = 0;
+  let lastStatus: ValidationJobStatus | null = null;
+  const startedAt = Date.now();
+  try {
+    while (!closed) {
+      const current = await prisma.validationJob.findUnique({ where: { id: jobId } });
+      if (!current) {
+        send('failed', { error: 'Validation job not found' });
+        break;
+      }
+
+      const events = Array.isArray(current.events) ? current.events : [];
+      for (const event of events.slice(sentEvents)) {
+        send('call', event);
+      }
+      sentEvents = events.length;
+
+      if (current.status !== lastStatus) {
+        send('progress', { status: current.status, progress: getJobProgress(current.status) });
+        lastStatus = current.status;
+      }
+
+      if (current.status === 'COMPLETED') {
+        send('done', current.result);
+        break;
+      }
+      if (current.status === 'FAILED') {
+        send('failed', { error: current.error });
+        break;
+      }
+
+      if (Date.now() - startedAt >= STREAM_MAX_DURATION_MS) {
+        send('timeout', { status: current.status, progress: getJobProgress(current.status) });
+        break;
+      }
+      if (Date.now() - lastWriteAt >= STREAM_HEARTBEAT_MS) {
+        res.write(':\n\n');
+        lastWriteAt = Date.now();
+      }
+
+      await new Promise(resolve => setTimeout(resolve, STREAM_POLL_INTERVAL_MS));
+    }
+  } catch (error) {
+    console.error('Error streaming validation job:', error);
+    send('failed', { error: 'Failed to stream validation progress' });
+  }
+
+  res.end();
+});
@@ -511,27 +511,31 @@ After reading, you should be able to:
       }
     });
 
-    if (!existing) {
-      await prisma.guidelinesTemplate.create({
-        data: {
-          ...guideline,
-          createdById: superAdmin.id,
-          isActive: true,
-        }
-      });
-      console.log(`Created comprehensive guidelines template: ${guideline.name}`);
-    } else {
-      // Update existing guidelines with comprehensive version
-      await prisma.guidelinesTemplate.update({
-        where: { id: existing.id },
-        data: {
-          guidelines: guideline.guidelines,
-          version: { increment: 1 },
-          updatedAt: new Date(),
-        }
-      });
-      console.log(`Updated existing guidelines template: ${guideline.name}`);
+    if (existing?.guidelines === guideline.guidelines) {
+      console.log(`Comprehensive guidelines already active: ${guideline.name}`);
+      continue;
     }
+
+    // Versions are immutable, so the comprehensive text is added as the next version and made active
+    const lastVersion = await prisma.guidelinesTemplate.findFirst({
+      where: { contentType: guideline.contentType },
+      orderBy: { version: 'desc' }
+    });
+    await prisma.guidelinesTemplate.updateMany({
+      where: { contentType: guideline.contentType, isActive: true },
+      data: { isActive: false }
+    });
+    await prisma.guidelinesTemplate.create({
+      data: {
+        ...guideline,
+        version: (lastVersion?.version ?? 0) + 1,
+        createdById: superAdmin.id,
+        isActive: true,
+      }
+    });
+    console.log(existing
+      ? `Added comprehensive guidelines as a new version: ${guideline.name}`
+      : `Created comprehensive guidelines template: ${guideline.name}`);
   }
 
   console.log('Comprehensive guidelines seeding completed!');
@@ -44,9 +44,14 @@ async function main() {
     });
 
     if (!existing) {
+      const lastVersion = await prisma.guidelinesTemplate.findFirst({
+        where: { contentType: guideline.contentType },
+        orderBy: { version: 'desc' }
+      });
       await prisma.guidelinesTemplate.create({
         data: {
           ...guideline,
+          version: (lastVersion?.version ?? 0) + 1,
           createdById: superAdmin.id,
           isActive: true,
         }
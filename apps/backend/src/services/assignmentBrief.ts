@@ -0,0 +1,219 @@
+import type { ContentType } from '@prisma/client';
+import type { AssignmentContext, ValidationOutput } from './validation.js';
+import type { CurriculumConcepts } from './prerequisiteCheck.js';
+
+export type CoverageVerdict = 'covered' | 'partial' | 'missing';
+
+// What one model said about one of the assignment's sub-topics
+export type SubTopicCoverage = {
+  subTopic: string;
+  verdict: CoverageVerdict;
+  note: string;
+};
+
+// A sub-topic's verdict across the models that answered, or from the keyword check when none assessed it
+export type CombinedSubTopicCoverage = {
+  subTopic: string;
+  verdict: CoverageVerdict;
+  source: 'models' | 'keywords';
+  modelsAssessed: number;
+  notes: string[];
+};
+
+const MAX_SUB_TOPICS = 20;
+const MAX_SUB_TOPIC_LENGTH = 200;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+•]|\d+[.)]|[a-z][.)])\s+(.+)$/i;
+// Ordered from worst to best; a verdict's rank is its index
+const VERDICTS: CoverageVerdict[] = ['missing', 'partial', 'covered'];
+const VERDICT_RANK: Record<CoverageVerdict, number> = { missing: 0, partial: 1, covered: 2 };
+// Words that say nothing about what a sub-topic is about
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'into', 'is', 'it', 'its', 'of', 'on',
+  'or', 'the', 'their', 'to', 'use', 'using', 'what', 'when', 'why', 'with', 'vs', 'versus', 'between', 'about',
+  'basics', 'introduction', 'intro', 'overview', 'understanding', 'explain', 'explaining', 'cover', 'covering',
+  'example', 'examples', 'show', 'include', 'including',
+]);
+
+// The assignment as stored on ContentAssignment, for the routes that validate assignment-linked content
+export type AssignmentBriefSource = {
+  topic: string;
+  topicsTaughtSoFar: string[];
+  guidelines: string | null;
+  difficulty: string | null;
+  dueDate: Date | null;
+};
+
+// Admins write sub-topics as a list or on one line separated by commas or semicolons. List items win
+// when there are any, so free text around the list (audience, style) isn't mistaken for a sub-topic.
+export function parseSubTopics(guidelines: string | null | undefined): string[] {
+  if (!guidelines?.trim()) return [];
+
+  const lines = guidelines.split('\n').map(line => line.trim()).filter(Boolean);
+  const listItems = lines.flatMap(line => LIST_ITEM_PATTERN.exec(line)?.[1] ?? []);
+  const candidates = listItems.length > 0
+    ? listItems
+    : lines.length === 1
+    ? lines[0]!.split(/[;,]/)
+    : lines.filter(line => !line.endsWith(':'));
+
+  const seen = new Set<string>();
+  const subTopics: string[] = [];
+  for (const candidate of candidates) {
+    const subTopic = candidate.trim().replace(/[.;,]$/, '').slice(0, MAX_SUB_TOPIC_LENGTH);
+    const key = subTopic.toLowerCase();
+    if (subTopic.length < 2 || seen.has(key)) continue;
+    seen.add(key);
+    subTopics.push(subTopic);
+  }
+  return subTopics.slice(0, MAX_SUB_TOPICS);
+}
+
+export function assignmentContextOf(
+  assignment: AssignmentBriefSource,
+  contentType: ContentType,
+  curriculumConcepts?: CurriculumConcepts | null
+): AssignmentContext {
+  return {
+    topic: assignment.topic,
+    topicsTaughtSoFar: assignment.topicsTaughtSoFar || [],
+    contentType,
+    difficulty: assignment.difficulty,
+    guidelines: assignment.guidelines,
+    subTopics: parseSubTopics(assignment.guidelines),
+    dueDate: assignment.dueDate?.toISOString() ?? null,
+    ...(curriculumConcepts && { curriculumConcepts }),
+  };
+}
+
+export function hasAssignmentBrief(assignmentContext?: AssignmentContext): boolean {
+  return Boolean(assignmentContext?.guidelines?.trim() || assignmentContext?.subTopics?.length);
+}
+
+// Appended to every prompt for assignment-linked content, so custom templates get the brief too
+export function assignmentBriefOf(assignmentContext: AssignmentContext): string {
+  const details = [
+    `- **Topic**: ${assignmentContext.topic}`,
+    ...(assignmentContext.difficulty ? [`- **Difficulty**: ${assignmentContext.difficulty}`] : []),
+    ...(assignmentContext.dueDate ? [`- **Due**: ${assignmentContext.dueDate.slice(0, 10)}`] : []),
+  ];
+  const subTopics = assignmentContext.subTopics ?? [];
+
+  let brief = `
+
+## ASSIGNMENT BRIEF
+
+The admin who assigned this content wrote the brief below. Judge topic relevance and coverage against it${assignmentContext.difficulty ? ', and pitch your expectations at the stated difficulty' : ''}.
+
+${details.join('\n')}`;
+
+  if (assignmentContext.guidelines?.trim()) {
+    brief += `
+
+Admin guidelines:
+"""
+${assignmentContext.guidelines.trim()}
+"""`;
+  }
+
+  if (subTopics.length > 0) {
+    brief += `
+
+Sub-topics the content must cover:
+${subTopics.map((subTopic, index) => `${index + 1}. ${subTopic}`).join('\n')}
+
+Add a "subTopicCoverage" array to your JSON reply with one entry per sub-topic above, in the same order: {"subTopic": the sub-topic copied exactly, "status": "covered" if the content substantively explains it, "partial" if it is only mentioned or explained incompletely, "missing" if it is not addressed, "note": one sentence on where it is covered or what is missing}.`;
+  }
+
+  return brief;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// Models are asked to copy each sub-topic exactly; an entry that doesn't match any is taken by position
+export function toSubTopicCoverage(
+  reported: Array<{ subTopic: string; status: CoverageVerdict; note?: string | undefined }> | undefined,
+  subTopics: string[]
+): SubTopicCoverage[] | undefined {
+  if (!reported || subTopics.length === 0) return undefined;
+
+  return subTopics.flatMap((subTopic, index) => {
+    const entry = reported.find(item => normalize(item.subTopic) === normalize(subTopic)) ?? reported[index];
+    return entry ? [{ subTopic, verdict: entry.status, note: entry.note ?? '' }] : [];
+  });
+}
+
+export function bestVerdict(verdicts: CoverageVerdict[]): CoverageVerdict {
+  return verdicts.reduce<CoverageVerdict>((best, verdict) => VERDICT_RANK[verdict] > VERDICT_RANK[best] ? verdict : best, 'missing');
+}
+
+// Words worth finding in the content, each with a crude stem so "closures" matches "closure"
+function keywordsOf(subTopic: string): Array<{ word: string; stem: string }> {
+  const words = [...new Set(normalize(subTopic).split(/[^a-z0-9+#]+/))].filter(word => word.length > 2 && !STOP_WORDS.has(word));
+  return words.map(word => {
+    const stem = word.replace(/(?:ing|es|s)$/, '');
+    return { word, stem: stem.length > 2 ? stem : word };
+  });
+}
+
+// Local fallback for when no model assessed a sub-topic: how many of its key terms appear in the content.
+// Crude, so it never says more than the terms being there.
+export function keywordCoverage(content: string, subTopic: string): SubTopicCoverage {
+  const keywords = keywordsOf(subTopic);
+  if (keywords.length === 0) {
+    return { subTopic, verdict: 'missing', note: 'No key terms to check for; needs a manual look' };
+  }
+
+  const text = normalize(content);
+  const missing = keywords
+    .filter(({ stem }) => !new RegExp(`\\b${stem.replace(/[+#]/g, '\\$&')}`).test(text))
+    .map(({ word }) => word);
+  const share = (keywords.length - missing.length) / keywords.length;
+  return {
+    subTopic,
+    verdict: share >= 0.8 ? 'covered' : share >= 0.4 ? 'partial' : 'missing',
+    note: `Key terms found: ${keywords.length - missing.length} of ${keywords.length}${missing.length > 0 ? ` (missing: ${missing.join(', ')})` : ''}`,
+  };
+}
+
+function keywordVerdictOf(content: string, subTopic: string): CombinedSubTopicCoverage {
+  const coverage = keywordCoverage(content, subTopic);
+  return { subTopic, verdict: coverage.verdict, source: 'keywords', modelsAssessed: 0, notes: [coverage.note] };
+}
+
+// Each sub-topic takes the models' average verdict, so one "covered" and one "missing" make "partial".
+// Sub-topics no model assessed (the reply left them out, or every call failed) fall back to the keyword check.
+export function combineSubTopicCoverage(results: ValidationOutput[], subTopics: string[], content: string): CombinedSubTopicCoverage[] {
+  const usable = results.filter(result => !result.error);
+
+  return subTopics.map(subTopic => {
+    const assessments = usable.flatMap(result => result.subTopicCoverage?.filter(item => item.subTopic === subTopic) ?? []);
+    if (assessments.length === 0) {
+      return keywordVerdictOf(content, subTopic);
+    }
+
+    const averageRank = Math.round(assessments.reduce((sum, item) => sum + VERDICT_RANK[item.verdict], 0) / assessments.length);
+    return {
+      subTopic,
+      verdict: VERDICTS[averageRank]!,
+      source: 'models',
+      modelsAssessed: assessments.length,
+      notes: assessments.map(item => item.note).filter(Boolean),
+    };
+  });
+}
+
+// Matrix stored with a submission: the validation's own, or the keyword check when the content was
+// validated before it was linked to its assignment
+export function storedCoverageOf(
+  validationCoverage: CombinedSubTopicCoverage[] | null | undefined,
+  content: string,
+  guidelines: string | null | undefined
+): CombinedSubTopicCoverage[] | null {
+  if (validationCoverage && validationCoverage.length > 0) {
+    return validationCoverage;
+  }
+  const subTopics = parseSubTopics(guidelines);
+  return subTopics.length > 0 ? subTopics.map(subTopic => keywordVerdictOf(content, subTopic)) : null;
+}
@@ -0,0 +1,202 @@
+import type { ContentType, LLMProvider, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../lib/prisma.js';
+import { overallOf } from './validationQueue.js';
+import { round, summarizeScores } from './statistics.js';
+import type { RubricBreakdown } from './rubrics.js';
+
+export type ModelScore = {
+  llmProvider: LLMProvider;
+  modelVersion: string;
+  overallScore: number;
+};
+
+const round2EntrySchema = z.object({
+  llmProvider: z.enum(['OPENAI', 'ANTHROPIC', 'GEMINI', 'LOCAL']),
+  modelVersion: z.string(),
+  scores: z.object({ relevance: z.number(), continuity: z.number(), documentation: z.number() }),
+  rubric: z.object({ overallScore: z.number() }).passthrough().optional(),
+  error: z.string().optional(),
+});
+
+// Per-model overall scores from a run's round 2 results; failed calls only carry placeholder scores
+export function modelScoresOf(round2Results: unknown): ModelScore[] | null {
+  if (!Array.isArray(round2Results)) return null;
+  const scores: ModelScore[] = [];
+  for (const entry of round2Results) {
+    const parsed = round2EntrySchema.safeParse(entry);
+    if (!parsed.success || parsed.data.error) continue;
+    const { llmProvider, modelVersion, scores: criteriaScores, rubric } = parsed.data;
+    scores.push({
+      llmProvider,
+      modelVersion,
+      overallScore: overallOf(criteriaScores, rubric as RubricBreakdown | undefined),
+    });
+  }
+  return scores.length > 0 ? scores : null;
+}
+
+type Decision = 'APPROVE' | 'REJECT';
+
+type ScoredDecision = {
+  decision: Decision;
+  score: number;
+};
+
+type DecisionJob = {
+  completedAt: Date | null;
+  result: Prisma.JsonValue;
+};
+
+// The run the reviewer had in front of them: the latest validation job completed before the decision.
+// Its final score is the one the creator was shown, under whichever aggregation strategy that run used.
+function resultAtDecision(jobs: DecisionJob[], decidedAt: Date) {
+  const before = jobs.filter(job => job.completedAt !== null && job.completedAt <= decidedAt);
+  const latest = before[before.length - 1];
+  const result = latest?.result as { status?: unknown; overall?: unknown; overallScore?: unknown; dualValidationDetails?: { round2?: unknown } } | null | undefined;
+  if (result?.status !== 'completed') return null;
+
+  // Re-validation jobs report their final score as overallScore
+  const score = typeof result.overall === 'number' ? result.overall : result.overallScore;
+  if (typeof score !== 'number') return null;
+
+  return {
+    score,
+    models: modelScoresOf(result.dualValidationDetails?.round2) ?? [],
+  };
+}
+
+function confusionAt(decisions: ScoredDecision[], threshold: number) {
+  const approved = decisions.filter(({ decision }) => decision === 'APPROVE');
+  const rejected = decisions.filter(({ decision }) => decision === 'REJECT');
+  const falseRejections = approved.filter(({ score }) => score < threshold).length;
+  const falseApprovals = rejected.filter(({ score }) => score >= threshold).length;
+  const approvedRecall = approved.length > 0 ? (approved.length - falseRejections) / approved.length : null;
+  const rejectedRecall = rejected.length > 0 ? (rejected.length - falseApprovals) / rejected.length : null;
+  return {
+    threshold,
+    accuracy: decisions.length > 0 ? round((decisions.length - falseRejections - falseApprovals) / decisions.length, 3) : null,
+    // Averages both classes so a mostly-approved history can't hide a useless threshold
+    balancedAccuracy: approvedRecall !== null && rejectedRecall !== null ? round((approvedRecall + rejectedRecall) / 2, 3) : null,
+    falseApprovals,
+    falseRejections,
+  };
+}
+
+// The pass mark that best separates approved from rejected; ties take the middle of the tied marks
+function bestThreshold(decisions: ScoredDecision[]) {
+  const sweep = Array.from({ length: 101 }, (_, threshold) => confusionAt(decisions, threshold));
+  if (sweep[0]!.balancedAccuracy === null) return null;
+
+  const best = Math.max(...sweep.map(point => point.balancedAccuracy!));
+  const tied = sweep.filter(point => point.balancedAccuracy === best);
+  return tied[Math.floor((tied.length - 1) / 2)]!;
+}
+
+// Chance that a random approved item outscores a random rejected one (0.5 is no better than a coin)
+function separation(decisions: ScoredDecision[]): number | null {
+  const approved = decisions.filter(({ decision }) => decision === 'APPROVE').map(({ score }) => score);
+  const rejected = decisions.filter(({ decision }) => decision === 'REJECT').map(({ score }) => score);
+  if (approved.length === 0 || rejected.length === 0) return null;
+
+  let wins = 0;
+  for (const a of approved) {
+    for (const r of rejected) {
+      wins += a > r ? 1 : a === r ? 0.5 : 0;
+    }
+  }
+  return round(wins / (approved.length * rejected.length), 3);
+}
+
+function meanOf(scores: number[]): number | null {
+  return scores.length > 0 ? round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null;
+}
+
+// Relates admin approve/reject decisions to the LLM scores the content had when it was reviewed
+export async function buildCalibrationReport(contentType: ContentType, since?: Date) {
+  const decisionLogs = await prisma.auditLog.findMany({
+    where: {
+      action: { in: ['CONTENT_APPROVED', 'CONTENT_REJECTED'] },
+      ...(since && { createdAt: { gte: since } }),
+    },
+    select: { action: true, metadata: true, createdAt: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const contentIds = [...new Set(decisionLogs
+    .map(log => (log.metadata as { contentId?: unknown } | null)?.contentId)
+    .filter((id): id is string => typeof id === 'string'))];
+
+  const jobs = await prisma.validationJob.findMany({
+    where: {
+      contentId: { in: contentIds },
+      contentRef: { contentType },
+      kind: { in: ['CONTENT', 'ASSIGNMENT', 'REVALIDATE'] },
+      status: 'COMPLETED',
+    },
+    select: { contentId: true, completedAt: true, result: true },
+    orderBy: { completedAt: 'asc' },
+  });
+  const jobsByContent = new Map<string, DecisionJob[]>();
+  for (const job of jobs) {
+    jobsByContent.set(job.contentId!, [...(jobsByContent.get(job.contentId!) ?? []), job]);
+  }
+
+  const combined: ScoredDecision[] = [];
+  const byModel = new Map<string, { llmProvider: LLMProvider; modelVersion: string; decisions: ScoredDecision[] }>();
+  let unscored = 0;
+
+  for (const log of decisionLogs) {
+    const contentId = (log.metadata as { contentId?: unknown } | null)?.contentId;
+    const contentJobs = typeof contentId === 'string' ? jobsByContent.get(contentId) : undefined;
+    if (!contentJobs) continue; // Another content type, deleted content, or never validated on the server
+
+    const decision: Decision = log.action === 'CONTENT_APPROVED' ? 'APPROVE' : 'REJECT';
+    const atDecision = resultAtDecision(contentJobs, log.createdAt);
+    if (!atDecision) {
+      unscored++;
+      continue;
+    }
+
+    combined.push({ decision, score: atDecision.score });
+    for (const model of atDecision.models) {
+      const key = `${model.llmProvider}:${model.modelVersion}`;
+      const entry = byModel.get(key) ?? { llmProvider: model.llmProvider, modelVersion: model.modelVersion, decisions: [] };
+      entry.decisions.push({ decision, score: model.overallScore });
+      byModel.set(key, entry);
+    }
+  }
+
+  const approvedScores = combined.filter(({ decision }) => decision === 'APPROVE').map(({ score }) => score);
+  const rejectedScores = combined.filter(({ decision }) => decision === 'REJECT').map(({ score }) => score);
+  const recommended = bestThreshold(combined);
+
+  const models = [...byModel.values()].map(({ llmProvider, modelVersion, decisions }) => {
+    const ownBest = bestThreshold(decisions);
+    return {
+      llmProvider,
+      modelVersion,
+      decisions: decisions.length,
+      meanApproved: meanOf(decisions.filter(({ decision }) => decision === 'APPROVE').map(({ score }) => score)),
+      meanRejected: meanOf(decisions.filter(({ decision }) => decision === 'REJECT').map(({ score }) => score)),
+      separation: separation(decisions),
+      // Agreement with reviewers if this model alone were held to the recommended pass mark
+      agreementAtRecommended: recommended ? confusionAt(decisions, recommended.threshold).accuracy : null,
+      bestThreshold: ownBest?.threshold ?? null,
+      agreementAtBest: ownBest?.accuracy ?? null,
+    };
+  }).sort((a, b) => b.decisions - a.decisions);
+
+  return {
+    contentType,
+    decisions: combined.length + unscored,
+    unscored,
+    approved: { count: approvedScores.length, scores: summarizeScores(approvedScores) },
+    rejected: { count: rejectedScores.length, scores: summarizeScores(rejectedScores) },
+    separation: separation(combined),
+    recommendedThreshold: recommended,
+    // Coarse sweep for charting how each pass mark would have fared
+    thresholdCurve: Array.from({ length: 21 }, (_, step) => confusionAt(combined, step * 5)),
+    models,
+  };
+}
@@ -0,0 +1,142 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import type { CurriculumConcepts } from './prerequisiteCheck.js';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+const outlineInclude = {
+  modules: {
+    orderBy: { position: 'asc' },
+    include: {
+      topics: {
+        orderBy: { position: 'asc' },
+        include: { _count: { select: { assignments: true } } }
+      }
+    }
+  }
+} as const satisfies Prisma.CourseInclude;
+
+export async function getCourseOutline(courseId: string, db: Db = prisma) {
+  return db.course.findUnique({ where: { id: courseId }, include: outlineInclude });
+}
+
+export async function listCourseOutlines() {
+  return prisma.course.findMany({ include: outlineInclude, orderBy: { name: 'asc' } });
+}
+
+// Every topic of the course in teaching order: module by module, then topic by topic
+function topicsInOrder(course: NonNullable<Awaited<ReturnType<typeof getCourseOutline>>>) {
+  return course.modules.flatMap(module => module.topics);
+}
+
+// The topic's course in teaching order, and where the topic sits in it
+async function topicInCourse(topicId: string, db: Db) {
+  const topic = await db.topic.findUnique({
+    where: { id: topicId },
+    select: { module: { select: { courseId: true } } }
+  });
+  const course = topic && await getCourseOutline(topic.module.courseId, db);
+  if (!course) return null;
+
+  const ordered = topicsInOrder(course);
+  return { ordered, index: ordered.findIndex(item => item.id === topicId) };
+}
+
+// A topic's name and the names of the topics taught before it in its course
+export async function topicsTaughtBefore(topicId: string, db: Db = prisma) {
+  const found = await topicInCourse(topicId, db);
+  if (!found) return null;
+
+  const { ordered, index } = found;
+  return {
+    topic: ordered[index]!.name,
+    topicsTaughtSoFar: ordered.slice(0, index).map(item => item.name),
+  };
+}
+
+// Concepts introduced up to and including the topic, and those introduced after it, for the prerequisite check
+export async function curriculumConceptsOf(topicId: string | null, db: Db = prisma): Promise<CurriculumConcepts | null> {
+  const found = topicId ? await topicInCourse(topicId, db) : null;
+  if (!found) return null;
+
+  const { ordered, index } = found;
+  return {
+    taught: ordered.slice(0, index + 1).flatMap(item => item.concepts),
+    upcoming: ordered.slice(index + 1).flatMap(item => item.concepts.map(concept => ({ concept, topic: item.name }))),
+  };
+}
+
+// Next free position at the end of a list ordered by position
+export function nextPosition(last: { position: number } | null): number {
+  return last ? last.position + 1 : 0;
+}
+
+// Re-derive topic and "taught so far" on the course's open assignments after its curriculum changes.
+// Completed assignments keep the lists their content was validated against.
+export async function syncCourseAssignments(courseId: string, db: Db = prisma): Promise<number> {
+  const course = await getCourseOutline(courseId, db);
+  if (!course) return 0;
+
+  const ordered = topicsInOrder(course);
+  let updated = 0;
+  for (const [index, topic] of ordered.entries()) {
+    if (topic._count.assignments === 0) continue;
+    const { count } = await db.contentAssignment.updateMany({
+      where: { topicId: topic.id, status: { not: 'COMPLETED' } },
+      data: { topic: topic.name, topicsTaughtSoFar: ordered.slice(0, index).map(item => item.name) }
+    });
+    updated += count;
+  }
+  return updated;
+}
+
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Moves assignments created before the curriculum existed onto it: each unlinked assignment is linked to
+// the topic with the same name, ignoring case and spacing. Names that match topics in more than one
+// place are left for an admin to link by hand.
+export async function linkAssignmentsByTopicName() {
+  const [assignments, topics] = await Promise.all([
+    prisma.contentAssignment.findMany({ where: { topicId: null }, select: { id: true, topic: true } }),
+    prisma.topic.findMany({ select: { id: true, name: true, module: { select: { courseId: true } } } }),
+  ]);
+
+  const topicsByName = new Map<string, typeof topics>();
+  for (const topic of topics) {
+    const key = normalizeName(topic.name);
+    topicsByName.set(key, [...(topicsByName.get(key) ?? []), topic]);
+  }
+
+  const assignmentIdsByTopic = new Map<string, string[]>();
+  const unmatched = new Set<string>();
+  const ambiguous = new Set<string>();
+  for (const assignment of assignments) {
+    const matches = topicsByName.get(normalizeName(assignment.topic)) ?? [];
+    if (matches.length === 1) {
+      const topicId = matches[0]!.id;
+      assignmentIdsByTopic.set(topicId, [...(assignmentIdsByTopic.get(topicId) ?? []), assignment.id]);
+    } else {
+      (matches.length === 0 ? unmatched : ambiguous).add(assignment.topic);
+    }
+  }
+
+  const courseIds = new Set(
+    topics.filter(topic => assignmentIdsByTopic.has(topic.id)).map(topic => topic.module.courseId)
+  );
+
+  const linked = await prisma.$transaction(async (tx) => {
+    let count = 0;
+    for (const [topicId, ids] of assignmentIdsByTopic) {
+      const result = await tx.contentAssignment.updateMany({ where: { id: { in: ids } }, data: { topicId } });
+      count += result.count;
+    }
+    for (const courseId of courseIds) {
+      await syncCourseAssignments(courseId, tx);
+    }
+    return count;
+  });
+
+  return { linked, unmatched: [...unmatched], ambiguous: [...ambiguous] };
+}
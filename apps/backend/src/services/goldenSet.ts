@@ -0,0 +1,229 @@
+import type { ContentType, GoldenSetItem, GoldenVerdict, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import type { DualValidationOptions, LLMConfig } from './validation.js';
+import { runDocumentValidation } from './sectionValidation.js';
+import { recordValidationUsage } from './llmUsage.js';
+import { overallOf } from './validationQueue.js';
+
+// What a golden-set run tries; anything left out uses the production configuration
+export type GoldenSetCandidate = {
+  // Only items of this content type are run; required when promptTemplateId is set
+  contentType?: ContentType | undefined;
+  // A saved prompt version to try in place of the active one
+  promptTemplateId?: string | undefined;
+  llmConfigs?: LLMConfig[] | undefined;
+  // Overall score at or above which a configuration is taken to approve the item
+  approveThreshold: number;
+};
+
+type GoldenOutcome = {
+  // Null when no model produced a usable assessment
+  score: number | null;
+  inBand: boolean;
+  verdict: GoldenVerdict | null;
+  flaggedForReview: boolean;
+  error?: string;
+};
+
+// PASS: both in band; DRIFTED: production in band, candidate not; RECOVERED: the reverse;
+// OUT_OF_BAND: neither; ERROR: the candidate produced no score
+export type GoldenItemStatus = 'PASS' | 'DRIFTED' | 'RECOVERED' | 'OUT_OF_BAND' | 'ERROR';
+
+export type GoldenItemResult = {
+  itemId: string;
+  title: string;
+  contentType: ContentType;
+  expectedMinScore: number;
+  expectedMaxScore: number;
+  expectedVerdict: GoldenVerdict | null;
+  production: GoldenOutcome;
+  candidate: GoldenOutcome;
+  // Candidate minus production score
+  delta: number | null;
+  status: GoldenItemStatus;
+};
+
+async function scoreItem(
+  item: GoldenSetItem,
+  options: DualValidationOptions,
+  approveThreshold: number,
+  requestedById: string
+): Promise<GoldenOutcome> {
+  try {
+    const dualResult = await runDocumentValidation(item.content, {
+      topic: item.topic,
+      topicsTaughtSoFar: item.topicsTaughtSoFar,
+      contentType: item.contentType,
+      difficulty: item.difficulty,
+    }, undefined, options);
+
+    if (!options.useStubProvider) {
+      await recordValidationUsage({ dualResult, requestedById, contentType: item.contentType });
+    }
+
+    if (dualResult.status === 'incomplete') {
+      return { score: null, inBand: false, verdict: null, flaggedForReview: false, error: dualResult.reason };
+    }
+
+    const score = overallOf(dualResult.finalScore, dualResult.rubric);
+    return {
+      score,
+      inBand: score >= item.expectedMinScore && score <= item.expectedMaxScore,
+      verdict: score >= approveThreshold ? 'APPROVE' : 'REJECT',
+      flaggedForReview: dualResult.aggregation.flaggedForReview,
+    };
+  } catch (error) {
+    return {
+      score: null,
+      inBand: false,
+      verdict: null,
+      flaggedForReview: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+function itemStatus(production: GoldenOutcome, candidate: GoldenOutcome): GoldenItemStatus {
+  if (candidate.score === null) return 'ERROR';
+  if (candidate.inBand) return production.inBand ? 'PASS' : 'RECOVERED';
+  return production.inBand ? 'DRIFTED' : 'OUT_OF_BAND';
+}
+
+function summarizeSide(results: GoldenItemResult[], side: 'production' | 'candidate') {
+  const outcomes = results.map(result => ({ outcome: result[side], expectedVerdict: result.expectedVerdict }));
+  const scored = outcomes.filter(({ outcome }) => outcome.score !== null);
+  const withVerdict = scored.filter(({ expectedVerdict }) => expectedVerdict !== null);
+  return {
+    inBand: outcomes.filter(({ outcome }) => outcome.inBand).length,
+    errors: outcomes.length - scored.length,
+    flagged: outcomes.filter(({ outcome }) => outcome.flaggedForReview).length,
+    meanScore: scored.length > 0
+      ? Math.round(scored.reduce((sum, { outcome }) => sum + outcome.score!, 0) / scored.length * 10) / 10
+      : null,
+    verdictsChecked: withVerdict.length,
+    verdictMatches: withVerdict.filter(({ outcome, expectedVerdict }) => outcome.verdict === expectedVerdict).length,
+  };
+}
+
+export function summarizeGoldenSetRun(results: GoldenItemResult[]) {
+  const deltas = results.map(result => result.delta).filter((delta): delta is number => delta !== null);
+  const countStatus = (status: GoldenItemStatus) => results.filter(result => result.status === status).length;
+  return {
+    items: results.length,
+    pass: countStatus('PASS'),
+    drifted: countStatus('DRIFTED'),
+    recovered: countStatus('RECOVERED'),
+    outOfBand: countStatus('OUT_OF_BAND'),
+    errors: countStatus('ERROR'),
+    meanAbsDelta: deltas.length > 0
+      ? Math.round(deltas.reduce((sum, delta) => sum + Math.abs(delta), 0) / deltas.length * 10) / 10
+      : null,
+    production: summarizeSide(results, 'production'),
+    candidate: summarizeSide(results, 'candidate'),
+  };
+}
+
+// Appended in SQL so the run's progress can be read while it is still going
+async function appendRunResult(runId: string, result: GoldenItemResult) {
+  await prisma.$executeRaw`
+    UPDATE "GoldenSetRun"
+    SET results = results || ${JSON.stringify([result])}::jsonb
+    WHERE id = ${runId}
+  `;
+}
+
+// Validate every item with production and with the candidate, one item at a time to keep provider load low
+async function executeGoldenSetRun(runId: string, items: GoldenSetItem[], candidate: GoldenSetCandidate, useStubProvider: boolean, requestedById: string) {
+  try {
+    const candidatePrompt = candidate.promptTemplateId
+      ? await prisma.promptTemplate.findUniqueOrThrow({ where: { id: candidate.promptTemplateId }, select: { prompt: true } })
+      : null;
+    const candidateOptions: DualValidationOptions = {
+      promptTemplate: candidatePrompt?.prompt,
+      llmConfigs: candidate.llmConfigs,
+      useStubProvider,
+    };
+
+    const results: GoldenItemResult[] = [];
+    for (const item of items) {
+      const [production, candidateOutcome] = await Promise.all([
+        scoreItem(item, { useStubProvider }, candidate.approveThreshold, requestedById),
+        scoreItem(item, candidateOptions, candidate.approveThreshold, requestedById),
+      ]);
+
+      const result: GoldenItemResult = {
+        itemId: item.id,
+        title: item.title,
+        contentType: item.contentType,
+        expectedMinScore: item.expectedMinScore,
+        expectedMaxScore: item.expectedMaxScore,
+        expectedVerdict: item.expectedVerdict,
+        production,
+        candidate: candidateOutcome,
+        delta: production.score !== null && candidateOutcome.score !== null ? candidateOutcome.score - production.score : null,
+        status: itemStatus(production, candidateOutcome),
+      };
+      results.push(result);
+      await appendRunResult(runId, result);
+    }
+
+    await prisma.goldenSetRun.update({
+      where: { id: runId },
+      data: {
+        status: 'COMPLETED',
+        summary: summarizeGoldenSetRun(results) as Prisma.InputJsonValue,
+        completedAt: new Date(),
+      },
+    });
+    console.log(`🏅 Golden-set run ${runId} completed (${results.length} items)`);
+  } catch (error) {
+    console.error(`❌ Golden-set run ${runId} failed:`, error);
+    await prisma.goldenSetRun.update({
+      where: { id: runId },
+      data: { status: 'FAILED', error: error instanceof Error ? error.message : String(error), completedAt: new Date() },
+    }).catch(dbError => console.error('Error recording golden-set run failure:', dbError));
+  }
+}
+
+// Create the run and work through it in the background; poll the run row for progress
+export async function startGoldenSetRun(params: {
+  name?: string | undefined;
+  candidate: GoldenSetCandidate;
+  useStubProvider: boolean;
+  requestedById: string;
+}) {
+  const { name, candidate, useStubProvider, requestedById } = params;
+
+  const items = await prisma.goldenSetItem.findMany({
+    where: { isActive: true, ...(candidate.contentType && { contentType: candidate.contentType }) },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const run = await prisma.goldenSetRun.create({
+    data: {
+      name: name ?? null,
+      useStubProvider,
+      candidate: candidate as Prisma.InputJsonValue,
+      itemCount: items.length,
+      requestedById,
+    },
+  });
+
+  void executeGoldenSetRun(run.id, items, candidate, useStubProvider, requestedById);
+  return run;
+}
+
+// Runs execute in-process, so any still marked RUNNING at startup were cut off by a restart
+export async function failInterruptedGoldenSetRuns() {
+  try {
+    const { count } = await prisma.goldenSetRun.updateMany({
+      where: { status: 'RUNNING' },
+      data: { status: 'FAILED', error: 'Interrupted by a server restart', completedAt: new Date() },
+    });
+    if (count > 0) {
+      console.log(`⚠️ Marked ${count} interrupted golden-set runs as failed`);
+    }
+  } catch (error) {
+    console.error('Error marking interrupted golden-set runs:', error);
+  }
+}
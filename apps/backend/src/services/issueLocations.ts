@@ -0,0 +1,74 @@
+import type { RubricDefinition } from './rubrics.js';
+import type { CriteriaScores } from './validation.js';
+
+export type IssueSeverity = 'critical' | 'important' | 'minor';
+
+// A problem a model pointed out by quoting the passage it is about
+export type ReportedIssue = {
+  criterion: keyof CriteriaScores;
+  quote: string;
+  message: string;
+  severity: IssueSeverity;
+};
+
+// A reported issue found in the submitted text; start/end are character offsets into it
+export type LocatedIssue = ReportedIssue & {
+  start: number;
+  end: number;
+};
+
+const SUMMARY_CRITERIA = ['relevance', 'continuity', 'documentation'] as const;
+const SEVERITY_RANK: Record<IssueSeverity, number> = { critical: 0, important: 1, minor: 2 };
+// Shorter quotes match too many places to be worth highlighting
+const MIN_QUOTE_LENGTH = 3;
+
+// Models name the criterion as their prompt does: a summary criterion or a rubric key
+export function toReportedIssues(
+  issues: Array<{ criterion?: string | undefined; quote: string; message: string; severity: IssueSeverity }> | undefined,
+  rubric?: RubricDefinition
+): ReportedIssue[] {
+  return (issues ?? []).map(issue => {
+    const rubricCriterion = issue.criterion ? rubric?.criteria[issue.criterion] : undefined;
+    const criterion = SUMMARY_CRITERIA.find(summary => summary === issue.criterion)
+      ?? rubricCriterion?.summary
+      ?? 'documentation';
+    return { criterion, quote: issue.quote.trim(), message: issue.message, severity: issue.severity };
+  });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Where the quote appears in the text: verbatim first, then ignoring whitespace and case differences,
+// since the model saw the preprocessed text and may have reflowed or recased what it copied
+function findQuote(text: string, quote: string): { start: number; end: number } | null {
+  const exact = text.indexOf(quote);
+  if (exact !== -1) {
+    return { start: exact, end: exact + quote.length };
+  }
+
+  const pattern = quote.split(/\s+/).filter(Boolean).map(escapeRegExp).join('\\s+');
+  const match = new RegExp(pattern).exec(text) ?? new RegExp(pattern, 'i').exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+}
+
+// Map quoted issues to offsets in the text as submitted. Quotes that can't be found (paraphrased, or
+// altered by sanitizing) are dropped; when several models flag the same span the most severe report is kept.
+export function locateIssues(text: string, issues: ReportedIssue[]): LocatedIssue[] {
+  const bySpan = new Map<string, LocatedIssue>();
+
+  for (const issue of issues) {
+    if (issue.quote.length < MIN_QUOTE_LENGTH) continue;
+    const span = findQuote(text, issue.quote);
+    if (!span) continue;
+
+    const key = `${span.start}:${span.end}`;
+    const existing = bySpan.get(key);
+    if (!existing || SEVERITY_RANK[issue.severity] < SEVERITY_RANK[existing.severity]) {
+      bySpan.set(key, { ...issue, quote: text.slice(span.start, span.end), ...span });
+    }
+  }
+
+  return [...bySpan.values()].sort((a, b) => a.start - b.start || a.end - b.end);
+}
@@ -0,0 +1,140 @@
+import type { ContentType } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import type { DualValidationOutput, TokenUsage, ValidationOutput, ValidationStage } from './validation.js';
+
+export type LLMPriceEntry = {
+  inputPerMillionUsd: number;
+  outputPerMillionUsd: number;
+};
+
+// Published list prices for the models we ship with; a super admin's LLMPrice row overrides them
+export const DEFAULT_LLM_PRICES: Record<string, LLMPriceEntry> = {
+  'gpt-4o-mini': { inputPerMillionUsd: 0.15, outputPerMillionUsd: 0.6 },
+  'gpt-4o': { inputPerMillionUsd: 2.5, outputPerMillionUsd: 10 },
+  'gemini-2.5-flash-lite': { inputPerMillionUsd: 0.1, outputPerMillionUsd: 0.4 },
+  'gemini-2.5-flash': { inputPerMillionUsd: 0.3, outputPerMillionUsd: 2.5 },
+};
+
+export async function getPriceTable(): Promise<Record<string, LLMPriceEntry>> {
+  const table = { ...DEFAULT_LLM_PRICES };
+  try {
+    const prices = await prisma.lLMPrice.findMany();
+    for (const price of prices) {
+      table[price.modelName] = {
+        inputPerMillionUsd: price.inputPerMillionUsd,
+        outputPerMillionUsd: price.outputPerMillionUsd,
+      };
+    }
+  } catch (error) {
+    console.error('Error fetching LLM prices:', error);
+  }
+  return table;
+}
+
+export function costOf(usage: TokenUsage, price: LLMPriceEntry | undefined): number {
+  if (!price) return 0;
+  return (usage.promptTokens * price.inputPerMillionUsd + usage.completionTokens * price.outputPerMillionUsd) / 1_000_000;
+}
+
+// Start of the current calendar month (UTC), when monthly budgets reset
+export function startOfMonth(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+// Spend is charged to the content's author, or to the requester when they are a creator validating a draft
+async function resolveCreatorId(requestedById: string, contentId?: string | null): Promise<string | null> {
+  if (contentId) {
+    const content = await prisma.content.findUnique({ where: { id: contentId }, select: { authorId: true } });
+    if (content) return content.authorId;
+  }
+  const requester = await prisma.user.findUnique({ where: { id: requestedById }, select: { role: true } });
+  return requester?.role === 'CREATOR' ? requestedById : null;
+}
+
+// Store one LLMUsage row per provider call of a validation run
+export async function recordValidationUsage(params: {
+  dualResult: DualValidationOutput;
+  requestedById: string;
+  jobId?: string | undefined;
+  contentId?: string | null | undefined;
+  contentType?: ContentType | undefined;
+}) {
+  const { dualResult, requestedById, jobId, contentId, contentType } = params;
+
+  // With a single model (or the fallback path) both rounds hold the same result objects
+  const calls: Array<{ stage: ValidationStage; result: ValidationOutput }> = [];
+  const seen = new Set<ValidationOutput>();
+  for (const [stage, results] of [['round1', dualResult.round1Results], ['round2', dualResult.round2Results]] as const) {
+    for (const result of results) {
+      if (seen.has(result)) continue;
+      seen.add(result);
+      calls.push({ stage, result });
+    }
+  }
+
+  const billed = calls.filter((call): call is { stage: ValidationStage; result: ValidationOutput & { usage: TokenUsage } } =>
+    call.result.usage !== undefined
+  );
+  if (billed.length === 0) return;
+
+  try {
+    const [prices, creatorId] = await Promise.all([
+      getPriceTable(),
+      resolveCreatorId(requestedById, contentId),
+    ]);
+
+    await prisma.lLMUsage.createMany({
+      data: billed.map(({ stage, result }) => {
+        const modelName = result.modelVersion ?? result.provider;
+        const price = prices[modelName];
+        if (!price) {
+          console.warn(`💸 No price configured for ${modelName}, recording its usage at $0`);
+        }
+        return {
+          provider: result.llmProvider ?? 'LOCAL',
+          modelName,
+          stage,
+          promptTokens: result.usage.promptTokens,
+          completionTokens: result.usage.completionTokens,
+          costUsd: costOf(result.usage, price),
+          contentType: contentType ?? null,
+          jobId: jobId ?? null,
+          contentId: contentId ?? null,
+          requestedById,
+          creatorId,
+        };
+      }),
+    });
+  } catch (error) {
+    // Accounting must never fail the validation itself
+    console.error('Error recording LLM usage:', error);
+  }
+}
+
+export async function getMonthlySpend(creatorId: string): Promise<number> {
+  const spend = await prisma.lLMUsage.aggregate({
+    where: { creatorId, createdAt: { gte: startOfMonth() } },
+    _sum: { costUsd: true },
+  });
+  return spend._sum.costUsd ?? 0;
+}
+
+export type BudgetCheck =
+  | { allowed: true }
+  | { allowed: false; budgetUsd: number; spentUsd: number };
+
+// Creators with a monthly budget can't start new runs once this month's spend reaches it
+export async function checkValidationBudget(userId: string): Promise<BudgetCheck> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true, monthlyValidationBudgetUsd: true },
+  });
+  if (!user || user.role !== 'CREATOR' || user.monthlyValidationBudgetUsd === null) {
+    return { allowed: true };
+  }
+
+  const spentUsd = await getMonthlySpend(userId);
+  return spentUsd >= user.monthlyValidationBudgetUsd
+    ? { allowed: false, budgetUsd: user.monthlyValidationBudgetUsd, spentUsd }
+    : { allowed: true };
+}
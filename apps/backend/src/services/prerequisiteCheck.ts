@@ -0,0 +1,143 @@
+import type { ReportedIssue } from './issueLocations.js';
+
+// The curriculum's concepts as seen from an assignment's topic
+export type CurriculumConcepts = {
+  // Introduced by this topic or one taught before it
+  taught: string[];
+  // Introduced by a topic later in the course, with that topic's name
+  upcoming: Array<{ concept: string; topic: string }>;
+};
+
+// A concept the content uses before the course has introduced it
+export type PrerequisiteWarning = {
+  concept: string;
+  introducedIn: string;
+  occurrences: number;
+  // The first use, as written in the content
+  quote: string;
+};
+
+export type PrerequisiteCheck = {
+  warnings: PrerequisiteWarning[];
+  // Technical terms the curriculum doesn't attach to any topic, left for the models to judge
+  untrackedTerms: string[];
+};
+
+const MAX_UNTRACKED_TERMS = 15;
+const MAX_TERM_LENGTH = 40;
+// Called like functions in code but say nothing about what has been taught
+const CODE_KEYWORDS = new Set([
+  'if', 'for', 'while', 'switch', 'catch', 'return', 'function', 'typeof', 'print', 'console', 'log', 'main',
+  'elif', 'def', 'super', 'require', 'import', 'sizeof', 'with', 'not', 'and', 'or',
+]);
+
+function normalizeConcept(concept: string): string {
+  return concept.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Matches the concept as a whole term, in any case, with an optional plural, across line breaks
+function conceptPattern(concept: string): RegExp {
+  const words = concept.trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+  return new RegExp(`(?<![\\w$])${words}(?:e?s)?(?![\\w$])`, 'gi');
+}
+
+// Terms the content presents as technical: inline code and the functions its code blocks call
+export function extractTechnicalTerms(content: string): string[] {
+  const terms = new Map<string, string>();
+  const add = (term: string) => {
+    const trimmed = term.trim();
+    const key = normalizeConcept(trimmed);
+    if (trimmed.length < 2 || trimmed.length > MAX_TERM_LENGTH || CODE_KEYWORDS.has(key) || terms.has(key)) return;
+    terms.set(key, trimmed);
+  };
+
+  const withoutBlocks = content.replace(/```[^\n]*\n([\s\S]*?)```/g, (_block, code: string) => {
+    for (const match of code.matchAll(/([A-Za-z_$][\w$]*)\s*\(/g)) {
+      add(match[1]!);
+    }
+    return '';
+  });
+  for (const match of withoutBlocks.matchAll(/`([^`\n]+)`/g)) {
+    // Whole expressions aren't terms; a call like `map()` is
+    const term = match[1]!.replace(/\(\)$/, '');
+    if (term.split(/\s+/).length <= 3) add(term);
+  }
+  return [...terms.values()];
+}
+
+// Concepts attached to later topics that the content already uses. A concept attached to this topic or an
+// earlier one counts as taught even if a later topic lists it too.
+export function checkPrerequisites(content: string, concepts: CurriculumConcepts): PrerequisiteCheck {
+  const taught = new Set(concepts.taught.map(normalizeConcept));
+  const reported = new Set<string>();
+  const warnings: PrerequisiteWarning[] = [];
+
+  for (const { concept, topic } of concepts.upcoming) {
+    const key = normalizeConcept(concept);
+    if (!key || taught.has(key) || reported.has(key)) continue;
+    const matches = [...content.matchAll(conceptPattern(concept))];
+    if (matches.length === 0) continue;
+    reported.add(key);
+    warnings.push({ concept: concept.trim(), introducedIn: topic, occurrences: matches.length, quote: matches[0]![0] });
+  }
+
+  const known = [...taught, ...concepts.upcoming.map(item => normalizeConcept(item.concept))];
+  const untrackedTerms = extractTechnicalTerms(content)
+    .filter(term => !known.some(concept => conceptPattern(concept).test(term)))
+    .slice(0, MAX_UNTRACKED_TERMS);
+
+  return { warnings, untrackedTerms };
+}
+
+export function hasCurriculumConcepts(concepts?: CurriculumConcepts | null): concepts is CurriculumConcepts {
+  return Boolean(concepts && (concepts.taught.length > 0 || concepts.upcoming.length > 0));
+}
+
+// Appended to the prompt so the continuity score reflects what the curriculum says has been taught
+export function prerequisiteCheckOf(check: PrerequisiteCheck): string {
+  if (check.warnings.length === 0 && check.untrackedTerms.length === 0) return '';
+
+  let block = `
+
+## PREREQUISITE CHECK
+
+The content was checked against the concepts the course curriculum attaches to each topic.`;
+
+  if (check.warnings.length > 0) {
+    block += `
+
+These concepts are used before the course introduces them:
+${check.warnings.map(warning => `- "${warning.concept}" (introduced in "${warning.introducedIn}")`).join('\n')}
+
+Lower the continuity score for each one the content relies on without explaining it, and name them in the continuity feedback. A passing mention that the content explains is fine.`;
+  }
+
+  if (check.untrackedTerms.length > 0) {
+    block += `
+
+These technical terms aren't attached to any topic in the curriculum, so judge yourself whether a learner who has only been taught the topics so far would know them: ${check.untrackedTerms.join(', ')}.`;
+  }
+
+  return block;
+}
+
+// Warnings as continuity issues, so the editor highlights each concept where it is first used
+export function prerequisiteIssuesOf(warnings: PrerequisiteWarning[]): ReportedIssue[] {
+  return warnings.map(warning => ({
+    criterion: 'continuity',
+    quote: warning.quote,
+    message: `"${warning.concept}" is used before it is taught; the course introduces it in "${warning.introducedIn}".`,
+    severity: 'important',
+  }));
+}
+
+// One sentence for the continuity feedback, so the warnings reach creators even when the models missed them
+export function prerequisiteFeedbackOf(warnings: PrerequisiteWarning[]): string {
+  if (warnings.length === 0) return '';
+  const listed = warnings.map(warning => `"${warning.concept}" (taught in "${warning.introducedIn}")`).join(', ');
+  return `Uses concepts not yet taught: ${listed}.`;
+}
@@ -0,0 +1,128 @@
+import { createHash } from 'node:crypto';
+import type { ContentStatus, ContentType } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { round, summarizeScores } from './statistics.js';
+
+export type ExperimentAssignment = {
+  experimentId: string;
+  variantId: string;
+  promptTemplate: { id: string; version: number; prompt: string; updatedAt: Date };
+};
+
+// The running experiment's variant for this content, or null when no experiment covers the content type.
+// The same text always lands in the same variant, so cached results and re-runs stay with one prompt.
+export async function pickExperimentVariant(contentType: ContentType, sanitizedContent: string): Promise<ExperimentAssignment | null> {
+  const experiment = await prisma.promptExperiment.findFirst({
+    where: { contentType, status: 'RUNNING' },
+    include: {
+      variants: {
+        include: {
+          promptTemplate: { select: { id: true, version: true, prompt: true, updatedAt: true } }
+        },
+        orderBy: { id: 'asc' }
+      }
+    },
+    orderBy: { startedAt: 'desc' },
+  });
+  if (!experiment) return null;
+
+  const variants = experiment.variants.filter(variant => variant.weight > 0);
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  if (totalWeight === 0) return null;
+
+  // Map the hash onto [0, totalWeight) and walk the cumulative weights
+  const hash = createHash('sha256').update(`${experiment.id}:${sanitizedContent}`).digest();
+  const point = (hash.readUInt32BE(0) / 0x1_0000_0000) * totalWeight;
+  let cumulative = 0;
+  for (const variant of variants) {
+    cumulative += variant.weight;
+    if (point < cumulative) {
+      return { experimentId: experiment.id, variantId: variant.id, promptTemplate: variant.promptTemplate };
+    }
+  }
+  const last = variants[variants.length - 1]!;
+  return { experimentId: experiment.id, variantId: last.id, promptTemplate: last.promptTemplate };
+}
+
+function countOutcomes(statuses: ContentStatus[]) {
+  const approved = statuses.filter(status => status === 'APPROVED').length;
+  const rejected = statuses.filter(status => status === 'REJECTED').length;
+  const inReview = statuses.filter(status => status === 'REVIEW').length;
+  return {
+    contents: statuses.length,
+    approved,
+    rejected,
+    inReview,
+    // Share of reviewed content the admin approved
+    approvalRate: approved + rejected > 0 ? round(approved / (approved + rejected), 3) : null,
+  };
+}
+
+// Per-variant score distribution, model disagreement and review outcomes of the content validated with it
+export async function buildExperimentReport(experimentId: string) {
+  const experiment = await prisma.promptExperiment.findUnique({
+    where: { id: experimentId },
+    include: {
+      createdBy: { select: { name: true, email: true } },
+      variants: {
+        include: {
+          promptTemplate: { select: { id: true, name: true, version: true } },
+          validationResults: {
+            select: {
+              contentId: true,
+              overallScore: true,
+              maxDisagreement: true,
+              flaggedForReview: true,
+              contentRef: { select: { status: true } },
+            }
+          }
+        },
+        orderBy: { id: 'asc' }
+      }
+    }
+  });
+  if (!experiment) return null;
+
+  const totalWeight = experiment.variants.reduce((sum, variant) => sum + variant.weight, 0);
+
+  const variants = experiment.variants.map(variant => {
+    const results = variant.validationResults;
+    const disagreements = results
+      .map(result => result.maxDisagreement)
+      .filter((value): value is number => value !== null);
+
+    // A content item counts once per variant however many results it has
+    const statusByContent = new Map<string, ContentStatus>();
+    for (const result of results) {
+      statusByContent.set(result.contentId, result.contentRef.status);
+    }
+
+    return {
+      id: variant.id,
+      label: variant.label,
+      weight: variant.weight,
+      trafficShare: totalWeight > 0 ? round(variant.weight / totalWeight, 3) : 0,
+      promptTemplate: variant.promptTemplate,
+      results: results.length,
+      scores: summarizeScores(results.map(result => result.overallScore)),
+      disagreement: {
+        meanMax: disagreements.length > 0 ? round(disagreements.reduce((sum, value) => sum + value, 0) / disagreements.length) : null,
+        flaggedRate: results.length > 0 ? round(results.filter(result => result.flaggedForReview).length / results.length, 3) : null,
+      },
+      outcomes: countOutcomes([...statusByContent.values()]),
+    };
+  });
+
+  return {
+    experiment: {
+      id: experiment.id,
+      name: experiment.name,
+      contentType: experiment.contentType,
+      status: experiment.status,
+      startedAt: experiment.startedAt,
+      endedAt: experiment.endedAt,
+      createdBy: experiment.createdBy,
+    },
+    variants,
+  };
+}
@@ -0,0 +1,356 @@
+import type { ContentType } from '@prisma/client';
+import { rubricTotal, type RubricDefinition } from './rubrics.js';
+
+export type PromptVariableName =
+  | 'TOPIC'
+  | 'TOPICS_TAUGHT_SO_FAR'
+  | 'PREREQUISITES'
+  | 'GUIDELINES'
+  | 'DIFFICULTY'
+  | 'CONTENT_TYPE'
+  | 'RUBRIC'
+  | 'OUTPUT_FORMAT'
+  | 'CONTENT';
+
+export type PromptVariableDefinition = {
+  name: PromptVariableName;
+  description: string;
+  example: string;
+  required: boolean;
+};
+
+// Every variable a prompt template can use; /prompts/variables advertises this list
+export const PROMPT_VARIABLES: PromptVariableDefinition[] = [
+  {
+    name: 'TOPIC',
+    description: 'The main topic/subject of the content',
+    example: 'Introduction to React Hooks',
+    required: true,
+  },
+  {
+    name: 'TOPICS_TAUGHT_SO_FAR',
+    description: 'Comma-separated list of topics taught so far',
+    example: 'JavaScript Fundamentals, ES6 Features, React Basics',
+    required: true,
+  },
+  {
+    name: 'PREREQUISITES',
+    description: 'Same as TOPICS_TAUGHT_SO_FAR (kept for older templates)',
+    example: 'JavaScript Fundamentals, ES6 Features, React Basics',
+    required: false,
+  },
+  {
+    name: 'GUIDELINES',
+    description: 'Active guidelines for the content type',
+    example: 'Each exercise must include a worked example',
+    required: false,
+  },
+  {
+    name: 'DIFFICULTY',
+    description: "The assignment's difficulty (EASY, MEDIUM, HARD), or \"Not specified\"",
+    example: 'MEDIUM',
+    required: false,
+  },
+  {
+    name: 'CONTENT_TYPE',
+    description: 'Content type being validated (Assignment, Lecture Note, Pre-Read)',
+    example: 'Assignment',
+    required: false,
+  },
+  {
+    name: 'RUBRIC',
+    description: "The EVALUATION CRITERIA section, generated from the content type's active rubric",
+    example: '## EVALUATION CRITERIA\n\n### 1. Grammar and Spelling (10 points)\n- Check for grammatical errors...',
+    required: false,
+  },
+  {
+    name: 'OUTPUT_FORMAT',
+    description: 'The REQUIRED OUTPUT FORMAT section, with a scoreBreakdown entry for every criterion of the active rubric',
+    example: '## REQUIRED OUTPUT FORMAT\n\n```json\n{ "scoreBreakdown": { "grammarAndSpelling": { "score": [Score out of 10], ... } } }\n```',
+    required: false,
+  },
+  {
+    name: 'CONTENT',
+    description: 'The actual content to be validated (markdown format)',
+    example: '# React Hooks\n\nReact Hooks are functions that...',
+    required: true,
+  },
+];
+
+export type PromptVariables = Record<PromptVariableName, string>;
+
+// A template that can't be rendered; surfaced to the super admin rather than falling back silently
+export class PromptTemplateError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[]) {
+    super(message);
+    this.name = 'PromptTemplateError';
+    this.issues = issues;
+  }
+}
+
+// {NAME} is a variable; {{NAME}} renders a literal {NAME}. Lowercase or spaced braces (JSON examples) are left alone.
+const PLACEHOLDER_PATTERN = /\{\{([A-Z][A-Z0-9_]*)\}\}|\{([A-Z][A-Z0-9_]*)\}/g;
+
+function isKnownVariable(name: string): name is PromptVariableName {
+  return PROMPT_VARIABLES.some(variable => variable.name === name);
+}
+
+// Problems that would stop a template from rendering or from ever showing the model the content
+export function checkPromptTemplate(template: string): string[] {
+  const issues: string[] = [];
+  const used = new Set<string>();
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (match[2]) used.add(match[2]);
+  }
+
+  const unknown = [...used].filter(name => !isKnownVariable(name));
+  if (unknown.length > 0) {
+    issues.push(`Unknown variable${unknown.length === 1 ? '' : 's'} ${unknown.map(name => `{${name}}`).join(', ')}; use {{NAME}} for literal braces`);
+  }
+  if (!used.has('CONTENT')) {
+    issues.push('Template must include {CONTENT} so the model sees the content being validated');
+  }
+  return issues;
+}
+
+// Whether the template substitutes the variable somewhere (a literal {{NAME}} doesn't count)
+export function templateUsesVariable(template: string, name: PromptVariableName): boolean {
+  return [...template.matchAll(PLACEHOLDER_PATTERN)].some(match => match[2] === name);
+}
+
+// Substitute every variable in one pass, so braces inside substituted values (e.g. code in the content) are never expanded
+export function renderPromptTemplate(template: string, variables: PromptVariables): string {
+  const issues = checkPromptTemplate(template);
+  if (issues.length > 0) {
+    throw new PromptTemplateError(`Prompt template cannot be rendered: ${issues.join('; ')}`, issues);
+  }
+
+  return template.replace(PLACEHOLDER_PATTERN, (_match, escaped: string | undefined, name: string | undefined) =>
+    escaped ? `{${escaped}}` : variables[name as PromptVariableName]
+  );
+}
+
+const CONTENT_NOUNS: Record<ContentType, string> = {
+  PRE_READ: 'pre-read notes',
+  LECTURE_NOTE: 'lecture notes',
+  ASSIGNMENT: 'assignment',
+};
+
+function points(count: number): string {
+  return `${count} point${count === 1 ? '' : 's'}`;
+}
+
+// The rubric as the prompt's EVALUATION CRITERIA section, for {RUBRIC}
+export function rubricSectionOf(rubric: RubricDefinition, topic: string): string {
+  const criteria = Object.values(rubric.criteria);
+  const total = rubricTotal(rubric);
+
+  return `## EVALUATION CRITERIA
+
+Evaluate the ${CONTENT_NOUNS[rubric.contentType]} based on these ${criteria.length} criteria${total === 100 ? '' : ` (${points(total)} in total)`}:
+
+${criteria.map((criterion, index) => `### ${index + 1}. ${criterion.label} (${points(criterion.maxScore)})
+${criterion.description.split('{TOPIC}').join(topic)}`).join('\n\n')}`;
+}
+
+// The JSON reply the rubric is scored from, for {OUTPUT_FORMAT}. There is no overall score to fill in:
+// it is recomputed from the criteria scores.
+export function outputFormatOf(rubric: RubricDefinition): string {
+  const scoreBreakdown = Object.entries(rubric.criteria).map(([key, criterion]) => `    "${key}": {
+      "score": [Score out of ${criterion.maxScore}],
+      "explanation": "[Brief explanation${criterion.explanationHint ? ` with ${criterion.explanationHint}` : ''}]"
+    }`).join(',\n');
+
+  return `## REQUIRED OUTPUT FORMAT
+
+Your final output MUST follow this exact JSON structure:
+
+\`\`\`json
+{
+  "scoreBreakdown": {
+${scoreBreakdown}
+  },
+  "detailedFeedback": {
+    "strengths": ["[List 2-3 key strengths]"],
+    "weaknesses": ["[List 2-3 main issues]"],
+    "suggestion": "[One actionable improvement recommendation]"
+  },
+  "issues": [
+    {
+      "criterion": "[scoreBreakdown key the problem affects]",
+      "quote": "[3-20 words copied exactly from the content]",
+      "message": "[What is wrong with this passage and how to fix it]",
+      "severity": "[critical | important | minor]"
+    }
+  ]
+}
+\`\`\``;
+}
+
+// Appended when a super admin's rubric is active but the template hard-codes its own criteria
+export function rubricOverrideOf(rubric: RubricDefinition, topic: string): string {
+  return `
+
+## SCORING RUBRIC
+
+Score the content against this rubric instead of any evaluation criteria or output format given above.
+
+${rubricSectionOf(rubric, topic)}
+
+${outputFormatOf(rubric)}`;
+}
+
+// Used for a content type until a super admin activates a PromptTemplate for it
+export const BUILT_IN_PROMPT_TEMPLATES: Record<ContentType, string> = {
+  PRE_READ: `# Pre-Read Validation Prompt
+
+You are an expert educational content evaluator specializing in pre-read materials for an ed-tech platform. Analyze the provided pre-read notes and return a strict JSON response with detailed scores and feedback.
+
+## CRITICAL INSTRUCTIONS
+- Return ONLY valid JSON, no additional text or explanations
+- All scores must be integers (no decimals, ranges, or text)
+- If you cannot complete validation, return error JSON format shown below
+- Escape all quotes in feedback strings with \\"
+
+## Pre-Read Context
+- **Required Topic**: {TOPIC}
+- **Topics Taught So Far**: {TOPICS_TAUGHT_SO_FAR}
+- **Specific Guidelines**: {GUIDELINES}
+
+## Input Validation Rules
+If any critical error occurs, return this error format instead:
+\`\`\`json
+{
+  "error": "Error description here",
+  "validation_attempted": false
+}
+\`\`\`
+
+Common errors:
+- Required topic is empty/missing
+- Content is empty, over 15,000 characters, or contains only placeholders
+- Unable to generate valid JSON due to content issues
+
+{RUBRIC}
+
+## SCORING GUIDE
+- **90-100: Exceptional** - Meets all criteria excellently with outstanding engagement and pedagogical design
+- **75-89: Good** - Minor issues in 1-2 areas, generally well-structured and effective
+- **60-74: Satisfactory** - Moderate issues in 2-3 areas, functional but needs improvement
+- **45-59: Needs Improvement** - Significant issues in multiple areas affecting learning effectiveness
+- **Below 45: Major Revision Required** - Fundamental structural or content problems
+
+## ISSUE LOCATIONS
+List up to 10 specific problems in "issues", each tied to the passage it is about:
+- "quote" must be copied character for character from the content so it can be highlighted for the author; do not paraphrase, shorten with ellipses or quote across code blocks
+- Leave out problems with the content as a whole (e.g. a missing section); cover those in the explanations instead
+- Use "critical" for factual errors and broken examples, "important" for problems that get in the way of learning, "minor" for polish
+- Return an empty array when there are no passage-level problems
+
+{OUTPUT_FORMAT}
+
+## Content to Validate
+\`\`\`
+{CONTENT}
+\`\`\``,
+
+  LECTURE_NOTE: `# Lecture Note Validation Prompt
+
+You are an expert educational content evaluator for an ed-tech platform. Analyze the provided lecture notes and return a strict JSON response with detailed scores and feedback.
+
+## CRITICAL INSTRUCTIONS
+- Return ONLY valid JSON, no additional text or explanations
+- All scores must be integers (no decimals, ranges, or text)
+- If you cannot complete validation, return error JSON format shown below
+- Escape all quotes in feedback strings with \\"
+
+## Lecture Note Context
+- **Required Topic**: {TOPIC}
+- **Topics Taught So Far**: {TOPICS_TAUGHT_SO_FAR}
+- **Specific Guidelines**: {GUIDELINES}
+
+## Input Validation Rules
+If any critical error occurs, return this error format instead:
+\`\`\`json
+{
+  "error": "Error description here",
+  "validation_attempted": false
+}
+\`\`\`
+
+Common errors:
+- Required topic is empty/missing
+- Content is empty, over 15,000 characters, or contains only placeholders
+- Unable to generate valid JSON due to content issues
+
+{RUBRIC}
+
+## SCORING GUIDE
+- **90-100: Exceptional** - Meets all criteria excellently with outstanding pedagogical design
+- **75-89: Good** - Minor issues in 1-2 areas, generally well-structured and effective
+- **60-74: Satisfactory** - Moderate issues in 2-3 areas, functional but needs improvement
+- **45-59: Needs Improvement** - Significant issues in multiple areas affecting learning effectiveness
+- **Below 45: Major Revision Required** - Fundamental structural or content problems
+
+## ISSUE LOCATIONS
+List up to 10 specific problems in "issues", each tied to the passage it is about:
+- "quote" must be copied character for character from the content so it can be highlighted for the author; do not paraphrase, shorten with ellipses or quote across code blocks
+- Leave out problems with the content as a whole (e.g. a missing section); cover those in the explanations instead
+- Use "critical" for factual errors and broken examples, "important" for problems that get in the way of learning, "minor" for polish
+- Return an empty array when there are no passage-level problems
+
+{OUTPUT_FORMAT}
+
+## Content to Validate
+\`\`\`
+{CONTENT}
+\`\`\``,
+
+  ASSIGNMENT: `# Assignment Validation Prompt
+
+You are an expert assignment validator for an ed-tech platform. Analyze the provided assignment content and return a strict JSON response with detailed scores and feedback.
+
+## CRITICAL INSTRUCTIONS
+- Return ONLY valid JSON, no additional text or explanations
+- All scores must be integers (no decimals, ranges, or text)
+- If you cannot complete validation, return error JSON format shown below
+- Escape all quotes in feedback strings with \\"
+
+## Assignment Context
+- **Required Topic**: {TOPIC}
+- **Topics Taught So Far**: {TOPICS_TAUGHT_SO_FAR}
+- **Specific Guidelines**: {GUIDELINES}
+- **Difficulty**: {DIFFICULTY}
+
+## Input Validation Rules
+If any critical error occurs, return this error format instead:
+\`\`\`json
+{
+  "error": "Error description here",
+  "validation_attempted": false
+}
+\`\`\`
+
+Common errors:
+- Required topic is empty/missing
+- Content is empty, over 15,000 characters, or contains only placeholders
+- Unable to generate valid JSON due to content issues
+
+{RUBRIC}
+
+## ISSUE LOCATIONS
+List up to 10 specific problems in "issues", each tied to the passage it is about:
+- "quote" must be copied character for character from the content so it can be highlighted for the author; do not paraphrase, shorten with ellipses or quote across code blocks
+- Leave out problems with the content as a whole (e.g. a missing section); cover those in the explanations instead
+- Use "critical" for factual errors and broken examples, "important" for problems that get in the way of learning, "minor" for polish
+- Return an empty array when there are no passage-level problems
+
+{OUTPUT_FORMAT}
+
+## Content to Validate
+\`\`\`
+{CONTENT}
+\`\`\``,
+};
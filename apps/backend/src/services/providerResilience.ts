@@ -0,0 +1,164 @@
+import type { LLMProvider } from '@prisma/client';
+import { env } from '../lib/env.js';
+
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 1000;
+
+// Consecutive failed calls (after retries) before a provider is taken out of rotation
+const FAILURE_THRESHOLD = 3;
+// How long an open circuit waits before letting a single trial call through
+const OPEN_DURATION_MS = 60 * 1000;
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+type CircuitBreaker = {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  trialInFlight: boolean;
+  lastFailure: string | null;
+  lastFailureAt: number | null;
+  lastSuccessAt: number | null;
+};
+
+// Per process: the validation worker runs inside the API server, so the health endpoint sees the same state
+const breakers = new Map<LLMProvider, CircuitBreaker>();
+
+function breakerFor(provider: LLMProvider): CircuitBreaker {
+  let breaker = breakers.get(provider);
+  if (!breaker) {
+    breaker = {
+      state: 'CLOSED',
+      consecutiveFailures: 0,
+      openedAt: null,
+      trialInFlight: false,
+      lastFailure: null,
+      lastFailureAt: null,
+      lastSuccessAt: null,
+    };
+    breakers.set(provider, breaker);
+  }
+  return breaker;
+}
+
+// An open circuit becomes half-open once its cooldown has passed
+function refreshState(breaker: CircuitBreaker) {
+  if (breaker.state === 'OPEN' && breaker.openedAt !== null && Date.now() - breaker.openedAt >= OPEN_DURATION_MS) {
+    breaker.state = 'HALF_OPEN';
+    breaker.trialInFlight = false;
+  }
+}
+
+export function isProviderAvailable(provider: LLMProvider): boolean {
+  const breaker = breakerFor(provider);
+  refreshState(breaker);
+  return breaker.state === 'CLOSED' || (breaker.state === 'HALF_OPEN' && !breaker.trialInFlight);
+}
+
+function recordSuccess(provider: LLMProvider) {
+  const breaker = breakerFor(provider);
+  if (breaker.state !== 'CLOSED') {
+    console.log(`✅ ${provider} circuit closed`);
+  }
+  breaker.state = 'CLOSED';
+  breaker.consecutiveFailures = 0;
+  breaker.openedAt = null;
+  breaker.trialInFlight = false;
+  breaker.lastSuccessAt = Date.now();
+}
+
+function recordFailure(provider: LLMProvider, error: unknown) {
+  const breaker = breakerFor(provider);
+  breaker.consecutiveFailures++;
+  breaker.trialInFlight = false;
+  breaker.lastFailure = error instanceof Error ? error.message : String(error);
+  breaker.lastFailureAt = Date.now();
+
+  // A failed trial call reopens the circuit straight away
+  if (breaker.state === 'HALF_OPEN' || breaker.consecutiveFailures >= FAILURE_THRESHOLD) {
+    if (breaker.state !== 'OPEN') {
+      console.warn(`🔌 ${provider} circuit opened after ${breaker.consecutiveFailures} consecutive failures`);
+    }
+    breaker.state = 'OPEN';
+    breaker.openedAt = Date.now();
+  }
+}
+
+function statusOf(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+// Rate limits, server errors and failures with no HTTP response at all (refused connection, DNS,
+// reset socket) are worth retrying; any other answer from the provider (bad request, auth) will fail again
+function isRetryable(error: unknown): boolean {
+  const status = statusOf(error);
+  return status === undefined || status === 429 || status >= 500;
+}
+
+function backoffDelay(attempt: number): number {
+  return BASE_BACKOFF_MS * 2 ** (attempt - 1) + Math.floor(Math.random() * 250);
+}
+
+// Run one provider call with a timeout, exponential-backoff retries on 429/5xx, network errors and timeouts,
+// and the provider's circuit breaker. Errors that retrying can't fix are rethrown immediately.
+export async function callWithResilience<T>(
+  provider: LLMProvider,
+  label: string,
+  call: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  if (!isProviderAvailable(provider)) {
+    throw new Error(`${label} is temporarily unavailable (circuit open)`);
+  }
+  const breaker = breakerFor(provider);
+  if (breaker.state === 'HALF_OPEN') {
+    breaker.trialInFlight = true;
+  }
+
+  let lastError: unknown;
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), env.llmCallTimeoutMs);
+
+    try {
+      const result = await call(controller.signal);
+      recordSuccess(provider);
+      return result;
+    } catch (error) {
+      const timedOut = controller.signal.aborted;
+      if (!timedOut && !isRetryable(error)) {
+        // The provider answered, so it is healthy even though this request was rejected
+        recordSuccess(provider);
+        throw error;
+      }
+
+      lastError = timedOut ? new Error(`${label} call timed out after ${env.llmCallTimeoutMs}ms`) : error;
+      if (attempt < MAX_ATTEMPTS) {
+        const delay = backoffDelay(attempt);
+        console.warn(`⏳ ${label} attempt ${attempt} failed (${timedOut ? 'timeout' : statusOf(error) ?? 'no response'}), retrying in ${delay}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  recordFailure(provider, lastError);
+  throw lastError;
+}
+
+export function getProviderHealth(provider: LLMProvider) {
+  const breaker = breakerFor(provider);
+  refreshState(breaker);
+  return {
+    provider,
+    state: breaker.state,
+    consecutiveFailures: breaker.consecutiveFailures,
+    retryAt: breaker.state === 'OPEN' && breaker.openedAt !== null
+      ? new Date(breaker.openedAt + OPEN_DURATION_MS).toISOString()
+      : null,
+    lastFailure: breaker.lastFailure,
+    lastFailureAt: breaker.lastFailureAt ? new Date(breaker.lastFailureAt).toISOString() : null,
+    lastSuccessAt: breaker.lastSuccessAt ? new Date(breaker.lastSuccessAt).toISOString() : null,
+  };
+}
@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import type { RubricDefinition } from './rubrics.js';
+
+// The prompts tell the model to reply with this instead when it cannot evaluate the content
+const declinedResponseSchema = z.object({
+  error: z.string(),
+  validation_attempted: z.literal(false).optional(),
+});
+
+// Passages the model quoted as problems. Optional, and a malformed list is dropped rather than
+// failing the reply, since the scores are still usable without it.
+const reportedIssuesSchema = z.array(z.object({
+  criterion: z.string().optional(),
+  quote: z.string(),
+  message: z.string(),
+  severity: z.enum(['critical', 'important', 'minor']).catch('minor'),
+})).optional().catch(undefined);
+
+// Sub-topic checklist requested by the assignment brief; optional and dropped when malformed, like issues
+const subTopicCoverageSchema = z.array(z.object({
+  subTopic: z.string(),
+  status: z.enum(['covered', 'partial', 'missing']),
+  note: z.string().optional(),
+})).optional().catch(undefined);
+
+// Reply to the plain prompt used for content outside an assignment
+const criteriaResponseSchema = z.object({
+  relevance: z.number().min(0).max(100),
+  continuity: z.number().min(0).max(100),
+  documentation: z.number().min(0).max(100),
+  feedback: z.object({
+    relevance: z.string(),
+    continuity: z.string(),
+    documentation: z.string(),
+  }),
+  issues: reportedIssuesSchema,
+  subTopicCoverage: subTopicCoverageSchema,
+});
+
+function rubricResponseSchema(rubric: RubricDefinition) {
+  const scoreBreakdown = Object.fromEntries(
+    Object.entries(rubric.criteria).map(([key, criterion]) => [
+      key,
+      z.object({
+        score: z.number().min(0).max(criterion.maxScore),
+        explanation: z.string(),
+      }),
+    ])
+  );
+
+  return z.object({
+    // Recomputed from the criteria scores, so a missing or miscounted total doesn't fail the reply
+    overallScore: z.number().optional().catch(undefined),
+    scoreBreakdown: z.object(scoreBreakdown),
+    detailedFeedback: z.object({
+      strengths: z.array(z.string()),
+      weaknesses: z.array(z.string()),
+      suggestion: z.string(),
+    }),
+    issues: reportedIssuesSchema,
+    subTopicCoverage: subTopicCoverageSchema,
+  });
+}
+
+export type RubricResponse = z.infer<ReturnType<typeof rubricResponseSchema>>;
+
+export type ParsedModelResponse =
+  | { kind: 'criteria'; data: z.infer<typeof criteriaResponseSchema> }
+  | { kind: 'rubric'; data: RubricResponse }
+  | { kind: 'declined'; reason: string };
+
+export type ModelResponseParseResult =
+  | { success: true; response: ParsedModelResponse }
+  | { success: false; issues: string[] };
+
+// Strip markdown code fences some models wrap around their JSON
+function extractJson(text: string): string {
+  let cleanText = text.trim();
+  if (cleanText.startsWith('```json')) {
+    cleanText = cleanText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+  } else if (cleanText.startsWith('```')) {
+    cleanText = cleanText.replace(/^```\s*/, '').replace(/\s*```$/, '');
+  }
+  return cleanText;
+}
+
+// Check a model's raw reply against the shape its prompt asked for.
+// Issues are phrased so they can be sent back to the model in a repair request.
+export function parseModelResponse(text: string, rubric?: RubricDefinition): ModelResponseParseResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(extractJson(text));
+  } catch (error) {
+    return { success: false, issues: [`Response is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`] };
+  }
+
+  const declined = declinedResponseSchema.safeParse(json);
+  if (declined.success) {
+    return { success: true, response: { kind: 'declined', reason: declined.data.error } };
+  }
+
+  if (rubric) {
+    const parsed = rubricResponseSchema(rubric).safeParse(json);
+    return parsed.success
+      ? { success: true, response: { kind: 'rubric', data: parsed.data } }
+      : { success: false, issues: formatIssues(parsed.error) };
+  }
+
+  const criteria = criteriaResponseSchema.safeParse(json);
+  return criteria.success
+    ? { success: true, response: { kind: 'criteria', data: criteria.data } }
+    : { success: false, issues: formatIssues(criteria.error) };
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
+}
@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import type { ContentType, Guideline } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { BUILT_IN_RUBRICS, type RubricDefinition } from './rubrics.js';
+
+const MAX_CRITERIA = 15;
+
+// One criterion as stored in Guideline.criteria and sent by the rubric builder
+const rubricCriterionSchema = z.object({
+  // Names the criterion in the model's scoreBreakdown, so it has to be a plain identifier
+  key: z.string().regex(/^[a-z][A-Za-z0-9]*$/, 'Use a camelCase key such as factualCorrectness').max(50),
+  label: z.string().trim().min(1).max(100),
+  maxScore: z.number().int().min(1).max(100),
+  summary: z.enum(['relevance', 'continuity', 'documentation']),
+  description: z.string().trim().min(1).max(4000),
+  explanationHint: z.string().trim().max(200).optional(),
+  passThreshold: z.number().int().min(0).optional(),
+}).refine(criterion => criterion.passThreshold === undefined || criterion.passThreshold <= criterion.maxScore, {
+  message: 'A criterion pass threshold cannot be above its max points',
+  path: ['passThreshold'],
+});
+
+export const rubricCriteriaSchema = z.array(rubricCriterionSchema)
+  .min(1)
+  .max(MAX_CRITERIA)
+  .refine(criteria => new Set(criteria.map(criterion => criterion.key)).size === criteria.length, {
+    message: 'Criterion keys must be unique',
+  });
+
+export type RubricCriterionInput = z.infer<typeof rubricCriterionSchema>;
+
+// Ordered criteria list, as stored and as the rubric builder edits it
+export function criteriaListOf(definition: RubricDefinition): RubricCriterionInput[] {
+  return Object.entries(definition.criteria).map(([key, criterion]) => ({
+    key,
+    label: criterion.label,
+    maxScore: criterion.maxScore,
+    summary: criterion.summary,
+    description: criterion.description,
+    ...(criterion.explanationHint && { explanationHint: criterion.explanationHint }),
+    ...(criterion.passThreshold !== undefined && { passThreshold: criterion.passThreshold }),
+  }));
+}
+
+// A stored rubric as a definition, or null when its criteria no longer match the schema
+export function rubricDefinitionOf(guideline: Guideline & { contentType: ContentType }): RubricDefinition | null {
+  const criteria = rubricCriteriaSchema.safeParse(guideline.criteria);
+  if (!criteria.success) return null;
+
+  return {
+    contentType: guideline.contentType,
+    id: guideline.id,
+    name: guideline.name,
+    criteria: Object.fromEntries(criteria.data.map(({ key, ...criterion }) => [key, criterion])),
+    passThreshold: guideline.passThreshold,
+  };
+}
+
+// The rubric a content type is scored against: the active Guideline for it, else the built-in rubric
+export async function getActiveRubric(contentType: ContentType): Promise<RubricDefinition> {
+  try {
+    const guideline = await prisma.guideline.findFirst({
+      where: { contentType, isActive: true },
+      orderBy: { updatedAt: 'desc' },
+    });
+    if (!guideline) {
+      return BUILT_IN_RUBRICS[contentType];
+    }
+
+    const definition = rubricDefinitionOf({ ...guideline, contentType });
+    if (!definition) {
+      console.error(`Active rubric ${guideline.id} has invalid criteria, using the built-in ${contentType} rubric`);
+    }
+    return definition ?? BUILT_IN_RUBRICS[contentType];
+  } catch (error) {
+    console.error('Error fetching rubric:', error);
+    return BUILT_IN_RUBRICS[contentType];
+  }
+}
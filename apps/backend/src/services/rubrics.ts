@@ -0,0 +1,414 @@
+import type { ContentType } from '@prisma/client';
+import type { CriteriaScores } from './validation.js';
+import type { RubricResponse } from './responseSchemas.js';
+
+type SummaryCriterion = keyof CriteriaScores;
+
+const SUMMARY_CRITERIA: SummaryCriterion[] = ['relevance', 'continuity', 'documentation'];
+
+export type RubricCriterionDefinition = {
+  label: string;
+  maxScore: number;
+  // Which of the three summary scores (relevance/continuity/documentation) this criterion feeds
+  summary: SummaryCriterion;
+  // What the model checks, as markdown; {TOPIC} is replaced with the content's topic
+  description: string;
+  // What the explanation should cover, e.g. "actual percentages"
+  explanationHint?: string | undefined;
+  // Minimum points for the criterion to pass
+  passThreshold?: number | undefined;
+};
+
+// A content type's rubric: the criteria the prompt lists and the model scores, keyed as the reply names them
+export type RubricDefinition = {
+  contentType: ContentType;
+  // The Guideline it was loaded from; null for the built-in rubric
+  id: string | null;
+  name: string;
+  criteria: Record<string, RubricCriterionDefinition>;
+  // Minimum overall score (0-100) to pass
+  passThreshold: number | null;
+};
+
+// Used for a content type until a super admin activates a rubric for it.
+// Max scores add up to 100 for every content type.
+export const BUILT_IN_RUBRICS: Record<ContentType, RubricDefinition> = {
+  PRE_READ: {
+    contentType: 'PRE_READ',
+    id: null,
+    name: 'Built-in Pre-Read rubric',
+    passThreshold: null,
+    criteria: {
+      grammarAndSpelling: {
+        label: 'Grammar and Spelling',
+        maxScore: 10,
+        summary: 'documentation',
+        description: `- Content must have correct grammar and spelling
+- Proper punctuation and sentence structure
+- Clear and professional language with conversational tone
+- Consistent terminology throughout
+- Active voice preference over passive voice`,
+      },
+      topicRelevance: {
+        label: 'Topic Relevance',
+        maxScore: 15,
+        summary: 'continuity',
+        description: `- Content must be from the specified topic: "{TOPIC}"
+- Material must align with stated learning objectives
+- All content stays within the scope of "10/100 depth" (orientation, not mastery)
+- No references to future sessions, lectures, or activities
+- Material is standalone and complete`,
+      },
+      adherenceToStructure: {
+        label: 'Adherence to Structure',
+        maxScore: 20,
+        summary: 'relevance',
+        explanationHint: 'specific template elements missing/present',
+        description: `The pre-read must follow the five-part framework precisely:
+- **Part 1: The Big Picture (Why This Matters)** - Hook, relevance, career context, analogy
+- **Part 2: Your Roadmap Through This Topic** - 3-5 subtopics with engaging previews
+- **Part 3: Key Terms to Listen For** - 4-6 essential terms with plain-English definitions
+- **Part 4: Examples and Concepts in Action** - Working code examples OR real-world case studies
+- **Part 5: Questions to Keep in Mind** - 2-3 open-ended, thought-provoking questions
+
+Required supporting sections:
+- Learning outcomes clearly stated
+- Scope boundaries explicitly defined
+- Self-check section for validation
+- Reading guidance for students
+- Contextual connections to related topics`,
+      },
+      creativityAndEngagement: {
+        label: 'Creativity and Engagement',
+        maxScore: 15,
+        summary: 'documentation',
+        description: `- Uses relatable analogies from everyday life (not technical domains)
+- Real-world applications using recognizable apps/products (Instagram, Netflix, etc.)
+- Engaging scenarios and examples that maintain learner interest
+- Conversational, enthusiastic tone that encourages exploration
+- Career relevance made specific and concrete`,
+      },
+      easeOfUnderstanding: {
+        label: 'Ease of Understanding',
+        maxScore: 10,
+        summary: 'documentation',
+        description: `- Concepts presented at appropriate 10/100 depth level
+- Uses plain language and defines technical terms immediately
+- Paragraphs limited to 2-4 sentences maximum
+- Generous use of white space and formatting
+- One concept per paragraph with logical flow
+- Cognitive load managed through chunking and "rest stops"`,
+      },
+      factualCorrectness: {
+        label: 'Factual Correctness',
+        maxScore: 10,
+        summary: 'continuity',
+        description: `- All statements and information must be factually accurate
+- Code examples must be functional and tested (for technical topics)
+- Examples must be realistic and possible scenarios
+- No contradictory information within the content
+- Technical explanations accurate but appropriately simplified`,
+      },
+      pedagogicallySound: {
+        label: 'Pedagogically Sound',
+        maxScore: 10,
+        summary: 'documentation',
+        description: `- Builds foundational awareness rather than deep expertise
+- Addresses the "why" before the "what"
+- Encourages curiosity and further exploration
+- Provides multiple perspectives through diverse examples
+- Supports different learning styles through varied presentation
+- Clear expectations about what students will/won't be able to do`,
+      },
+      conciseness: {
+        label: 'Conciseness',
+        maxScore: 10,
+        summary: 'relevance',
+        explanationHint: 'reading time assessment',
+        description: `- Reading time stays within 15-20 minutes
+- Content is focused and avoids unnecessary tangents
+- Each section serves a clear purpose
+- No filler words or redundant explanations
+- Efficient use of examples to demonstrate concepts
+- Information density appropriate for orientation-level content`,
+      },
+    },
+  },
+  LECTURE_NOTE: {
+    contentType: 'LECTURE_NOTE',
+    id: null,
+    name: 'Built-in Lecture Note rubric',
+    passThreshold: null,
+    criteria: {
+      grammarAndSpelling: {
+        label: 'Grammar and Spelling',
+        maxScore: 10,
+        summary: 'documentation',
+        description: `- Content must have correct grammar and spelling
+- Proper punctuation and sentence structure
+- Clear and professional language
+- Consistent terminology throughout`,
+      },
+      topicRelevance: {
+        label: 'Topic Relevance',
+        maxScore: 15,
+        summary: 'continuity',
+        description: `- Content must be from the specified topic: "{TOPIC}"
+- Material must align with stated learning objectives
+- All content must stay within the scope defined by prerequisites and topic boundaries
+- No extraneous information that distracts from core learning goals`,
+      },
+      adherenceToStructure: {
+        label: 'Adherence to Structure',
+        maxScore: 20,
+        summary: 'relevance',
+        explanationHint: 'specific template elements missing/present',
+        description: `The lecture notes must follow the pedagogical structure precisely:
+- **Prerequisites:** Clear statement of required prior knowledge
+- **Learning Objectives:** 2-3 specific, actionable outcomes using action verbs
+- **Introduction:** Core definition, analogy, and relevance explanation
+- **Foundation:** Progressive concept building with concrete examples
+- **Worked Examples:** At least 2-3 diverse examples with step-by-step explanations
+- **Common Pitfalls:** Table format showing mistakes, problems, solutions, and reasoning
+- **Practice & Assessment:** Authentic practice task and self-assessment questions
+- **Consolidation:** Key takeaways, mental model check, and next steps`,
+      },
+      creativityAndEngagement: {
+        label: 'Creativity and Engagement',
+        maxScore: 15,
+        summary: 'documentation',
+        description: `- Uses relatable analogies appropriate for the target audience
+- Provides real-world applications and contexts
+- Engaging scenarios and examples that maintain learner interest
+- Creative presentation of material that goes beyond dry facts
+- Conversational, warm tone that doesn't sacrifice professionalism`,
+      },
+      easeOfUnderstanding: {
+        label: 'Ease of Understanding',
+        maxScore: 15,
+        summary: 'documentation',
+        description: `- Concepts progress from simple to complex (scaffolding)
+- Uses plain language and defines technical terms immediately
+- Information is chunked appropriately for cognitive load management
+- Clear headings and formatting that enhance readability
+- Logical flow and smooth transitions between concepts`,
+      },
+      factualCorrectness: {
+        label: 'Factual Correctness',
+        maxScore: 10,
+        summary: 'continuity',
+        description: `- All statements and information must be factually accurate
+- Examples must be realistic and possible scenarios
+- Technical details must be correct and current
+- No contradictory information within the content`,
+      },
+      pedagogicallySound: {
+        label: 'Pedagogically Sound',
+        maxScore: 15,
+        summary: 'documentation',
+        description: `- Builds mental models explicitly rather than implying them
+- Addresses common misconceptions proactively
+- Provides multiple perspectives on concepts through diverse examples
+- Includes counter-examples to clarify boundaries
+- Supports different learning styles through varied presentation methods
+- Enables active learning through practice and self-assessment opportunities`,
+      },
+    },
+  },
+  ASSIGNMENT: {
+    contentType: 'ASSIGNMENT',
+    id: null,
+    name: 'Built-in Assignment rubric',
+    passThreshold: null,
+    criteria: {
+      grammarAndSpelling: {
+        label: 'Grammar and Spelling',
+        maxScore: 10,
+        summary: 'documentation',
+        description: `- Check for grammatical errors, spelling mistakes, and punctuation issues
+- Assess overall language quality and clarity of expression`,
+      },
+      topicRelevance: {
+        label: 'Topic Relevance',
+        maxScore: 15,
+        summary: 'continuity',
+        description: `- Verify the assignment directly addresses the required topic: "{TOPIC}"
+- Check if the content is focused and relevant to the learning objectives
+- Ensure the assignment tests knowledge of the specified topic`,
+      },
+      difficultyDistribution: {
+        label: 'Difficulty Distribution',
+        maxScore: 20,
+        summary: 'relevance',
+        explanationHint: 'actual percentages',
+        description: `- Analyze the distribution of difficulty levels across the assignment
+- Check for appropriate mix of easy, medium, and challenging questions/tasks
+- Provide actual percentages in your explanation`,
+      },
+      progressiveDifficulty: {
+        label: 'Progressive Difficulty',
+        maxScore: 15,
+        summary: 'relevance',
+        description: `- Evaluate if the assignment builds from simpler to more complex concepts
+- Check for logical progression that allows learners to build confidence
+- Assess scaffolding and gradual complexity increase`,
+      },
+      creativityAndEngagement: {
+        label: 'Creativity and Engagement',
+        maxScore: 15,
+        summary: 'documentation',
+        description: `- Assess how engaging and creative the assignment is
+- Check for interesting scenarios, real-world applications, or innovative approaches
+- Evaluate if the assignment would motivate learners`,
+      },
+      clarityAndSpecificity: {
+        label: 'Clarity and Specificity',
+        maxScore: 15,
+        summary: 'documentation',
+        description: `- Check if instructions are clear and unambiguous
+- Verify that expectations are well-defined
+- Assess if learners would understand exactly what is required`,
+      },
+      factualCorrectness: {
+        label: 'Factual Correctness',
+        maxScore: 10,
+        summary: 'continuity',
+        description: `- Verify the accuracy of all information presented
+- Check for any incorrect facts, outdated information, or misleading content
+- Ensure all examples and references are correct`,
+      },
+    },
+  },
+};
+
+export type RubricCriterionScore = {
+  label: string;
+  score: number;
+  maxScore: number;
+  summary: SummaryCriterion;
+  explanation: string;
+  passThreshold?: number;
+  passed?: boolean;
+};
+
+// A content type's full rubric as scored by one model (or combined across models)
+export type RubricBreakdown = {
+  contentType: ContentType;
+  rubricId: string | null;
+  // Points earned as a percentage of the points available, recomputed from the criteria rather than taken from the model
+  overallScore: number;
+  criteria: Record<string, RubricCriterionScore>;
+  passThreshold: number | null;
+  // Overall score and every criterion at or above their thresholds
+  passed: boolean;
+  strengths: string[];
+  weaknesses: string[];
+  suggestion: string;
+};
+
+export function rubricTotal(definition: RubricDefinition): number {
+  return Object.values(definition.criteria).reduce((sum, criterion) => sum + criterion.maxScore, 0);
+}
+
+function scoredCriterion(definition: Omit<RubricCriterionDefinition, 'description'>, score: number, explanation: string): RubricCriterionScore {
+  const clamped = Math.max(0, Math.min(definition.maxScore, score));
+  return {
+    label: definition.label,
+    score: clamped,
+    maxScore: definition.maxScore,
+    summary: definition.summary,
+    explanation,
+    ...(definition.passThreshold !== undefined && {
+      passThreshold: definition.passThreshold,
+      passed: clamped >= definition.passThreshold,
+    }),
+  };
+}
+
+// Overall score and verdict from the scored criteria, so they follow the rubric's weights whatever the model added up
+function withTotals(
+  rubric: Omit<RubricBreakdown, 'overallScore' | 'passed'>
+): RubricBreakdown {
+  const criteria = Object.values(rubric.criteria);
+  const earned = criteria.reduce((sum, criterion) => sum + criterion.score, 0);
+  const available = criteria.reduce((sum, criterion) => sum + criterion.maxScore, 0);
+  const overallScore = available > 0 ? Math.round((earned / available) * 100) : 0;
+  const passed = (rubric.passThreshold === null || overallScore >= rubric.passThreshold)
+    && criteria.every(criterion => criterion.passed !== false);
+  return { ...rubric, overallScore, passed };
+}
+
+// Read a content-type prompt's JSON reply into a breakdown against the rubric the prompt was built from.
+// Criteria the model left out score 0; scores are clamped to each criterion's maximum.
+export function parseRubricResponse(definition: RubricDefinition, parsed: RubricResponse): RubricBreakdown {
+  const criteria: Record<string, RubricCriterionScore> = {};
+  for (const [key, criterion] of Object.entries(definition.criteria)) {
+    const reported = parsed.scoreBreakdown[key];
+    criteria[key] = scoredCriterion(criterion, Math.round(reported?.score ?? 0), reported?.explanation ?? '');
+  }
+
+  return withTotals({
+    contentType: definition.contentType,
+    rubricId: definition.id,
+    criteria,
+    passThreshold: definition.passThreshold,
+    strengths: parsed.detailedFeedback.strengths.filter(Boolean),
+    weaknesses: parsed.detailedFeedback.weaknesses.filter(Boolean),
+    suggestion: parsed.detailedFeedback.suggestion,
+  });
+}
+
+// Collapse a breakdown into the three summary scores: the percentage of points earned
+// in the criteria that feed each one, with their explanations as its feedback
+export function summarizeRubric(rubric: RubricBreakdown): { scores: CriteriaScores; feedback: Record<SummaryCriterion, string> } {
+  const scores = {} as CriteriaScores;
+  const feedback = {} as Record<SummaryCriterion, string>;
+
+  for (const summary of SUMMARY_CRITERIA) {
+    const fed = Object.values(rubric.criteria).filter(criterion => criterion.summary === summary);
+
+    const earned = fed.reduce((sum, criterion) => sum + criterion.score, 0);
+    const available = fed.reduce((sum, criterion) => sum + criterion.maxScore, 0);
+    scores[summary] = available > 0 ? Math.round((earned / available) * 100) : 0;
+    feedback[summary] = fed
+      .filter(criterion => criterion.explanation)
+      .map(criterion => `${criterion.label}: ${criterion.explanation}`)
+      .join(' ');
+  }
+
+  return { scores, feedback };
+}
+
+// Combine several models' breakdowns criterion by criterion with the given score combiner.
+// Only breakdowns scored against the same rubric as the first are combined.
+export function combineRubrics(
+  rubrics: RubricBreakdown[],
+  combineScores: (scores: number[]) => number,
+  combineText: (texts: string[]) => string
+): RubricBreakdown | undefined {
+  const [first] = rubrics;
+  if (!first) return undefined;
+  const sameRubric = rubrics.filter(rubric => rubric.contentType === first.contentType && rubric.rubricId === first.rubricId);
+
+  const criteria: Record<string, RubricCriterionScore> = {};
+  for (const [key, definition] of Object.entries(first.criteria)) {
+    const scored = sameRubric
+      .map(rubric => rubric.criteria[key])
+      .filter((criterion): criterion is RubricCriterionScore => criterion !== undefined);
+    criteria[key] = scoredCriterion(
+      definition,
+      combineScores(scored.map(criterion => criterion.score)),
+      combineText(scored.map(criterion => criterion.explanation))
+    );
+  }
+
+  return withTotals({
+    contentType: first.contentType,
+    rubricId: first.rubricId,
+    criteria,
+    passThreshold: first.passThreshold,
+    strengths: [...new Set(sameRubric.flatMap(rubric => rubric.strengths))],
+    weaknesses: [...new Set(sameRubric.flatMap(rubric => rubric.weaknesses))],
+    suggestion: combineText(sameRubric.map(rubric => rubric.suggestion)),
+  });
+}
@@ -0,0 +1,121 @@
+import type { ContentType, ScoreAggregationStrategy } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import type { CriteriaScores, ValidationOutput } from './validation.js';
+
+export type AggregationSettings = {
+  strategy: ScoreAggregationStrategy;
+  agreementThreshold: number | null;
+  // Optional for any strategy: above this disagreement the result can't pass without a human
+  disagreementThreshold: number | null;
+};
+
+// Recorded with every validation run alongside the final scores
+export type AggregationOutcome = AggregationSettings & {
+  // The models disagreed by more than the agreement or disagreement threshold, so a human should score it
+  flaggedForReview: boolean;
+};
+
+// Highest minus lowest round 2 score per criterion, and the largest of the three
+export type DisagreementMetric = CriteriaScores & { max: number };
+
+// Scores combine with MAX unless a super admin picks something else for the content type
+export const DEFAULT_AGGREGATION_SETTINGS: AggregationSettings = {
+  strategy: 'MAX',
+  agreementThreshold: null,
+  disagreementThreshold: null,
+};
+
+// Used by AGREEMENT when the setting leaves the threshold empty
+export const DEFAULT_AGREEMENT_THRESHOLD = 10;
+
+const CRITERIA = ['relevance', 'continuity', 'documentation'] as const;
+
+export async function getAggregationSettings(contentType?: ContentType): Promise<AggregationSettings> {
+  if (!contentType) {
+    return DEFAULT_AGGREGATION_SETTINGS;
+  }
+
+  try {
+    const setting = await prisma.scoreAggregationSetting.findUnique({ where: { contentType } });
+    return setting
+      ? {
+          strategy: setting.strategy,
+          agreementThreshold: setting.agreementThreshold,
+          disagreementThreshold: setting.disagreementThreshold,
+        }
+      : DEFAULT_AGGREGATION_SETTINGS;
+  } catch (error) {
+    console.error('Error fetching score aggregation settings:', error);
+    return DEFAULT_AGGREGATION_SETTINGS;
+  }
+}
+
+// Calls that failed only carry placeholder zeros, so they are left out unless every call failed
+function successfulResults<T extends { result: ValidationOutput }>(results: T[]): T[] {
+  const succeeded = results.filter(({ result }) => !result.error);
+  return succeeded.length > 0 ? succeeded : results;
+}
+
+export function measureDisagreement(results: ValidationOutput[]): DisagreementMetric {
+  const compared = successfulResults(results.map(result => ({ result }))).map(({ result }) => result);
+
+  const disagreement = {} as CriteriaScores;
+  for (const criterion of CRITERIA) {
+    const scores = compared.map(result => result.scores[criterion]);
+    disagreement[criterion] = scores.length > 0 ? Math.max(...scores) - Math.min(...scores) : 0;
+  }
+  return { ...disagreement, max: Math.max(...CRITERIA.map(criterion => disagreement[criterion])) };
+}
+
+// Combine one criterion's scores across models; weights line up with scores
+export function combineScores(strategy: ScoreAggregationStrategy, scores: number[], weights: number[]): number {
+  switch (strategy) {
+    case 'MAX':
+      return Math.max(...scores);
+    case 'MIN':
+      return Math.min(...scores);
+    case 'WEIGHTED': {
+      const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+      // All-zero weights would divide by zero; treat them as equal instead
+      if (totalWeight > 0) {
+        return Math.round(scores.reduce((sum, score, i) => sum + score * (weights[i] ?? 0), 0) / totalWeight);
+      }
+      return Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length);
+    }
+    case 'MEAN':
+    case 'AGREEMENT':
+      return Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length);
+  }
+}
+
+// Combine each model's round 2 scores into the final score
+export function aggregateScores(
+  results: Array<{ result: ValidationOutput; weight: number }>,
+  disagreement: DisagreementMetric,
+  settings: AggregationSettings
+): { finalScore: CriteriaScores; aggregation: AggregationOutcome } {
+  const combined = successfulResults(results);
+  const weights = combined.map(({ weight }) => weight);
+
+  const finalScore = {} as CriteriaScores;
+  for (const criterion of CRITERIA) {
+    finalScore[criterion] = combineScores(settings.strategy, combined.map(({ result }) => result.scores[criterion]), weights);
+  }
+
+  const agreementThreshold = settings.strategy === 'AGREEMENT'
+    ? settings.agreementThreshold ?? DEFAULT_AGREEMENT_THRESHOLD
+    : null;
+  const flaggedForReview =
+    (agreementThreshold !== null && disagreement.max > agreementThreshold) ||
+    (settings.disagreementThreshold !== null && disagreement.max > settings.disagreementThreshold);
+
+  return {
+    finalScore,
+    aggregation: {
+      strategy: settings.strategy,
+      agreementThreshold,
+      disagreementThreshold: settings.disagreementThreshold,
+      flaggedForReview,
+    },
+  };
+}
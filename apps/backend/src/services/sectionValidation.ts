@@ -0,0 +1,370 @@
+import { combineRubrics, type RubricBreakdown } from './rubrics.js';
+import { bestVerdict, type SubTopicCoverage } from './assignmentBrief.js';
+import {
+  runDualLLMValidation,
+  type AssignmentContext,
+  type CompletedValidationOutput,
+  type CriteriaScores,
+  type DualValidationOptions,
+  type DualValidationOutput,
+  type SectionScore,
+  type TokenUsage,
+  type ValidationOutput,
+  type ValidationProgressEvent,
+  type ValidationStage,
+} from './validation.js';
+
+// A contiguous slice of a document, starting at a heading unless it is the preamble or a continuation
+export type ContentSection = {
+  heading: string | null;
+  start: number;
+  end: number;
+  text: string;
+};
+
+// Documents up to this length are validated whole; the built-in prompts reject content over 15,000 characters
+const SECTIONING_THRESHOLD = 12_000;
+// Neighbouring sections are merged up to this length, so short sections keep some context and calls stay few
+const MAX_SECTION_LENGTH = 8_000;
+// Sections validated at once; each section is itself a call per model per round
+const SECTION_CONCURRENCY = 3;
+
+const CRITERIA = ['relevance', 'continuity', 'documentation'] as const;
+const HEADING_PATTERN = /^(#{1,3})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+type Piece = { heading: string | null; start: number; end: number };
+
+// Offsets of every line start, with whether the line is inside a fenced code block
+function linesOf(content: string): Array<{ start: number; text: string; inFence: boolean }> {
+  const lines: Array<{ start: number; text: string; inFence: boolean }> = [];
+  let inFence = false;
+  let start = 0;
+  for (const text of content.split('\n')) {
+    const isFence = FENCE_PATTERN.test(text);
+    lines.push({ start, text, inFence: inFence || isFence });
+    if (isFence) inFence = !inFence;
+    start += text.length + 1;
+  }
+  return lines;
+}
+
+// Split a piece that is too long on its own at blank lines outside code blocks, or hard at the limit
+function splitLongPiece(content: string, piece: Piece, lines: ReturnType<typeof linesOf>): Piece[] {
+  const breaks = lines
+    .filter(line => line.start > piece.start && line.start < piece.end && !line.inFence && line.text.trim() === '')
+    .map(line => line.start);
+
+  const pieces: Piece[] = [];
+  let start = piece.start;
+  while (piece.end - start > MAX_SECTION_LENGTH) {
+    const limit = start + MAX_SECTION_LENGTH;
+    const end = breaks.filter(position => position > start && position <= limit).pop() ?? limit;
+    pieces.push({ heading: pieces.length === 0 ? piece.heading : null, start, end });
+    start = end;
+  }
+  pieces.push({ heading: pieces.length === 0 ? piece.heading : null, start, end: piece.end });
+  return pieces;
+}
+
+// Split markdown at its #, ## and ### headings (outside code blocks), then merge neighbours up to the
+// section limit. Sections cover the whole content in order, so their lengths weight the document score.
+export function splitIntoSections(content: string): ContentSection[] {
+  const lines = linesOf(content);
+  const pieces: Piece[] = [];
+  for (const line of lines) {
+    const heading = line.inFence ? null : HEADING_PATTERN.exec(line.text);
+    if (heading || pieces.length === 0) {
+      const previous = pieces.at(-1);
+      if (previous) previous.end = line.start;
+      pieces.push({ heading: heading?.[2] ?? null, start: line.start, end: content.length });
+    }
+  }
+
+  const sized = pieces
+    .filter(piece => content.slice(piece.start, piece.end).trim() !== '')
+    .flatMap(piece => piece.end - piece.start > MAX_SECTION_LENGTH ? splitLongPiece(content, piece, lines) : [piece]);
+
+  // Merged sections are labelled by the first and last headings they span
+  const merged: Array<{ headings: string[]; start: number; end: number }> = [];
+  let lastHeading: string | null = null;
+  for (const piece of sized) {
+    const current = merged.at(-1);
+    if (current && piece.end - current.start <= MAX_SECTION_LENGTH) {
+      current.end = piece.end;
+    } else {
+      // A section that starts part-way through a long one continues its heading
+      const continued = !piece.heading && lastHeading ? [`${lastHeading} (continued)`] : [];
+      merged.push({ headings: continued, start: piece.start, end: piece.end });
+    }
+    if (piece.heading) {
+      merged.at(-1)!.headings.push(piece.heading);
+      lastHeading = piece.heading;
+    }
+  }
+
+  return merged.map(({ headings, start, end }) => ({
+    heading: headings.length > 1 ? `${headings[0]} – ${headings.at(-1)}` : headings[0] ?? null,
+    start,
+    end,
+    text: content.slice(start, end),
+  }));
+}
+
+function weightedMean(values: number[], weights: number[]): number {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  return Math.round(values.reduce((sum, value, i) => sum + value * (weights[i] ?? 0), 0) / totalWeight);
+}
+
+function weightedScores(scores: CriteriaScores[], weights: number[]): CriteriaScores {
+  const combined = {} as CriteriaScores;
+  for (const criterion of CRITERIA) {
+    combined[criterion] = weightedMean(scores.map(score => score[criterion]), weights);
+  }
+  return combined;
+}
+
+function sectionLabel(section: ContentSection, index: number): string {
+  return section.heading ?? `Section ${index + 1}`;
+}
+
+// Each section's text prefixed with its label, so combined feedback says where it applies
+function labelledText(texts: string[], labels: string[]): string {
+  return texts.map((text, index) => text && `[${labels[index]}] ${text}`).filter(Boolean).join(' ');
+}
+
+function combineWeightedRubrics(rubrics: RubricBreakdown[], weights: number[], labels: string[]): RubricBreakdown | undefined {
+  return combineRubrics(rubrics, scores => weightedMean(scores, weights), texts => labelledText(texts, labels));
+}
+
+function addUsage(total: TokenUsage | undefined, usage: TokenUsage | undefined): TokenUsage | undefined {
+  if (!usage) return total;
+  return {
+    promptTokens: (total?.promptTokens ?? 0) + usage.promptTokens,
+    completionTokens: (total?.completionTokens ?? 0) + usage.completionTokens,
+  };
+}
+
+// A sub-topic is as well covered in the document as in the section that covers it best
+function combineSectionCoverage(coverages: Array<SubTopicCoverage[] | undefined>, labels: string[]): SubTopicCoverage[] | undefined {
+  const reported = coverages.flatMap((coverage, index) => (coverage ?? []).map(item => ({ ...item, label: labels[index] ?? '' })));
+  if (reported.length === 0) return undefined;
+
+  const subTopics = [...new Set(reported.map(item => item.subTopic))];
+  return subTopics.map(subTopic => {
+    const entries = reported.filter(item => item.subTopic === subTopic);
+    const verdict = bestVerdict(entries.map(item => item.verdict));
+    // Notes from the sections with the best verdict, so "missing" elsewhere doesn't contradict it
+    const noted = entries.filter(item => item.verdict === verdict);
+    return {
+      subTopic,
+      verdict,
+      note: labelledText(noted.map(item => item.note), noted.map(item => item.label)),
+    };
+  });
+}
+
+// One model's results across sections as a single document-level result, so aggregation,
+// usage accounting and per-model storage work the same as for a document validated whole.
+// Calls in alreadyBilled (round 1 results reused as round 2) don't add their tokens again.
+function combineModelResults(
+  results: Array<{ result: ValidationOutput; weight: number; label: string }>,
+  missingSections: string[],
+  alreadyBilled: Set<ValidationOutput>
+): ValidationOutput {
+  const [first] = results;
+  const usable = results.filter(({ result }) => !result.error);
+  const usage = results
+    .filter(({ result }) => !alreadyBilled.has(result))
+    .reduce<TokenUsage | undefined>((total, { result }) => addUsage(total, result.usage), undefined);
+  const labels = usable.map(({ label }) => label);
+  const weights = usable.map(({ weight }) => weight);
+
+  const combined: ValidationOutput = {
+    provider: first!.result.provider,
+    ...(first!.result.llmProvider && { llmProvider: first!.result.llmProvider }),
+    ...(first!.result.modelVersion && { modelVersion: first!.result.modelVersion }),
+    scores: usable.length > 0
+      ? weightedScores(usable.map(({ result }) => result.scores), weights)
+      : { relevance: 0, continuity: 0, documentation: 0 },
+    feedback: {
+      relevance: labelledText(usable.map(({ result }) => result.feedback.relevance), labels),
+      continuity: labelledText(usable.map(({ result }) => result.feedback.continuity), labels),
+      documentation: labelledText(usable.map(({ result }) => result.feedback.documentation), labels),
+    },
+    issues: usable.flatMap(({ result }) => result.issues ?? []),
+    ...(usage && { usage }),
+  };
+  const subTopicCoverage = combineSectionCoverage(usable.map(({ result }) => result.subTopicCoverage), labels);
+  if (subTopicCoverage) {
+    combined.subTopicCoverage = subTopicCoverage;
+  }
+
+  // A model that missed any section has no score for the whole document, including sections it was
+  // never called for because its circuit opened partway through
+  if (usable.length < results.length || missingSections.length > 0) {
+    const failed = results.filter(({ result }) => result.error);
+    combined.error = [
+      ...failed.map(({ result, label }) => `${label}: ${result.error}`),
+      ...missingSections.map(label => `${label}: skipped while the provider was unavailable`),
+    ].join('; ');
+    return combined;
+  }
+
+  const rubrics = usable.map(({ result }) => result.rubric).filter((rubric): rubric is RubricBreakdown => rubric !== undefined);
+  const rubric = rubrics.length === usable.length ? combineWeightedRubrics(rubrics, weights, labels) : undefined;
+  return { ...combined, ...(rubric && { rubric }) };
+}
+
+// Group each section's calls by model, in the order the models first appear
+function modelKey(result: ValidationOutput): string {
+  return `${result.llmProvider ?? result.provider}:${result.modelVersion ?? ''}`;
+}
+
+function byModel(sectionResults: ValidationOutput[][], sections: ContentSection[], alreadyBilled = new Set<ValidationOutput>()) {
+  const models = new Map<string, Array<{ result: ValidationOutput; weight: number; label: string; index: number }>>();
+  sectionResults.forEach((results, index) => {
+    const section = sections[index]!;
+    for (const result of results) {
+      const key = modelKey(result);
+      const entries = models.get(key) ?? [];
+      entries.push({ result, weight: section.text.length, label: sectionLabel(section, index), index });
+      models.set(key, entries);
+    }
+  });
+  return [...models.values()].map(results => {
+    const called = new Set(results.map(({ index }) => index));
+    const missingSections = sections.map(sectionLabel).filter((_, index) => !called.has(index));
+    return combineModelResults(results, missingSections, alreadyBilled);
+  });
+}
+
+// Whether some model scored part of the document but not all of it, so the sections' final scores
+// don't all rest on the same models
+function hasUnevenCoverage(sectionResults: ValidationOutput[][]): boolean {
+  const scoredSections = new Map<string, number>();
+  for (const results of sectionResults) {
+    for (const result of results.filter(result => !result.error)) {
+      scoredSections.set(modelKey(result), (scoredSections.get(modelKey(result)) ?? 0) + 1);
+    }
+  }
+  return [...scoredSections.values()].some(count => count < sectionResults.length);
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!, index);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+// Validate long documents section by section (in parallel) and combine the section scores weighted by
+// length, with a per-section breakdown. Shorter documents go through runDualLLMValidation unchanged.
+export async function runDocumentValidation(
+  content: string,
+  assignmentContext?: AssignmentContext,
+  onProgress?: (event: ValidationProgressEvent) => Promise<void>,
+  options: DualValidationOptions = {}
+): Promise<DualValidationOutput> {
+  const sections = content.length > SECTIONING_THRESHOLD ? splitIntoSections(content) : [];
+  if (sections.length < 2) {
+    return runDualLLMValidation(content, assignmentContext, onProgress, options);
+  }
+
+  const startTime = Date.now();
+  console.log(`📑 Validating ${sections.length} sections of a ${content.length}-character document`);
+
+  // Progress is reported for the document as a whole: each stage once, calls counted across sections
+  const stagesStarted = new Set<ValidationStage>();
+  const completedCalls: Record<ValidationStage, number> = { round1: 0, round2: 0 };
+  const sectionProgress = async (event: ValidationProgressEvent) => {
+    if (event.type === 'stage') {
+      if (stagesStarted.has(event.stage)) return;
+      stagesStarted.add(event.stage);
+      await onProgress?.(event);
+    } else {
+      completedCalls[event.stage]++;
+      await onProgress?.({ ...event, completed: completedCalls[event.stage], total: event.total * sections.length });
+    }
+  };
+
+  const outline = sections.map(section => section.heading);
+  const sectionOutputs = await mapWithConcurrency(sections, SECTION_CONCURRENCY, (section, index) =>
+    runDualLLMValidation(section.text, assignmentContext, sectionProgress, {
+      ...options,
+      section: { index, count: sections.length, heading: section.heading, outline, document: content },
+    })
+  );
+
+  const round1Calls = sectionOutputs.map(output => output.round1Results);
+  const round1Results = byModel(round1Calls, sections);
+  const round2Results = byModel(sectionOutputs.map(output => output.round2Results), sections, new Set(round1Calls.flat()));
+
+  // Scoring the rest of the document without a section would overstate or understate it
+  const incomplete = sectionOutputs.flatMap((output, index) =>
+    output.status === 'incomplete' ? [`${sectionLabel(sections[index]!, index)}: ${output.reason}`] : []
+  );
+  if (incomplete.length > 0) {
+    return {
+      status: 'incomplete',
+      reason: incomplete.join('; '),
+      round1Results,
+      round2Results,
+      processingTime: Date.now() - startTime,
+    };
+  }
+
+  const completed = sectionOutputs as CompletedValidationOutput[];
+  const weights = sections.map(section => section.text.length);
+  const labels = sections.map(sectionLabel);
+  const [first] = completed;
+
+  const rubrics = completed.map(output => output.rubric).filter((rubric): rubric is RubricBreakdown => rubric !== undefined);
+  const rubric = rubrics.length === completed.length ? combineWeightedRubrics(rubrics, weights, labels) : undefined;
+
+  const disagreement = { relevance: 0, continuity: 0, documentation: 0, max: 0 };
+  for (const output of completed) {
+    for (const key of [...CRITERIA, 'max'] as const) {
+      disagreement[key] = Math.max(disagreement[key], output.disagreement[key]);
+    }
+  }
+
+  const sectionScores: SectionScore[] = completed.map((output, index) => ({
+    index,
+    heading: sections[index]!.heading,
+    length: sections[index]!.text.length,
+    finalScore: output.finalScore,
+    ...(output.rubric && { rubric: output.rubric }),
+    flaggedForReview: output.aggregation.flaggedForReview,
+  }));
+
+  return {
+    status: 'completed',
+    finalScore: weightedScores(completed.map(output => output.finalScore), weights),
+    finalFeedback: {
+      relevance: labelledText(completed.map(output => output.finalFeedback.relevance), labels),
+      continuity: labelledText(completed.map(output => output.finalFeedback.continuity), labels),
+      documentation: labelledText(completed.map(output => output.finalFeedback.documentation), labels),
+    },
+    round1Results,
+    round2Results,
+    // A section the models disagreed on can't pass on its own, so neither can the document; nor can one
+    // scored by fewer models than the rest
+    aggregation: {
+      ...first!.aggregation,
+      flaggedForReview: completed.some(output => output.aggregation.flaggedForReview)
+        || hasUnevenCoverage(completed.map(output => output.round2Results)),
+    },
+    disagreement,
+    ...(rubric && { rubric }),
+    ...(first!.templateVersions && { templateVersions: first!.templateVersions }),
+    sections: sectionScores,
+    processingTime: Date.now() - startTime,
+  };
+}
@@ -0,0 +1,48 @@
+// Linear interpolation between the closest ranks of an ascending list
+export function percentile(sorted: number[], p: number): number {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (index - lower);
+}
+
+export function round(n: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(n * factor) / factor;
+}
+
+export type ScoreSummary = {
+  mean: number;
+  stdDev: number;
+  min: number;
+  p25: number;
+  median: number;
+  p75: number;
+  max: number;
+  histogram: Array<{ from: number; to: number; count: number }>;
+};
+
+// Distribution of 0-100 scores, or null when there are none
+export function summarizeScores(scores: number[]): ScoreSummary | null {
+  if (scores.length === 0) return null;
+  const sorted = [...scores].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, score) => sum + score, 0) / sorted.length;
+  const variance = sorted.reduce((sum, score) => sum + (score - mean) ** 2, 0) / sorted.length;
+
+  // Ten buckets of ten points; 100 goes in the last one
+  const histogram = Array.from({ length: 10 }, (_, bucket) => ({ from: bucket * 10, to: bucket * 10 + 10, count: 0 }));
+  for (const score of sorted) {
+    histogram[Math.min(9, Math.max(0, Math.floor(score / 10)))]!.count++;
+  }
+
+  return {
+    mean: round(mean),
+    stdDev: round(Math.sqrt(variance)),
+    min: sorted[0]!,
+    p25: round(percentile(sorted, 0.25)),
+    median: round(percentile(sorted, 0.5)),
+    p75: round(percentile(sorted, 0.75)),
+    max: sorted[sorted.length - 1]!,
+    histogram,
+  };
+}
@@ -0,0 +1,51 @@
+import { createHash } from 'node:crypto';
+import type { RubricDefinition } from './rubrics.js';
+import type { LLMConfig, LLMProviderAdapter } from './validation.js';
+
+// A fraction in [0.55, 0.95) that only depends on the model, the prompt and what is being scored
+function stubFraction(modelName: string, prompt: string, key: string): number {
+  const hash = createHash('sha256').update(`${modelName}\n${key}\n${prompt}`).digest();
+  return 0.55 + (hash.readUInt16BE(0) / 0x10000) * 0.4;
+}
+
+function stubReply(config: LLMConfig, prompt: string, rubric?: RubricDefinition): string {
+  if (rubric) {
+    const scoreBreakdown = Object.fromEntries(
+      Object.entries(rubric.criteria).map(([key, criterion]) => [key, {
+        score: Math.round(criterion.maxScore * stubFraction(config.modelName, prompt, key)),
+        explanation: `Stub score for ${criterion.label}`,
+      }])
+    );
+    return JSON.stringify({
+      scoreBreakdown,
+      detailedFeedback: {
+        strengths: ['Stub provider: no model was called'],
+        weaknesses: [],
+        suggestion: 'Scores are deterministic placeholders for offline golden-set runs',
+      },
+    });
+  }
+
+  const score = (key: string) => Math.round(100 * stubFraction(config.modelName, prompt, key));
+  return JSON.stringify({
+    relevance: score('relevance'),
+    continuity: score('continuity'),
+    documentation: score('documentation'),
+    feedback: {
+      relevance: 'Stub provider: no model was called',
+      continuity: 'Stub provider: no model was called',
+      documentation: 'Stub provider: no model was called',
+    },
+  });
+}
+
+// Stands in for a configured model without any network call: the same prompt always gets the same
+// well-formed reply, so golden-set runs are repeatable offline and exercise rendering, parsing and aggregation
+export function createStubAdapter(config: LLMConfig, rubric?: RubricDefinition): LLMProviderAdapter {
+  return {
+    provider: 'stub',
+    label: `Stub (${config.modelName})`,
+    config,
+    complete: async (_systemMessage, prompt) => ({ text: stubReply(config, prompt, rubric), usage: null }),
+  };
+}
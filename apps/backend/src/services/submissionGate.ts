@@ -0,0 +1,199 @@
+import type { ContentType, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import type { TemplateVersions, ValidationOutput } from './validation.js';
+import type { AggregationOutcome, DisagreementMetric } from './scoreAggregation.js';
+import type { RubricBreakdown } from './rubrics.js';
+import { storedCoverageOf, type CombinedSubTopicCoverage } from './assignmentBrief.js';
+import { modelScoresOf } from './calibration.js';
+import { resolveTemplateVersions } from './templateVersions.js';
+
+export const GATE_CRITERIA = ['relevance', 'continuity', 'documentation'] as const;
+export type GateCriterion = typeof GATE_CRITERIA[number];
+
+export type SubmissionGateSettings = {
+  minOverallScore: number | null;
+  minCriterionScores: Partial<Record<GateCriterion, number>>;
+};
+
+export const DEFAULT_SUBMISSION_GATE: SubmissionGateSettings = {
+  minOverallScore: null,
+  minCriterionScores: {},
+};
+
+export type GateShortfall = {
+  criterion: 'overall' | GateCriterion;
+  score: number;
+  minimum: number;
+};
+
+// Response body of a completed CONTENT or ASSIGNMENT validation job (see buildJobResult),
+// which a re-validation's result is read into too
+export type ServerValidationResult = {
+  status: 'completed';
+  criteria: Record<GateCriterion, { score: number; feedback: string }> & Record<string, unknown>;
+  overall: number;
+  processingTime: number;
+  aggregation?: AggregationOutcome;
+  disagreement?: DisagreementMetric;
+  templateVersions?: TemplateVersions | null;
+  subTopicCoverage?: CombinedSubTopicCoverage[] | null;
+  dualValidationDetails?: { round1: ValidationOutput[]; round2: ValidationOutput[] };
+} & Record<string, unknown>;
+
+// Response body of a completed REVALIDATE job, which reports its final scores under dualValidationDetails
+// next to the per-model rows it stored
+type RevalidationJobResult = {
+  status: 'completed';
+  overallScore: number;
+  processingTimeMs: number;
+  subTopicCoverage?: CombinedSubTopicCoverage[] | null;
+  dualValidationDetails: {
+    round1: ValidationOutput[];
+    round2: ValidationOutput[];
+    finalScore: Record<GateCriterion, number>;
+    finalFeedback: Record<GateCriterion, string>;
+    aggregation?: AggregationOutcome;
+    disagreement?: DisagreementMetric;
+    templateVersions?: TemplateVersions | null;
+    rubric?: RubricBreakdown;
+  };
+};
+
+function serverValidationOfRevalidation(result: RevalidationJobResult): ServerValidationResult {
+  const details = result.dualValidationDetails;
+  const criteria = Object.fromEntries(GATE_CRITERIA.map(criterion => [
+    criterion,
+    { score: details.finalScore[criterion], feedback: details.finalFeedback[criterion] },
+  ])) as Record<GateCriterion, { score: number; feedback: string }>;
+
+  return {
+    status: 'completed',
+    criteria: { ...criteria, ...(details.rubric && { rubric: details.rubric }) },
+    overall: result.overallScore,
+    processingTime: result.processingTimeMs,
+    ...(details.aggregation && { aggregation: details.aggregation }),
+    ...(details.disagreement && { disagreement: details.disagreement }),
+    templateVersions: details.templateVersions ?? null,
+    subTopicCoverage: result.subTopicCoverage ?? null,
+    dualValidationDetails: { round1: details.round1, round2: details.round2 },
+  };
+}
+
+const CRITERION_LABELS: Record<GateShortfall['criterion'], string> = {
+  overall: 'Overall',
+  relevance: 'Relevance',
+  continuity: 'Continuity',
+  documentation: 'Documentation',
+};
+
+export async function getSubmissionGateSettings(contentType: ContentType): Promise<SubmissionGateSettings> {
+  const setting = await prisma.submissionGateSetting.findUnique({ where: { contentType } });
+  return setting
+    ? {
+        minOverallScore: setting.minOverallScore,
+        minCriterionScores: setting.minCriterionScores as SubmissionGateSettings['minCriterionScores'],
+      }
+    : DEFAULT_SUBMISSION_GATE;
+}
+
+function hasMinimums(settings: SubmissionGateSettings): boolean {
+  return settings.minOverallScore !== null || Object.keys(settings.minCriterionScores).length > 0;
+}
+
+// The newest validation the server itself ran for the content, with the hash of the text it ran on.
+// result is null when that run was incomplete; an older completed run never stands in for it.
+// Cache hits are recorded as completed jobs too (see recordCachedValidationJob).
+export async function findLatestServerValidation(contentId: string) {
+  const job = await prisma.validationJob.findFirst({
+    where: { contentId, kind: { in: ['CONTENT', 'ASSIGNMENT', 'REVALIDATE'] }, status: 'COMPLETED' },
+    select: { id: true, kind: true, contentHash: true, result: true },
+    orderBy: { completedAt: 'desc' },
+  });
+  if (!job) return null;
+
+  const result = job.result as { status?: unknown } | null;
+  const completed = result?.status === 'completed'
+    ? job.kind === 'REVALIDATE'
+      ? serverValidationOfRevalidation(result as RevalidationJobResult)
+      : result as ServerValidationResult
+    : null;
+  return { jobId: job.id, contentHash: job.contentHash, result: completed };
+}
+
+// Provider and model a stored result is attributed to: the one model that scored it, or a combined
+// label naming each model whose round 2 scores were aggregated
+function modelLabelOf(result: ServerValidationResult) {
+  const round1 = result.dualValidationDetails?.round1 ?? [];
+  const round2 = result.dualValidationDetails?.round2 ?? [];
+  const usable = round2.some(output => !output.error) ? round2 : round1;
+  const models = usable
+    .filter(output => !output.error)
+    .map(output => ({ llmProvider: output.llmProvider ?? 'LOCAL', modelVersion: output.modelVersion ?? output.provider }));
+  const versions = [...new Set(models.map(model => model.modelVersion))];
+
+  return {
+    llmProvider: models[0]?.llmProvider ?? 'LOCAL',
+    modelVersion: versions.length === 1 ? versions[0]! : `combined: ${versions.join(' + ') || 'unknown'}`,
+  };
+}
+
+// ValidationResult row for a server validation of the content as it stands, kept when the content is
+// submitted for review or linked to its assignment
+export async function validationResultDataOf(
+  contentId: string,
+  validation: { contentHash: string | null; result: ServerValidationResult },
+  content: string,
+  guidelines: string | null | undefined
+): Promise<Prisma.ValidationResultUncheckedCreateInput> {
+  const { result } = validation;
+  // Prompt and guidelines versions the validation run was rendered from
+  const templateVersions = await resolveTemplateVersions(result.templateVersions);
+  const modelScores = modelScoresOf(result.dualValidationDetails?.round2);
+  const subTopicCoverage = storedCoverageOf(result.subTopicCoverage, content, guidelines);
+
+  return {
+    contentId,
+    ...modelLabelOf(result),
+    contentHash: validation.contentHash,
+    criteria: result.criteria as Prisma.InputJsonValue,
+    overallScore: result.overall,
+    processingTimeMs: result.processingTime,
+    aggregationStrategy: result.aggregation?.strategy ?? null,
+    agreementThreshold: result.aggregation?.agreementThreshold ?? null,
+    disagreementThreshold: result.aggregation?.disagreementThreshold ?? null,
+    flaggedForReview: result.aggregation?.flaggedForReview ?? false,
+    ...(result.disagreement && { disagreement: result.disagreement }),
+    maxDisagreement: result.disagreement?.max ?? null,
+    ...(modelScores && { modelScores }),
+    ...(subTopicCoverage && { subTopicCoverage }),
+    ...templateVersions,
+  };
+}
+
+// Which minimums the result misses. A result the models disagreed on can't pass a configured
+// gate on its own, the same way it can't auto-pass review.
+export function evaluateSubmissionGate(result: ServerValidationResult, settings: SubmissionGateSettings) {
+  const shortfalls: GateShortfall[] = [];
+
+  if (settings.minOverallScore !== null && result.overall < settings.minOverallScore) {
+    shortfalls.push({ criterion: 'overall', score: result.overall, minimum: settings.minOverallScore });
+  }
+  for (const criterion of GATE_CRITERIA) {
+    const minimum = settings.minCriterionScores[criterion];
+    const score = result.criteria[criterion]?.score;
+    if (minimum !== undefined && typeof score === 'number' && score < minimum) {
+      shortfalls.push({ criterion, score, minimum });
+    }
+  }
+
+  const flaggedForReview = hasMinimums(settings) && (result.aggregation?.flaggedForReview ?? false);
+  return { passed: shortfalls.length === 0 && !flaggedForReview, shortfalls, flaggedForReview };
+}
+
+export function describeGateFailure(evaluation: ReturnType<typeof evaluateSubmissionGate>): string {
+  const reasons = evaluation.shortfalls.map(({ criterion, score, minimum }) => `${CRITERION_LABELS[criterion]} ${score} (minimum ${minimum})`);
+  if (evaluation.flaggedForReview) {
+    reasons.push('the models disagreed too much for the score to be relied on');
+  }
+  return `Content does not meet the minimum validation scores for submission: ${reasons.join('; ')}`;
+}
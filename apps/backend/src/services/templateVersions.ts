@@ -0,0 +1,145 @@
+import type { ContentType } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import type { TemplateVersions } from './validation.js';
+
+const createdByInclude = {
+  createdBy: {
+    select: { name: true, email: true }
+  }
+} as const;
+
+// Saving a template never edits a row: it adds the next version for the content type and makes it the active one
+export async function createPromptVersion(data: { name: string; contentType: ContentType; prompt: string; createdById: string }) {
+  return prisma.$transaction(async (tx) => {
+    const lastVersion = await tx.promptTemplate.findFirst({
+      where: { contentType: data.contentType },
+      orderBy: { version: 'desc' },
+      select: { version: true }
+    });
+
+    await tx.promptTemplate.updateMany({
+      where: { contentType: data.contentType, isActive: true },
+      data: { isActive: false }
+    });
+
+    return tx.promptTemplate.create({
+      data: { ...data, version: (lastVersion?.version ?? 0) + 1, isActive: true },
+      include: createdByInclude
+    });
+  });
+}
+
+export async function createGuidelinesVersion(data: { name: string; contentType: ContentType; guidelines: string; createdById: string }) {
+  return prisma.$transaction(async (tx) => {
+    const lastVersion = await tx.guidelinesTemplate.findFirst({
+      where: { contentType: data.contentType },
+      orderBy: { version: 'desc' },
+      select: { version: true }
+    });
+
+    await tx.guidelinesTemplate.updateMany({
+      where: { contentType: data.contentType, isActive: true },
+      data: { isActive: false }
+    });
+
+    return tx.guidelinesTemplate.create({
+      data: { ...data, version: (lastVersion?.version ?? 0) + 1, isActive: true },
+      include: createdByInclude
+    });
+  });
+}
+
+// Make an earlier version the active one again; history is left untouched
+export async function activatePromptVersion(id: string) {
+  return prisma.$transaction(async (tx) => {
+    const target = await tx.promptTemplate.findUniqueOrThrow({ where: { id } });
+    await tx.promptTemplate.updateMany({
+      where: { contentType: target.contentType, isActive: true },
+      data: { isActive: false }
+    });
+    return tx.promptTemplate.update({
+      where: { id },
+      data: { isActive: true },
+      include: createdByInclude
+    });
+  });
+}
+
+export async function activateGuidelinesVersion(id: string) {
+  return prisma.$transaction(async (tx) => {
+    const target = await tx.guidelinesTemplate.findUniqueOrThrow({ where: { id } });
+    await tx.guidelinesTemplate.updateMany({
+      where: { contentType: target.contentType, isActive: true },
+      data: { isActive: false }
+    });
+    return tx.guidelinesTemplate.update({
+      where: { id },
+      data: { isActive: true },
+      include: createdByInclude
+    });
+  });
+}
+
+// Version ids reported by a client-side run, keeping only ones that exist so a stale id can't fail the write
+export async function resolveTemplateVersions(versions: Partial<TemplateVersions> | null | undefined): Promise<TemplateVersions> {
+  const [promptTemplate, guidelinesTemplate, experimentVariant] = await Promise.all([
+    versions?.promptTemplateId
+      ? prisma.promptTemplate.findUnique({ where: { id: versions.promptTemplateId }, select: { id: true } })
+      : null,
+    versions?.guidelinesTemplateId
+      ? prisma.guidelinesTemplate.findUnique({ where: { id: versions.guidelinesTemplateId }, select: { id: true } })
+      : null,
+    versions?.experimentVariantId
+      ? prisma.promptExperimentVariant.findUnique({ where: { id: versions.experimentVariantId }, select: { id: true } })
+      : null,
+  ]);
+  return {
+    promptTemplateId: promptTemplate?.id ?? null,
+    guidelinesTemplateId: guidelinesTemplate?.id ?? null,
+    experimentVariantId: experimentVariant?.id ?? null,
+  };
+}
+
+export type DiffLine = {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+  // 1-based line numbers in the old and new text; null on the side the line is missing from
+  oldLine: number | null;
+  newLine: number | null;
+};
+
+// Line diff from the longest common subsequence; templates are a few hundred lines at most
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+  const rows = oldLines.length + 1;
+  const cols = newLines.length + 1;
+
+  // lcs[i * cols + j] is the LCS length of oldLines[i..] and newLines[j..]
+  const lcs = new Uint32Array(rows * cols);
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = oldLines[i] === newLines[j]
+        ? lcs[(i + 1) * cols + j + 1]! + 1
+        : Math.max(lcs[(i + 1) * cols + j]!, lcs[i * cols + j + 1]!);
+    }
+  }
+
+  const diff: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      diff.push({ type: 'same', text: oldLines[i]!, oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (i < oldLines.length && (j === newLines.length || lcs[(i + 1) * cols + j]! >= lcs[i * cols + j + 1]!)) {
+      diff.push({ type: 'removed', text: oldLines[i]!, oldLine: i + 1, newLine: null });
+      i++;
+    } else {
+      diff.push({ type: 'added', text: newLines[j]!, oldLine: null, newLine: j + 1 });
+      j++;
+    }
+  }
+  return diff;
+}
@@ -0,0 +1,108 @@
+import { createHash } from 'node:crypto';
+import type { ContentType, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { getAggregationSettings } from './scoreAggregation.js';
+import { pickExperimentVariant } from './promptExperiments.js';
+import { getActiveRubric } from './rubricDefinitions.js';
+import { getLLMConfigurations, sanitizeContent, type AssignmentContext, type DualValidationOutput } from './validation.js';
+
+// Hash everything that can change what the LLMs return for this content
+export async function computeValidationCacheKey(content: string, assignmentContext?: AssignmentContext): Promise<string> {
+  const contentType = assignmentContext?.contentType;
+  const sanitizedContent = sanitizeContent(content);
+
+  // A running experiment decides the prompt template, so its variant is part of the key
+  const experimentAssignment = contentType ? await pickExperimentVariant(contentType, sanitizedContent) : null;
+
+  const [promptTemplate, guidelinesTemplate, rubric, llmConfigs, aggregationSettings] = await Promise.all([
+    experimentAssignment
+      ? {
+          id: experimentAssignment.promptTemplate.id,
+          version: experimentAssignment.promptTemplate.version,
+          updatedAt: experimentAssignment.promptTemplate.updatedAt,
+          experimentVariantId: experimentAssignment.variantId,
+        }
+      : contentType
+      ? prisma.promptTemplate.findFirst({
+          where: { contentType, isActive: true },
+          orderBy: { version: 'desc' },
+          select: { id: true, version: true, updatedAt: true },
+        })
+      : null,
+    contentType
+      ? prisma.guidelinesTemplate.findFirst({
+          where: { contentType, isActive: true },
+          orderBy: { version: 'desc' },
+          select: { id: true, version: true, updatedAt: true },
+        })
+      : null,
+    // The whole definition, so edits to an active rubric or the built-in one are picked up too
+    contentType ? getActiveRubric(contentType) : null,
+    getLLMConfigurations(),
+    getAggregationSettings(contentType),
+  ]);
+
+  const keyMaterial = {
+    content: sanitizedContent,
+    assignmentContext: assignmentContext
+      ? {
+          topic: assignmentContext.topic,
+          topicsTaughtSoFar: assignmentContext.topicsTaughtSoFar,
+          contentType: assignmentContext.contentType ?? null,
+          difficulty: assignmentContext.difficulty ?? null,
+          guidelines: assignmentContext.guidelines ?? null,
+          dueDate: assignmentContext.dueDate ?? null,
+          curriculumConcepts: assignmentContext.curriculumConcepts ?? null,
+        }
+      : null,
+    promptTemplate,
+    guidelinesTemplate,
+    rubric,
+    llmConfigs: llmConfigs.map(({ provider, modelName, temperature, maxTokens, apiEndpoint, priority, weight }) => ({
+      provider, modelName, temperature, maxTokens, apiEndpoint, priority, weight,
+    })),
+    aggregationSettings,
+  };
+
+  return createHash('sha256').update(JSON.stringify(keyMaterial)).digest('hex');
+}
+
+export async function getCachedValidation(key: string): Promise<DualValidationOutput | null> {
+  try {
+    const entry = await prisma.validationCache.findUnique({ where: { key } });
+    return entry ? (entry.dualResult as unknown as DualValidationOutput) : null;
+  } catch (error) {
+    console.error('Error reading validation cache:', error);
+    return null;
+  }
+}
+
+// Runs where any provider call failed are not cached, so the next request retries them
+export async function storeCachedValidation(key: string, contentType: ContentType | undefined, dualResult: DualValidationOutput) {
+  const hasFailedCalls = [...dualResult.round1Results, ...dualResult.round2Results].some(result => result.error);
+  if (hasFailedCalls) {
+    return;
+  }
+
+  try {
+    await prisma.validationCache.upsert({
+      where: { key },
+      create: { key, contentType: contentType ?? null, dualResult: dualResult as unknown as Prisma.InputJsonValue },
+      update: { dualResult: dualResult as unknown as Prisma.InputJsonValue, createdAt: new Date() },
+    });
+  } catch (error) {
+    console.error('Error writing validation cache:', error);
+  }
+}
+
+// Called when a super admin edits a prompt, guidelines template or score aggregation setting for a content type
+export async function invalidateValidationCache(contentType: ContentType) {
+  try {
+    const { count } = await prisma.validationCache.deleteMany({ where: { contentType } });
+    if (count > 0) {
+      console.log(`🧹 Invalidated ${count} cached ${contentType} validations`);
+    }
+  } catch (error) {
+    console.error('Error invalidating validation cache:', error);
+  }
+}
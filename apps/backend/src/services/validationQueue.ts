@@ -0,0 +1,571 @@
+import type { ContentStatus, Prisma, ValidationJob, ValidationJobKind, ValidationJobStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import type { AssignmentContext, CompletedValidationOutput, CriteriaScores, DualValidationOutput, ValidationOutput, ValidationStage } from './validation.js';
+import type { RubricBreakdown } from './rubrics.js';
+import { locateIssues, type LocatedIssue } from './issueLocations.js';
+import { runDocumentValidation } from './sectionValidation.js';
+import { combineSubTopicCoverage, hasAssignmentBrief } from './assignmentBrief.js';
+import { checkPrerequisites, hasCurriculumConcepts, prerequisiteFeedbackOf, prerequisiteIssuesOf } from './prerequisiteCheck.js';
+import { getCachedValidation, storeCachedValidation } from './validationCache.js';
+import { recordValidationUsage } from './llmUsage.js';
+
+export type ValidationJobPayload = {
+  content: string;
+  assignmentContext?: AssignmentContext | undefined;
+  // Preprocessing report from POST /api/validate, echoed back in the result
+  preprocessing?: unknown;
+  // The text as submitted, when preprocessing changed it; issue offsets point into this
+  sourceText?: string | undefined;
+  // See computeValidationCacheKey; the job's output is cached under it
+  cacheKey?: string | undefined;
+};
+
+export type ValidationJobProgress = 'queued' | 'round1' | 'round2' | 'done' | 'failed';
+
+const POLL_INTERVAL_MS = 1000;
+const MAX_CONCURRENT_JOBS = 2;
+// Running jobs touch updatedAt this often, so they can be told apart from jobs a dead process left in flight
+const HEARTBEAT_MS = 60 * 1000;
+// In-flight jobs without a heartbeat for this long (e.g. their instance died) are picked up again
+const STALE_JOB_MS = 10 * 60 * 1000;
+const STALE_SWEEP_MS = 60 * 1000;
+
+const IN_FLIGHT_STATUSES: ValidationJobStatus[] = ['QUEUED', 'ROUND_1', 'ROUND_2'];
+
+const STAGE_STATUS: Record<ValidationStage, ValidationJobStatus> = {
+  round1: 'ROUND_1',
+  round2: 'ROUND_2',
+};
+
+const STATUS_PROGRESS: Record<ValidationJobStatus, ValidationJobProgress> = {
+  QUEUED: 'queued',
+  ROUND_1: 'round1',
+  ROUND_2: 'round2',
+  COMPLETED: 'done',
+  FAILED: 'failed',
+};
+
+export function getJobProgress(status: ValidationJobStatus): ValidationJobProgress {
+  return STATUS_PROGRESS[status];
+}
+
+// Persist a job and move its content (if any) to VALIDATING until the worker finishes it
+export async function enqueueValidationJob(params: {
+  kind: ValidationJobKind;
+  payload: ValidationJobPayload;
+  requestedById: string;
+  contentId?: string | undefined;
+  contentHash: string;
+}): Promise<ValidationJob> {
+  const { kind, payload, requestedById, contentId, contentHash } = params;
+
+  return prisma.$transaction(async (tx) => {
+    let linkedContentId: string | null = null;
+    let previousContentStatus: ContentStatus | null = null;
+
+    if (contentId) {
+      const content = await tx.content.findUnique({
+        where: { id: contentId },
+        select: { status: true },
+      });
+
+      if (content) {
+        linkedContentId = contentId;
+        previousContentStatus = content.status;
+
+        // Another job is already running for this content, restore what it will restore
+        if (content.status === 'VALIDATING') {
+          const inFlightJob = await tx.validationJob.findFirst({
+            where: { contentId, status: { in: IN_FLIGHT_STATUSES } },
+            orderBy: { createdAt: 'asc' },
+            select: { previousContentStatus: true },
+          });
+          previousContentStatus = inFlightJob?.previousContentStatus ?? 'DRAFT';
+        }
+
+        await tx.content.update({
+          where: { id: contentId },
+          data: { status: 'VALIDATING' },
+        });
+      }
+    }
+
+    return tx.validationJob.create({
+      data: {
+        kind,
+        payload: payload as Prisma.InputJsonValue,
+        requestedById,
+        contentId: linkedContentId,
+        previousContentStatus,
+        contentHash,
+      },
+    });
+  });
+}
+
+// Atomically move the oldest queued job to ROUND_1 so concurrent workers never share a job
+async function claimNextJob(): Promise<ValidationJob | null> {
+  const claimed = await prisma.$queryRaw<Array<{ id: string }>>`
+    UPDATE "ValidationJob"
+    SET status = 'ROUND_1', events = '[]', "startedAt" = NOW(), "updatedAt" = NOW()
+    WHERE id = (
+      SELECT id FROM "ValidationJob"
+      WHERE status = 'QUEUED'
+      ORDER BY "createdAt" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id
+  `;
+
+  const [row] = claimed;
+  return row ? prisma.validationJob.findUnique({ where: { id: row.id } }) : null;
+}
+
+// A rubric's criterion scores already add up to a total out of 100
+export function overallOf(scores: CriteriaScores, rubric?: RubricBreakdown): number {
+  return rubric ? rubric.overallScore : Math.round((scores.relevance + scores.continuity + scores.documentation) / 3);
+}
+
+function issuesFor(issues: LocatedIssue[], criterion: keyof CriteriaScores) {
+  return issues.filter(issue => issue.criterion === criterion);
+}
+
+// Concepts the content uses before the curriculum introduces them; null when its topic has no curriculum concepts
+function prerequisiteWarningsOf(payload: ValidationJobPayload) {
+  const concepts = payload.assignmentContext?.curriculumConcepts;
+  return hasCurriculumConcepts(concepts) ? checkPrerequisites(payload.content, concepts).warnings : null;
+}
+
+// Issues the models that answered in round 2 quoted, plus the prerequisite warnings, located in the text
+// the creator submitted
+function locatedIssuesOf(results: ValidationOutput[], payload: ValidationJobPayload): LocatedIssue[] {
+  return locateIssues(
+    payload.sourceText ?? payload.content,
+    [
+      ...results.filter(result => !result.error).flatMap(result => result.issues ?? []),
+      ...prerequisiteIssuesOf(prerequisiteWarningsOf(payload) ?? []),
+    ]
+  );
+}
+
+// The models' continuity feedback, followed by the concepts used before they are taught
+function continuityFeedbackOf(feedback: string, payload: ValidationJobPayload): string {
+  return [feedback, prerequisiteFeedbackOf(prerequisiteWarningsOf(payload) ?? [])].filter(Boolean).join(' ');
+}
+
+// Per-section breakdown of a long document, so creators can see which section pulls the score down
+function sectionsOf(dualResult: CompletedValidationOutput) {
+  return dualResult.sections?.map(section => ({
+    index: section.index,
+    heading: section.heading,
+    length: section.length,
+    scores: section.finalScore,
+    overall: overallOf(section.finalScore, section.rubric),
+    flaggedForReview: section.flaggedForReview,
+  })) ?? null;
+}
+
+// The assignment brief the content was validated against
+function assignmentBriefResultOf(payload: ValidationJobPayload) {
+  const assignmentContext = payload.assignmentContext;
+  return {
+    topic: assignmentContext?.topic,
+    topicsTaughtSoFar: assignmentContext?.topicsTaughtSoFar,
+    difficulty: assignmentContext?.difficulty ?? null,
+    dueDate: assignmentContext?.dueDate ?? null,
+    hasGuidelines: hasAssignmentBrief(assignmentContext),
+    guidelines: assignmentContext?.guidelines ?? null,
+  };
+}
+
+// Covered/partial/missing verdict per sub-topic of the assignment; null when it lists none
+function subTopicCoverageOf(dualResult: CompletedValidationOutput, payload: ValidationJobPayload) {
+  const subTopics = payload.assignmentContext?.subTopics ?? [];
+  return subTopics.length > 0 ? combineSubTopicCoverage(dualResult.round2Results, subTopics, payload.content) : null;
+}
+
+function criteriaOf(dualResult: CompletedValidationOutput, payload: ValidationJobPayload) {
+  const issues = locatedIssuesOf(dualResult.round2Results, payload);
+  return {
+    relevance: {
+      score: dualResult.finalScore.relevance,
+      confidence: 0.95, // High confidence from dual validation
+      feedback: dualResult.finalFeedback.relevance,
+      issues: issuesFor(issues, 'relevance')
+    },
+    continuity: {
+      score: dualResult.finalScore.continuity,
+      confidence: 0.95,
+      feedback: continuityFeedbackOf(dualResult.finalFeedback.continuity, payload),
+      issues: issuesFor(issues, 'continuity')
+    },
+    documentation: {
+      score: dualResult.finalScore.documentation,
+      confidence: 0.95,
+      feedback: dualResult.finalFeedback.documentation,
+      issues: issuesFor(issues, 'documentation')
+    },
+    ...(dualResult.rubric && { rubric: dualResult.rubric }),
+  };
+}
+
+type JobTarget = {
+  kind: ValidationJobKind;
+  contentId: string | null;
+  contentHash: string | null;
+  // Served from the cache, so ValidationResult rows from the original run can be reused
+  cached?: boolean;
+};
+
+// Build the response body each endpoint used to return synchronously
+async function buildJobResult(target: JobTarget, payload: ValidationJobPayload, dualResult: DualValidationOutput, processingTime: number) {
+  // No usable assessment: report that rather than a zero score, and store nothing
+  if (dualResult.status === 'incomplete') {
+    return {
+      status: dualResult.status,
+      reason: dualResult.reason,
+      processingTime: dualResult.processingTime,
+      dualValidationDetails: {
+        round1: dualResult.round1Results,
+        round2: dualResult.round2Results
+      }
+    };
+  }
+
+  if (target.kind === 'CONTENT') {
+    return {
+      status: dualResult.status,
+      criteria: criteriaOf(dualResult, payload),
+      overall: overallOf(dualResult.finalScore, dualResult.rubric),
+      processingTime: dualResult.processingTime,
+      confidence: 0.95,
+      aggregation: dualResult.aggregation,
+      disagreement: dualResult.disagreement,
+      templateVersions: dualResult.templateVersions ?? null,
+      sections: sectionsOf(dualResult),
+      // Content linked to an assignment is validated against its brief
+      ...(hasAssignmentBrief(payload.assignmentContext) && { assignmentContext: assignmentBriefResultOf(payload) }),
+      subTopicCoverage: subTopicCoverageOf(dualResult, payload),
+      prerequisiteWarnings: prerequisiteWarningsOf(payload),
+      preprocessing: payload.preprocessing,
+      // Include detailed dual validation results for debugging
+      dualValidationDetails: {
+        round1: dualResult.round1Results,
+        round2: dualResult.round2Results
+      }
+    };
+  }
+
+  if (target.kind === 'ASSIGNMENT') {
+    return {
+      status: dualResult.status,
+      criteria: criteriaOf(dualResult, payload),
+      overall: overallOf(dualResult.finalScore, dualResult.rubric),
+      processingTime: dualResult.processingTime,
+      confidence: 0.95,
+      aggregation: dualResult.aggregation,
+      disagreement: dualResult.disagreement,
+      templateVersions: dualResult.templateVersions ?? null,
+      sections: sectionsOf(dualResult),
+      assignmentContext: assignmentBriefResultOf(payload),
+      subTopicCoverage: subTopicCoverageOf(dualResult, payload),
+      prerequisiteWarnings: prerequisiteWarningsOf(payload),
+      // Include detailed dual validation results for debugging
+      dualValidationDetails: {
+        round1: dualResult.round1Results,
+        round2: dualResult.round2Results
+      }
+    };
+  }
+
+  // REVALIDATE: store Round 2 results (final scores) from every configured model
+  const contentId = target.contentId;
+  if (!contentId) {
+    throw new Error('Content for re-validation no longer exists');
+  }
+
+  // A cache hit reuses the rows stored for this content by the original run
+  const validationResults = target.cached && payload.cacheKey
+    ? await prisma.validationResult.findMany({
+        where: { contentId, cacheKey: payload.cacheKey },
+        orderBy: { createdAt: 'asc' }
+      })
+    : [];
+
+  if (validationResults.length > 0) {
+    console.log(`Reusing ${validationResults.length} stored validation results`);
+  } else {
+    try {
+      // The run's matrix is stored on every row, like its disagreement
+      const subTopicCoverage = subTopicCoverageOf(dualResult, payload);
+      // Failed calls only carry placeholder zeros, so only the models that answered are stored
+      const usableResults = dualResult.round2Results.filter(result => !result.error);
+      console.log(`Storing ${usableResults.length} validation results`);
+
+      for (const result of usableResults) {
+        const issues = locatedIssuesOf([result], payload);
+        const validationResult = await prisma.validationResult.create({
+          data: {
+            contentId,
+            llmProvider: result.llmProvider ?? 'LOCAL',
+            modelVersion: result.modelVersion ?? result.provider,
+            criteria: {
+              relevance: { score: result.scores.relevance, feedback: result.feedback.relevance, issues: issuesFor(issues, 'relevance') },
+              continuity: { score: result.scores.continuity, feedback: continuityFeedbackOf(result.feedback.continuity, payload), issues: issuesFor(issues, 'continuity') },
+              documentation: { score: result.scores.documentation, feedback: result.feedback.documentation, issues: issuesFor(issues, 'documentation') },
+              ...(result.rubric && { rubric: result.rubric })
+            },
+            overallScore: overallOf(result.scores, result.rubric),
+            processingTimeMs: processingTime,
+            cacheKey: payload.cacheKey ?? null,
+            contentHash: target.contentHash,
+            aggregationStrategy: dualResult.aggregation.strategy,
+            agreementThreshold: dualResult.aggregation.agreementThreshold,
+            flaggedForReview: dualResult.aggregation.flaggedForReview,
+            disagreement: dualResult.disagreement,
+            maxDisagreement: dualResult.disagreement.max,
+            promptTemplateId: dualResult.templateVersions?.promptTemplateId ?? null,
+            guidelinesTemplateId: dualResult.templateVersions?.guidelinesTemplateId ?? null,
+            experimentVariantId: dualResult.templateVersions?.experimentVariantId ?? null,
+            ...(subTopicCoverage && { subTopicCoverage }),
+          },
+        });
+        validationResults.push(validationResult);
+      }
+    } catch (dbError) {
+      console.error('Error storing validation results:', dbError);
+      // Continue with the result even if database storage fails
+    }
+  }
+
+  const overallScore = overallOf(dualResult.finalScore, dualResult.rubric);
+  console.log(`Final overall score: ${overallScore}`);
+
+  return {
+    status: dualResult.status,
+    validationResults,
+    overallScore,
+    subTopicCoverage: subTopicCoverageOf(dualResult, payload),
+    prerequisiteWarnings: prerequisiteWarningsOf(payload),
+    confidence: 95, // High confidence from dual validation
+    processingTimeMs: processingTime,
+    // Include detailed dual validation results for debugging
+    dualValidationDetails: {
+      round1: dualResult.round1Results,
+      round2: dualResult.round2Results,
+      finalScore: dualResult.finalScore,
+      finalFeedback: dualResult.finalFeedback,
+      aggregation: dualResult.aggregation,
+      disagreement: dualResult.disagreement,
+      templateVersions: dualResult.templateVersions ?? null,
+      sections: sectionsOf(dualResult),
+      ...(dualResult.rubric && { rubric: dualResult.rubric })
+    }
+  };
+}
+
+// Response body for an identical earlier run, or null when nothing is cached for the payload
+export async function resolveCachedValidation(kind: ValidationJobKind, payload: ValidationJobPayload, contentHash: string, contentId?: string) {
+  if (!payload.cacheKey) {
+    return null;
+  }
+
+  const dualResult = await getCachedValidation(payload.cacheKey);
+  if (!dualResult) {
+    return null;
+  }
+
+  const result = await buildJobResult({ kind, contentId: contentId ?? null, contentHash, cached: true }, payload, dualResult, 0);
+  return { ...result, cached: true };
+}
+
+// Keep a completed job for a cache hit on saved content, so the submit gate can find the result the server served
+export async function recordCachedValidationJob(params: {
+  kind: ValidationJobKind;
+  payload: ValidationJobPayload;
+  requestedById: string;
+  contentId: string;
+  contentHash: string;
+  result: unknown;
+}) {
+  const now = new Date();
+  await prisma.validationJob.create({
+    data: {
+      kind: params.kind,
+      status: 'COMPLETED',
+      payload: params.payload as Prisma.InputJsonValue,
+      result: params.result as Prisma.InputJsonValue,
+      requestedById: params.requestedById,
+      contentId: params.contentId,
+      contentHash: params.contentHash,
+      startedAt: now,
+      completedAt: now,
+    },
+  });
+}
+
+// Appended in SQL so calls finishing at the same time don't overwrite each other
+async function appendJobEvent(jobId: string, event: Record<string, unknown>) {
+  await prisma.$executeRaw`
+    UPDATE "ValidationJob"
+    SET events = events || ${JSON.stringify([event])}::jsonb, "updatedAt" = NOW()
+    WHERE id = ${jobId}
+  `;
+}
+
+// Record the outcome and, once no other job is running for the content, restore its status
+async function finishJob(job: ValidationJob, outcome: { status: 'COMPLETED'; result: Prisma.InputJsonValue } | { status: 'FAILED'; error: string }) {
+  await prisma.$transaction(async (tx) => {
+    await tx.validationJob.update({
+      where: { id: job.id },
+      data: { ...outcome, completedAt: new Date() },
+    });
+
+    if (job.contentId && job.previousContentStatus) {
+      const stillInFlight = await tx.validationJob.count({
+        where: { contentId: job.contentId, status: { in: IN_FLIGHT_STATUSES } },
+      });
+
+      if (stillInFlight === 0) {
+        await tx.content.updateMany({
+          where: { id: job.contentId, status: 'VALIDATING' },
+          data: { status: job.previousContentStatus },
+        });
+      }
+    }
+  });
+}
+
+async function processJob(job: ValidationJob) {
+  const payload = job.payload as ValidationJobPayload;
+  const start = Date.now();
+
+  console.log(`🔄 Processing validation job ${job.id} (${job.kind})`);
+  console.log(`Content length: ${payload.content.length} characters`);
+  console.log(`Assignment context: ${payload.assignmentContext ? 'Present' : 'Not present'}`);
+
+  try {
+    const dualResult = await runDocumentValidation(payload.content, payload.assignmentContext, async (event) => {
+      try {
+        if (event.type === 'stage') {
+          await prisma.validationJob.update({
+            where: { id: job.id },
+            data: { status: STAGE_STATUS[event.stage] },
+          });
+        } else {
+          await appendJobEvent(job.id, {
+            stage: event.stage,
+            completed: event.completed,
+            total: event.total,
+            ...event.result,
+          });
+        }
+      } catch (error) {
+        console.error('Error updating validation job progress:', error);
+      }
+    });
+
+    await recordValidationUsage({
+      dualResult,
+      requestedById: job.requestedById,
+      jobId: job.id,
+      contentId: job.contentId,
+      contentType: payload.assignmentContext?.contentType,
+    });
+
+    if (payload.cacheKey) {
+      await storeCachedValidation(payload.cacheKey, payload.assignmentContext?.contentType, dualResult);
+    }
+
+    const result = await buildJobResult(job, payload, dualResult, Date.now() - start);
+    await finishJob(job, { status: 'COMPLETED', result: result as Prisma.InputJsonValue });
+    console.log(`✅ Validation job ${job.id} completed`);
+  } catch (error) {
+    console.error(`❌ Validation job ${job.id} failed:`, error);
+    const message = error instanceof Error ? error.message : String(error);
+
+    try {
+      // Log the error for monitoring
+      await prisma.auditLog.create({
+        data: {
+          userId: job.requestedById,
+          action: 'LLM_VALIDATION_ERROR',
+          metadata: {
+            jobId: job.id,
+            error: message,
+            contentLength: payload.content.length,
+            contentType: payload.assignmentContext?.contentType || 'unknown'
+          }
+        }
+      });
+      await finishJob(job, { status: 'FAILED', error: message });
+    } catch (dbError) {
+      console.error('Error recording validation job failure:', dbError);
+    }
+  }
+}
+
+let activeJobs = 0;
+let workerStarted = false;
+let lastStaleSweep = 0;
+
+// Jobs still running elsewhere keep their heartbeat going, so only ones an instance died holding match
+async function requeueStaleJobs() {
+  const { count } = await prisma.validationJob.updateMany({
+    where: { status: { in: ['ROUND_1', 'ROUND_2'] }, updatedAt: { lt: new Date(Date.now() - STALE_JOB_MS) } },
+    data: { status: 'QUEUED', startedAt: null },
+  });
+  if (count > 0) {
+    console.log(`♻️  Re-queued ${count} stale validation jobs`);
+  }
+}
+
+// Runs the job while keeping its heartbeat going
+async function processWithHeartbeat(job: ValidationJob) {
+  const heartbeat = setInterval(() => {
+    prisma.validationJob.updateMany({
+      where: { id: job.id, status: { in: ['ROUND_1', 'ROUND_2'] } },
+      data: { updatedAt: new Date() },
+    }).catch((error) => console.error('Error updating validation job heartbeat:', error));
+  }, HEARTBEAT_MS);
+
+  try {
+    await processJob(job);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+async function pollForJobs() {
+  try {
+    // An instance (this one included, before a restart) may have died holding jobs; their heartbeat stops
+    if (Date.now() - lastStaleSweep >= STALE_SWEEP_MS) {
+      lastStaleSweep = Date.now();
+      await requeueStaleJobs()
+        .catch((error) => console.error('Error re-queueing stale validation jobs:', error));
+    }
+
+    while (activeJobs < MAX_CONCURRENT_JOBS) {
+      const job = await claimNextJob();
+      if (!job) break;
+
+      activeJobs++;
+      void processWithHeartbeat(job).finally(() => {
+        activeJobs--;
+      });
+    }
+  } catch (error) {
+    console.error('Error polling validation jobs:', error);
+  }
+
+  setTimeout(pollForJobs, POLL_INTERVAL_MS);
+}
+
+export function startValidationWorker() {
+  if (workerStarted) return;
+  workerStarted = true;
+
+  console.log('🚀 Validation worker started');
+  void pollForJobs();
+}
@@ -0,0 +1,6 @@
+import { createHash } from 'node:crypto';
+
+// Identifies the exact text a validation ran on, so a result can't be attached to different content
+export function hashContent(text: string): string {
+  return createHash('sha256').update(text, 'utf8').digest('hex');
+}
@@ -1,7 +1,11 @@
 import { useState, useEffect } from 'react';
 import { apiCall } from '../utils/api';
+import { isIncompleteValidation, runValidationJob, type IncompleteValidation, type SubTopicCoverage } from '../utils/validationJobs';
 import { AssignmentManager } from './AssignmentManager';
 import { Settings } from './Settings';
+import { BlockedSubmissions } from './BlockedSubmissions';
+import { CurriculumEditor } from './CurriculumEditor';
+import { SubTopicCoverageMatrix } from './SubTopicCoverageMatrix';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeHighlight from 'rehype-highlight';
@@ -26,6 +30,13 @@ type ValidationResult = {
   };
   overallScore: number;
   processingTimeMs: number;
+  aggregationStrategy?: 'MAX' | 'MIN' | 'MEAN' | 'WEIGHTED' | 'AGREEMENT' | null;
+  agreementThreshold?: number | null;
+  disagreementThreshold?: number | null;
+  flaggedForReview?: boolean;
+  disagreement?: { relevance: number; continuity: number; documentation: number; max: number } | null;
+  maxDisagreement?: number | null;
+  subTopicCoverage?: SubTopicCoverage[] | null;
   createdAt: string;
 };
 
@@ -33,7 +44,7 @@ type Content = {
   id: string;
   title: string;
   content: string;
-  status: 'DRAFT' | 'REVIEW' | 'APPROVED' | 'REJECTED';
+  status: 'DRAFT' | 'VALIDATING' | 'REVIEW' | 'APPROVED' | 'REJECTED';
   tags: string[];
   category?: string;
   wordCount: number;
@@ -68,6 +79,12 @@ type Props = {
   onLogout: () => void;
 };
 
+// A result is flagged once the models differ by more than the lower of its thresholds, so that is the one to name
+function flaggingThreshold(result: ValidationResult): number | null {
+  const thresholds = [result.agreementThreshold, result.disagreementThreshold].filter((threshold): threshold is number => threshold != null);
+  return thresholds.length > 0 ? Math.min(...thresholds) : null;
+}
+
 export function AdminDashboard({ user, token, onLogout }: Props) {
   const [reviewQueue, setReviewQueue] = useState<Content[]>([]);
   const [selectedContent, setSelectedContent] = useState<Content | null>(null);
@@ -75,7 +92,7 @@ export function AdminDashboard({ user, token, onLogout }: Props) {
   const [isReviewing, setIsReviewing] = useState(false);
   const [reviewAction, setReviewAction] = useState<'approve' | 'reject' | ''>('');
   const [reviewFeedback, setReviewFeedback] = useState('');
-  const [activeTab, setActiveTab] = useState<'review' | 'assignments' | 'assigned-creators' | 'settings'>('review');
+  const [activeTab, setActiveTab] = useState<'review' | 'assignments' | 'blocked' | 'curriculum' | 'assigned-creators' | 'settings'>('review');
   const [openCreateAssignment, setOpenCreateAssignment] = useState(false);
   const [tasksFilter, setTasksFilter] = useState<'all' | 'assigned' | 'review' | 'rejected' | 'approved'>('all');
   const [assignedCreators, setAssignedCreators] = useState<User[]>([]);
@@ -103,7 +120,7 @@ export function AdminDashboard({ user, token, onLogout }: Props) {
   }, [activeTab]);
 
   // Navigation helper functions for admin dashboard
-  const navigateToTab = (tab: 'review' | 'assignments' | 'assigned-creators', filter?: string) => {
+  const navigateToTab = (tab: 'review' | 'assignments' | 'blocked' | 'curriculum' | 'assigned-creators', filter?: string) => {
     setActiveTab(tab);
     if (filter) {
       setTasksFilter(filter as any);
@@ -115,6 +132,10 @@ export function AdminDashboard({ user, token, onLogout }: Props) {
     
     if (tab === 'assigned-creators') {
       url.hash = '#/assigned-creators';
+    } else if (tab === 'blocked') {
+      url.hash = '#/blocked';
+    } else if (tab === 'curriculum') {
+      url.hash = '#/curriculum';
     } else if (tab === 'assignments') {
       url.hash = '#/tasks';
       if (filter) {
@@ -137,6 +158,12 @@ export function AdminDashboard({ user, token, onLogout }: Props) {
       if (hash.includes('#/assigned-creators')) {
         setActiveTab('assigned-creators');
         setTasksFilter('all');
+      } else if (hash.includes('#/blocked')) {
+        setActiveTab('blocked');
+        setTasksFilter('all');
+      } else if (hash.includes('#/curriculum')) {
+        setActiveTab('curriculum');
+        setTasksFilter('all');
       } else if (hash.includes('#/tasks')) {
         setActiveTab('assignments');
         const filter = urlParams.get('filter');
@@ -262,6 +289,7 @@ export function AdminDashboard({ user, token, onLogout }: Props) {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'DRAFT': return 'bg-gray-100 text-gray-800';
+      case 'VALIDATING': return 'bg-blue-100 text-blue-800';
       case 'REVIEW': return 'bg-yellow-100 text-yellow-800';
       case 'APPROVED': return 'bg-green-100 text-green-800';
       case 'REJECTED': return 'bg-red-100 text-red-800';
@@ -269,6 +297,12 @@ export function AdminDashboard({ user, token, onLogout }: Props) {
     }
   };
 
+  const getDisagreementColor = (points: number) => {
+    if (points >= 20) return 'bg-red-100 text-red-800';
+    if (points >= 10) return 'bg-orange-100 text-orange-800';
+    return 'bg-gray-100 text-gray-700';
+  };
+
 
   return (
     <div className="min-h-screen bg-background-light font-sans text-text-light">
@@ -306,6 +340,26 @@ export function AdminDashboard({ user, token, onLogout }: Props) {
             >
               Tasks
             </button>
+            <button
+              onClick={() => navigateToTab('blocked')}
+              className={`px-2 md:px-4 py-2 rounded-md text-xs md:text-sm font-medium transition-colors ${
+                activeTab === 'blocked'
+                  ? 'text-subtle-light bg-gray-100'
+                  : 'text-subtle-light hover:bg-gray-100'
+              }`}
+            >
+              Blocked
+            </button>
+            <button
+              onClick={() => navigateToTab('curriculum')}
+              className={`px-2 md:px-4 py-2 rounded-md text-xs md:text-sm font-medium transition-colors ${
+                activeTab === 'curriculum'
+                  ? 'text-subtle-light bg-gray-100'
+                  : 'text-subtle-light hover:bg-gray-100'
+              }`}
+            >
+              Curriculum
+            </button>
           </nav>
 
           {/* User Info */}
@@ -378,6 +432,10 @@ export function AdminDashboard({ user, token, onLogout }: Props) {
             filter={tasksFilter}
             onFilterChange={(filter) => navigateToTab('assignments', filter)}
           />
+        ) : activeTab === 'blocked' ? (
+          <BlockedSubmissions token={token} />
+        ) : activeTab === 'curriculum' ? (
+          <CurriculumEditor token={token} />
         ) : activeTab === 'assigned-creators' ? (
           <div className="bg-white rounded-xl shadow-sm border border-gray-200">
             <div className="p-6 border-b border-gray-200">
@@ -577,9 +635,24 @@ export function AdminDashboard({ user, token, onLogout }: Props) {
                         by {content.author.name}
                       </div>
                       <div className="flex items-center justify-between mt-2">
-                        <span className={`px-2 py-1 text-xs rounded-full ${getStatusColor(content.status)}`}>
-                          {content.status}
-                        </span>
+                        <div className="flex items-center gap-1">
+                          <span className={`px-2 py-1 text-xs rounded-full ${getStatusColor(content.status)}`}>
+                            {content.status}
+                          </span>
+                          {content.validationResults?.[0]?.flaggedForReview && (
+                            <span className="px-2 py-1 text-xs rounded-full bg-amber-100 text-amber-800">
+                              Needs human score
+                            </span>
+                          )}
+                          {!!content.validationResults?.[0]?.maxDisagreement && (
+                            <span
+                              className={`px-2 py-1 text-xs rounded-full ${getDisagreementColor(content.validationResults[0].maxDisagreement)}`}
+                              title="Largest gap between the models' round 2 scores on any criterion"
+                            >
+                              ±{content.validationResults[0].maxDisagreement} pts
+                            </span>
+                          )}
+                        </div>
                         <span className="text-xs text-gray-500">
                           {content.submittedAt && new Date(content.submittedAt).toLocaleDateString()}
                         </span>
@@ -742,8 +815,17 @@ export function AdminDashboard({ user, token, onLogout }: Props) {
                               </span>
                               <span className="text-xs text-blue-600">
                                 {mostRecentResult.llmProvider} • {mostRecentResult.modelVersion}
+                                {mostRecentResult.aggregationStrategy && ` • ${mostRecentResult.aggregationStrategy.toLowerCase()} aggregation`}
                               </span>
                             </div>
+
+                            {mostRecentResult.flaggedForReview && (
+                              <div className="p-2 bg-amber-50 border border-amber-200 rounded text-sm text-amber-800">
+                                {flaggingThreshold(mostRecentResult) !== null
+                                  ? `Models disagreed by more than ${flaggingThreshold(mostRecentResult)} points on at least one criterion.`
+                                  : 'Models disagreed on at least one criterion.'} Please score this content manually.
+                              </div>
+                            )}
                             
                             <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
                               <div className="p-3 bg-white rounded border border-blue-100">
@@ -776,6 +858,12 @@ export function AdminDashboard({ user, token, onLogout }: Props) {
                                 </div>
                               </div>
                             </div>
+
+                            {mostRecentResult.subTopicCoverage && mostRecentResult.subTopicCoverage.length > 0 && (
+                              <div className="p-3 bg-white rounded border border-blue-100">
+                                <SubTopicCoverageMatrix coverage={mostRecentResult.subTopicCoverage} />
+                              </div>
+                            )}
                           </div>
                         );
                       })()}
@@ -830,27 +918,23 @@ export function AdminDashboard({ user, token, onLogout }: Props) {
                           setIsRevalidating(true);
                           
                           try {
-                            const res = await apiCall(`/api/validate/${selectedContent.id}`, {
-                              method: 'POST',
-                              headers: { Authorization: `Bearer ${token}` }
-                            });
-                            
-                            if (res.ok) {
-                              const data = await res.json();
-                              // Update the selected content with new validation results
-                              setSelectedContent({
-                                ...selectedContent,
-                                validationResults: data.validationResults
-                              });
-                              alert('Content re-validated successfully!');
-                            } else {
-                              const error = await res.json();
-                              console.error('Revalidation failed:', error);
-                              alert(`Failed to re-validate content: ${error.error || 'Unknown error'}`);
+                            const data = await runValidationJob<{ validationResults: ValidationResult[] } | IncompleteValidation>(
+                              `/api/validate/${selectedContent.id}`,
+                              token
+                            );
+                            if (isIncompleteValidation(data)) {
+                              alert(`Re-validation could not be completed, so the previous results were kept.\n\n${data.reason}`);
+                              return;
                             }
+                            // Update the selected content with new validation results
+                            setSelectedContent({
+                              ...selectedContent,
+                              validationResults: data.validationResults
+                            });
+                            alert('Content re-validated successfully!');
                           } catch (error) {
                             console.error('Failed to re-validate content:', error);
-                            alert('Failed to re-validate content. Please try again.');
+                            alert(`Failed to re-validate content: ${error instanceof Error ? error.message : 'Unknown error'}`);
                           } finally {
                             setIsRevalidating(false);
                           }
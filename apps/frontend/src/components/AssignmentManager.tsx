@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { apiCall } from '../utils/api';
+import { topicsWithPrerequisites, type AssignmentCurriculumTopic, type CurriculumCourse } from '../utils/curriculum';
 
 type User = {
   id: string;
@@ -12,6 +13,8 @@ type Assignment = {
   id: string;
   topic: string;
   topicsTaughtSoFar: string[];
+  topicId?: string | null;
+  curriculumTopic?: AssignmentCurriculumTopic | null;
   guidelines?: string;
   contentType: 'PRE_READ' | 'ASSIGNMENT' | 'LECTURE_NOTE';
   difficulty?: string;
@@ -67,10 +70,16 @@ export function AssignmentManager({ user, token, triggerCreate, onCreateConsumed
   const [dueDate, setDueDate] = useState('');
   const [assignedToId, setAssignedToId] = useState('');
   const [topicsTaughtSoFarInput, setTopicsTaughtSoFarInput] = useState('');
+  // Curriculum topic the task is on; its name and prerequisites come from the course outline
+  const [topicId, setTopicId] = useState('');
+  const [courses, setCourses] = useState<CurriculumCourse[]>([]);
+
+  const curriculumTopics = courses.flatMap(course => topicsWithPrerequisites(course));
 
   useEffect(() => {
     fetchAssignments();
     fetchAssignedCreators();
+    fetchCourses();
   }, []);
 
   // Respond to external request to open create form
@@ -87,6 +96,7 @@ export function AssignmentManager({ user, token, triggerCreate, onCreateConsumed
       console.log('🔄 Populating form for editing assignment:', editingAssignment);
       setTopic(editingAssignment.topic || '');
       setTopicsTaughtSoFar(editingAssignment.topicsTaughtSoFar || []);
+      setTopicId(editingAssignment.topicId || '');
       setGuidelines(editingAssignment.guidelines || '');
       setContentType(editingAssignment.contentType || 'LECTURE_NOTE');
       setDifficulty(editingAssignment.difficulty || '');
@@ -118,6 +128,20 @@ export function AssignmentManager({ user, token, triggerCreate, onCreateConsumed
     }
   };
 
+  const fetchCourses = async () => {
+    try {
+      const res = await apiCall('/api/curriculum/courses', {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      if (res.ok) {
+        const data = await res.json();
+        setCourses(data.courses);
+      }
+    } catch (error) {
+      console.error('Failed to fetch curriculum:', error);
+    }
+  };
+
   // Enhanced filtering function
   const getFilteredTasks = () => {
     return tasks.filter((assignment) => {
@@ -207,6 +231,7 @@ export function AssignmentManager({ user, token, triggerCreate, onCreateConsumed
           Authorization: `Bearer ${token}`
         },
         body: JSON.stringify({
+          topicId: topicId || undefined,
           topic,
           topicsTaughtSoFar,
           guidelines: guidelines || undefined,
@@ -242,6 +267,7 @@ export function AssignmentManager({ user, token, triggerCreate, onCreateConsumed
           Authorization: `Bearer ${token}`
         },
         body: JSON.stringify({
+          topicId: topicId || null,
           topic,
           topicsTaughtSoFar,
           guidelines: guidelines || undefined,
@@ -276,6 +302,16 @@ export function AssignmentManager({ user, token, triggerCreate, onCreateConsumed
     setDueDate('');
     setAssignedToId('');
     setTopicsTaughtSoFarInput('');
+    setTopicId('');
+  };
+
+  const selectCurriculumTopic = (id: string) => {
+    setTopicId(id);
+    const selected = curriculumTopics.find(item => item.id === id);
+    if (selected) {
+      setTopic(selected.name);
+      setTopicsTaughtSoFar(selected.topicsTaughtSoFar);
+    }
   };
 
   const startCreating = () => {
@@ -511,6 +547,33 @@ export function AssignmentManager({ user, token, triggerCreate, onCreateConsumed
           </h3>
           
           <div className="space-y-4">
+            {courses.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-text-light mb-2">
+                  Curriculum Topic
+                </label>
+                <select
+                  value={topicId}
+                  onChange={(e) => selectCurriculumTopic(e.target.value)}
+                  className="w-full px-4 py-2 border border-border-light rounded-md focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  <option value="">Not in the curriculum (enter the topic by hand)</option>
+                  {courses.map((course) => (
+                    <optgroup key={course.id} label={course.name}>
+                      {topicsWithPrerequisites(course).map((item) => (
+                        <option key={item.id} value={item.id}>
+                          {item.moduleName} — {item.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  The topics taught so far are the ones before this topic in its course, and follow the curriculum when it changes.
+                </p>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-text-light mb-2">
                 Topic <span className="text-red-500">*</span>
@@ -519,7 +582,8 @@ export function AssignmentManager({ user, token, triggerCreate, onCreateConsumed
                 type="text"
                 value={topic}
                 onChange={(e) => setTopic(e.target.value)}
-                className="w-full px-4 py-2 border border-border-light rounded-md focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                disabled={Boolean(topicId)}
+                className="w-full px-4 py-2 border border-border-light rounded-md focus:ring-2 focus:ring-purple-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-600"
                 placeholder="e.g., React Hooks - useState and useEffect"
               />
             </div>
@@ -584,50 +648,72 @@ export function AssignmentManager({ user, token, triggerCreate, onCreateConsumed
               </div>
             )}
 
-            <div>
-              <label className="block text-sm font-medium text-text-light mb-2">
-                Topics taught so far <span className="text-red-500">*</span>
-              </label>
-              <div className="flex gap-2 mb-2">
-                <input
-                  type="text"
-                  value={topicsTaughtSoFarInput}
-                  onChange={(e) => setTopicsTaughtSoFarInput(e.target.value)}
-                  className="flex-1 px-4 py-2 border border-border-light rounded-md focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                  placeholder="Enter topics separated by commas (e.g., HTML, CSS, JavaScript)"
-                  onKeyPress={(e) => e.key === 'Enter' && addTopicTaughtSoFar()}
-                />
-                <button
-                  type="button"
-                  onClick={addTopicTaughtSoFar}
-                  className="px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-800"
-                >
-                  Add
-                </button>
+            {topicId ? (
+              <div>
+                <label className="block text-sm font-medium text-text-light mb-2">
+                  Topics taught so far
+                </label>
+                {topicsTaughtSoFar.length > 0 ? (
+                  <div className="flex flex-wrap gap-2 mb-2">
+                    {topicsTaughtSoFar.map((topic, index) => (
+                      <span key={index} className="px-3 py-1 bg-purple-100 text-purple-800 rounded-full text-sm">
+                        {topic}
+                      </span>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-600 mb-2">None: this is the first topic of its course.</p>
+                )}
+                <p className="text-xs text-gray-500">
+                  Derived from the curriculum.
+                </p>
               </div>
-              {topicsTaughtSoFar.length > 0 && (
-                <div className="flex flex-wrap gap-2 mb-2">
-                  {topicsTaughtSoFar.map((topic, index) => (
-                    <span
-                      key={index}
-                      className="px-3 py-1 bg-purple-100 text-purple-800 rounded-full text-sm flex items-center gap-1"
-                    >
-                      {topic}
-                      <button
-                        type="button"
-                        onClick={() => removeTopicTaughtSoFar(index)}
-                        className="text-purple-800 hover:opacity-80"
-                      >
-                        ×
-                      </button>
-                    </span>
-                  ))}
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-text-light mb-2">
+                  Topics taught so far <span className="text-red-500">*</span>
+                </label>
+                <div className="flex gap-2 mb-2">
+                  <input
+                    type="text"
+                    value={topicsTaughtSoFarInput}
+                    onChange={(e) => setTopicsTaughtSoFarInput(e.target.value)}
+                    className="flex-1 px-4 py-2 border border-border-light rounded-md focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    placeholder="Enter topics separated by commas (e.g., HTML, CSS, JavaScript)"
+                    onKeyPress={(e) => e.key === 'Enter' && addTopicTaughtSoFar()}
+                  />
+                  <button
+                    type="button"
+                    onClick={addTopicTaughtSoFar}
+                    className="px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-800"
+                  >
+                    Add
+                  </button>
                 </div>
-              )}
-              <p className="text-xs text-gray-500">
-                Required for proper LLM validation. Enter at least one prerequisite topic.
-              </p>
-            </div>
+                {topicsTaughtSoFar.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mb-2">
+                    {topicsTaughtSoFar.map((topic, index) => (
+                      <span
+                        key={index}
+                        className="px-3 py-1 bg-purple-100 text-purple-800 rounded-full text-sm flex items-center gap-1"
+                      >
+                        {topic}
+                        <button
+                          type="button"
+                          onClick={() => removeTopicTaughtSoFar(index)}
+                          className="text-purple-800 hover:opacity-80"
+                        >
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs text-gray-500">
+                  Required for proper LLM validation. Enter at least one prerequisite topic.
+                </p>
+              </div>
+            )}
 
             <div>
               <label className="block text-sm font-medium text-text-light mb-2">
@@ -679,7 +765,7 @@ export function AssignmentManager({ user, token, triggerCreate, onCreateConsumed
                     createAssignment();
                   }
                 }}
-                disabled={!topic || !assignedToId || topicsTaughtSoFar.length === 0 || guidelines.length < 10 || (contentType === 'ASSIGNMENT' && !difficulty)}
+                disabled={!topic || !assignedToId || (!topicId && topicsTaughtSoFar.length === 0) || guidelines.length < 10 || (contentType === 'ASSIGNMENT' && !difficulty)}
                 className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:bg-purple-300"
               >
                 {editingAssignment ? 'Update Task' : 'Create Task'}
@@ -751,6 +837,14 @@ export function AssignmentManager({ user, token, triggerCreate, onCreateConsumed
                       <h4 className="text-sm font-medium text-gray-700 mb-1">Content Type</h4>
                       <p className="text-sm text-gray-900">{assignment.contentType.replace('_', ' ')}</p>
                     </div>
+                    {assignment.curriculumTopic && (
+                      <div>
+                        <h4 className="text-sm font-medium text-gray-700 mb-1">Curriculum</h4>
+                        <p className="text-sm text-gray-900">
+                          {assignment.curriculumTopic.module.course.name} › {assignment.curriculumTopic.module.name}
+                        </p>
+                      </div>
+                    )}
                     {assignment.difficulty && (
                       <div>
                         <h4 className="text-sm font-medium text-gray-700 mb-1">Difficulty</h4>
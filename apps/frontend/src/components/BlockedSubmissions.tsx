@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react';
+import { apiCall } from '../utils/api';
+
+type Shortfall = {
+  criterion: 'overall' | 'relevance' | 'continuity' | 'documentation';
+  score: number;
+  minimum: number;
+};
+
+type BlockedSubmission = {
+  content: {
+    id: string;
+    title: string;
+    contentType: 'PRE_READ' | 'ASSIGNMENT' | 'LECTURE_NOTE';
+    status: 'DRAFT' | 'REJECTED';
+    author: { id: string; name: string; email: string };
+  };
+  blockedAt: string;
+  overallScore: number | null;
+  shortfalls: Shortfall[];
+  flaggedForReview: boolean;
+  pendingOverride: { id: string; reason: string; createdAt: string } | null;
+};
+
+type Props = {
+  token: string;
+};
+
+const CRITERION_LABELS: Record<Shortfall['criterion'], string> = {
+  overall: 'Overall',
+  relevance: 'Relevance',
+  continuity: 'Continuity',
+  documentation: 'Documentation',
+};
+
+const CONTENT_TYPE_NAMES: Record<BlockedSubmission['content']['contentType'], string> = {
+  ASSIGNMENT: 'Assignment',
+  LECTURE_NOTE: 'Lecture Note',
+  PRE_READ: 'Pre-Read',
+};
+
+export function BlockedSubmissions({ token }: Props) {
+  const [blockedSubmissions, setBlockedSubmissions] = useState<BlockedSubmission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [grantingId, setGrantingId] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    const fetchBlocked = async () => {
+      try {
+        const res = await apiCall('/api/admin/blocked-submissions', {
+          headers: { Authorization: `Bearer ${token}` }
+        });
+        if (res.ok) {
+          const data = await res.json();
+          setBlockedSubmissions(data.blockedSubmissions);
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchBlocked().catch(error => console.error('Error fetching blocked submissions:', error));
+  }, [token, reloadCount]);
+
+  const grantOverride = async (submission: BlockedSubmission) => {
+    const reason = prompt(`Why should "${submission.content.title}" be allowed through without meeting the minimum scores?`);
+    if (!reason?.trim()) {
+      return;
+    }
+
+    setGrantingId(submission.content.id);
+    try {
+      const res = await apiCall(`/api/content/${submission.content.id}/gate-override`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`
+        },
+        body: JSON.stringify({ reason: reason.trim() })
+      });
+      if (res.ok) {
+        setReloadCount(count => count + 1);
+      } else {
+        const error = await res.json();
+        alert(`Error granting override: ${error.error}`);
+      }
+    } catch (error) {
+      console.error('Error granting override:', error);
+      alert('Failed to grant override');
+    } finally {
+      setGrantingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="p-6 border-b border-gray-200">
+        <h2 className="text-xl font-semibold text-gray-900">Blocked Submissions</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Submissions from your creators that missed the minimum validation scores in the last 30 days. An override lets the next submission through.
+        </p>
+      </div>
+
+      <div className="p-6">
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : blockedSubmissions.length === 0 ? (
+          <p className="text-sm text-gray-500">No blocked submissions.</p>
+        ) : (
+          <div className="space-y-4">
+            {blockedSubmissions.map(submission => (
+              <div key={submission.content.id} className="border border-gray-200 rounded-lg p-4 flex items-start justify-between gap-4">
+                <div>
+                  <h3 className="font-semibold text-gray-900">{submission.content.title}</h3>
+                  <p className="text-sm text-gray-600">
+                    {submission.content.author.name} · {CONTENT_TYPE_NAMES[submission.content.contentType]} · blocked {new Date(submission.blockedAt).toLocaleString()}
+                  </p>
+                  <ul className="mt-2 text-sm text-red-700 space-y-0.5">
+                    {submission.shortfalls.map(shortfall => (
+                      <li key={shortfall.criterion}>
+                        {CRITERION_LABELS[shortfall.criterion]}: {shortfall.score} (minimum {shortfall.minimum})
+                      </li>
+                    ))}
+                    {submission.flaggedForReview && <li>Models disagreed on the score</li>}
+                  </ul>
+                </div>
+                {submission.pendingOverride ? (
+                  <div className="text-xs text-green-700 text-right max-w-xs">
+                    Override granted {new Date(submission.pendingOverride.createdAt).toLocaleDateString()}
+                    <div className="text-gray-500 mt-1">{submission.pendingOverride.reason}</div>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => grantOverride(submission)}
+                    disabled={grantingId !== null}
+                    className="px-4 py-2 text-sm bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50 whitespace-nowrap"
+                  >
+                    {grantingId === submission.content.id ? 'Granting...' : 'Grant Override'}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import { useState, useEffect } from 'react';
+import { apiCall } from '../utils/api';
+
+type ContentType = 'PRE_READ' | 'ASSIGNMENT' | 'LECTURE_NOTE';
+
+type ScoreSummary = {
+  mean: number;
+  stdDev: number;
+  min: number;
+  p25: number;
+  median: number;
+  p75: number;
+  max: number;
+  histogram: Array<{ from: number; to: number; count: number }>;
+};
+
+type ThresholdPoint = {
+  threshold: number;
+  accuracy: number | null;
+  balancedAccuracy: number | null;
+  falseApprovals: number;
+  falseRejections: number;
+};
+
+type ModelCalibration = {
+  llmProvider: string;
+  modelVersion: string;
+  decisions: number;
+  meanApproved: number | null;
+  meanRejected: number | null;
+  separation: number | null;
+  agreementAtRecommended: number | null;
+  bestThreshold: number | null;
+  agreementAtBest: number | null;
+};
+
+type Calibration = {
+  contentType: ContentType;
+  decisions: number;
+  unscored: number;
+  approved: { count: number; scores: ScoreSummary | null };
+  rejected: { count: number; scores: ScoreSummary | null };
+  separation: number | null;
+  recommendedThreshold: ThresholdPoint | null;
+  thresholdCurve: ThresholdPoint[];
+  models: ModelCalibration[];
+};
+
+type Props = {
+  token: string;
+};
+
+const CONTENT_TYPE_OPTIONS: Array<{ value: ContentType; label: string }> = [
+  { value: 'ASSIGNMENT', label: 'Assignment' },
+  { value: 'LECTURE_NOTE', label: 'Lecture Note' },
+  { value: 'PRE_READ', label: 'Pre-Read' },
+];
+
+const PERIOD_OPTIONS = [
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '365', label: 'Last year' },
+  { value: '', label: 'All time' },
+];
+
+function formatRate(rate: number | null): string {
+  return rate === null ? '—' : `${Math.round(rate * 1000) / 10}%`;
+}
+
+export function CalibrationReport({ token }: Props) {
+  const [contentType, setContentType] = useState<ContentType>('ASSIGNMENT');
+  const [days, setDays] = useState('90');
+  const [calibration, setCalibration] = useState<Calibration | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchCalibration = async () => {
+      setLoading(true);
+      try {
+        const res = await apiCall(`/api/super-admin/calibration/${contentType}${days ? `?days=${days}` : ''}`, {
+          headers: { Authorization: `Bearer ${token}` }
+        });
+        if (res.ok) {
+          setCalibration(await res.json());
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchCalibration().catch(error => console.error('Error fetching calibration report:', error));
+  }, [contentType, days, token]);
+
+  const approvedHistogram = calibration?.approved.scores?.histogram ?? [];
+  const rejectedHistogram = calibration?.rejected.scores?.histogram ?? [];
+  const peak = Math.max(1, ...approvedHistogram.map(bucket => bucket.count), ...rejectedHistogram.map(bucket => bucket.count));
+  const recommended = calibration?.recommendedThreshold ?? null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Score Calibration</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            LLM scores at the time of review compared with what admins decided, to set pass thresholds from evidence.
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <select
+            value={contentType}
+            onChange={(e) => setContentType(e.target.value as ContentType)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            {CONTENT_TYPE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            value={days}
+            onChange={(e) => setDays(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            {PERIOD_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading && !calibration ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : !calibration || calibration.decisions === 0 ? (
+        <p className="text-sm text-gray-500">No review decisions for this content type in this period.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div className="bg-white border border-gray-200 rounded-lg p-4">
+              <div className="text-xs text-gray-500">Decisions</div>
+              <div className="text-2xl font-semibold text-gray-900">{calibration.decisions}</div>
+              {calibration.unscored > 0 && <div className="text-xs text-gray-400">{calibration.unscored} without a score</div>}
+            </div>
+            <div className="bg-white border border-gray-200 rounded-lg p-4">
+              <div className="text-xs text-gray-500">Approved</div>
+              <div className="text-2xl font-semibold text-green-700">{calibration.approved.count}</div>
+              <div className="text-xs text-gray-400">
+                {calibration.approved.scores ? `mean ${calibration.approved.scores.mean}, median ${calibration.approved.scores.median}` : 'no scores'}
+              </div>
+            </div>
+            <div className="bg-white border border-gray-200 rounded-lg p-4">
+              <div className="text-xs text-gray-500">Rejected</div>
+              <div className="text-2xl font-semibold text-red-700">{calibration.rejected.count}</div>
+              <div className="text-xs text-gray-400">
+                {calibration.rejected.scores ? `mean ${calibration.rejected.scores.mean}, median ${calibration.rejected.scores.median}` : 'no scores'}
+              </div>
+            </div>
+            <div className="bg-white border border-gray-200 rounded-lg p-4">
+              <div className="text-xs text-gray-500">Separation</div>
+              <div className="text-2xl font-semibold text-gray-900">{formatRate(calibration.separation)}</div>
+              <div className="text-xs text-gray-400">approved outscores rejected</div>
+            </div>
+            <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-4">
+              <div className="text-xs text-indigo-700">Recommended pass mark</div>
+              <div className="text-2xl font-semibold text-indigo-900">{recommended ? recommended.threshold : '—'}</div>
+              <div className="text-xs text-indigo-600">
+                {recommended
+                  ? `${formatRate(recommended.balancedAccuracy)} balanced agreement`
+                  : 'needs both approvals and rejections'}
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white border border-gray-200 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-medium text-gray-900">Overall score at review</h3>
+              <div className="flex gap-4 text-xs text-gray-600">
+                <span className="flex items-center gap-1"><span className="w-3 h-3 bg-green-400 rounded-sm inline-block"></span>Approved</span>
+                <span className="flex items-center gap-1"><span className="w-3 h-3 bg-red-400 rounded-sm inline-block"></span>Rejected</span>
+              </div>
+            </div>
+            <div className="flex items-end gap-2 h-40">
+              {Array.from({ length: 10 }, (_, bucket) => {
+                const approvedCount = approvedHistogram[bucket]?.count ?? 0;
+                const rejectedCount = rejectedHistogram[bucket]?.count ?? 0;
+                const containsThreshold = recommended !== null && Math.min(9, Math.floor(recommended.threshold / 10)) === bucket;
+                return (
+                  <div key={bucket} className="flex-1 flex flex-col items-center justify-end h-full">
+                    <div className={`w-full flex items-end gap-0.5 h-full ${containsThreshold ? 'border-l-2 border-indigo-500' : ''}`}>
+                      <div className="flex-1 bg-green-400 rounded-t" style={{ height: `${(approvedCount / peak) * 100}%` }} title={`Approved: ${approvedCount}`}></div>
+                      <div className="flex-1 bg-red-400 rounded-t" style={{ height: `${(rejectedCount / peak) * 100}%` }} title={`Rejected: ${rejectedCount}`}></div>
+                    </div>
+                    <span className="text-[10px] text-gray-400 mt-1">{bucket * 10}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-white border border-gray-200 rounded-lg p-4">
+              <h3 className="text-sm font-medium text-gray-900 mb-3">If the pass mark were…</h3>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 uppercase">
+                    <th className="py-1 text-left font-medium">Pass Mark</th>
+                    <th className="py-1 text-right font-medium">Agreement</th>
+                    <th className="py-1 text-right font-medium">Balanced</th>
+                    <th className="py-1 text-right font-medium">False Approvals</th>
+                    <th className="py-1 text-right font-medium">False Rejections</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {calibration.thresholdCurve.filter(point => point.threshold >= 30 && point.threshold <= 95).map(point => (
+                    <tr key={point.threshold}>
+                      <td className="py-1 text-gray-900">{point.threshold}</td>
+                      <td className="py-1 text-right text-gray-600">{formatRate(point.accuracy)}</td>
+                      <td className="py-1 text-right text-gray-600">{formatRate(point.balancedAccuracy)}</td>
+                      <td className="py-1 text-right text-gray-600">{point.falseApprovals}</td>
+                      <td className="py-1 text-right text-gray-600">{point.falseRejections}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="bg-white border border-gray-200 rounded-lg p-4">
+              <h3 className="text-sm font-medium text-gray-900 mb-3">Per-model agreement with reviewers</h3>
+              {calibration.models.length === 0 ? (
+                <p className="text-sm text-gray-500">No per-model scores were recorded for these decisions.</p>
+              ) : (
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-gray-500 uppercase">
+                      <th className="py-1 text-left font-medium">Model</th>
+                      <th className="py-1 text-right font-medium">Decisions</th>
+                      <th className="py-1 text-right font-medium">Mean A / R</th>
+                      <th className="py-1 text-right font-medium">Separation</th>
+                      <th className="py-1 text-right font-medium">At {recommended ? recommended.threshold : '—'}</th>
+                      <th className="py-1 text-right font-medium">Own Best</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {calibration.models.map(model => (
+                      <tr key={`${model.llmProvider}:${model.modelVersion}`}>
+                        <td className="py-1">
+                          <div className="text-gray-900">{model.modelVersion}</div>
+                          <div className="text-xs text-gray-500">{model.llmProvider}</div>
+                        </td>
+                        <td className="py-1 text-right text-gray-600">{model.decisions}</td>
+                        <td className="py-1 text-right text-gray-600">{model.meanApproved ?? '—'} / {model.meanRejected ?? '—'}</td>
+                        <td className="py-1 text-right text-gray-600">{formatRate(model.separation)}</td>
+                        <td className="py-1 text-right text-gray-600">{formatRate(model.agreementAtRecommended)}</td>
+                        <td className="py-1 text-right text-gray-600">
+                          {model.bestThreshold !== null ? `${formatRate(model.agreementAtBest)} at ${model.bestThreshold}` : '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,13 @@
 import { useState, useEffect, useRef } from 'react';
 import { apiCall } from '../utils/api';
+import { isIncompleteValidation, runValidationJob, VALIDATION_PROGRESS_LABELS, type IncompleteValidation, type ValidationAggregation, type ValidationDisagreement, type SubTopicCoverage, type PrerequisiteWarning, type ValidationJobProgress, type ValidationSection } from '../utils/validationJobs';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeHighlight from 'rehype-highlight';
 import 'highlight.js/styles/github.css';
 import { MarkdownComponents } from '../utils/markdownComponents';
+import { SubTopicCoverageMatrix } from './SubTopicCoverageMatrix';
+import { PrerequisiteWarnings } from './PrerequisiteWarnings';
 import * as monaco from 'monaco-editor';
 
 type User = {
@@ -40,11 +43,16 @@ type ValidationResult = {
   overallConfidence?: number;
   confidence?: number; // New dual LLM format
   processingTime: number;
+  aggregation?: ValidationAggregation;
+  disagreement?: ValidationDisagreement;
   assignmentContext?: {
     topic: string;
     topicsTaughtSoFar: string[];
     hasGuidelines: boolean;
   };
+  sections?: ValidationSection[] | null;
+  subTopicCoverage?: SubTopicCoverage[] | null;
+  prerequisiteWarnings?: PrerequisiteWarning[] | null;
 };
 
 type Props = {
@@ -60,8 +68,11 @@ export function ContentCreation({ user, token, onBack, taskData }: Props) {
   const [contentType, setContentType] = useState('LECTURE_NOTE');
   const [isCreating, setIsCreating] = useState(false);
   const [isValidating, setIsValidating] = useState(false);
+  const [validationProgress, setValidationProgress] = useState<ValidationJobProgress>('queued');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
+  // Set when the last run produced no usable assessment, as opposed to a low score
+  const [incompleteReason, setIncompleteReason] = useState<string | null>(null);
   const [contentId, setContentId] = useState<string | null>(null);
   const [contentCreated, setContentCreated] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
@@ -156,40 +167,34 @@ export function ContentCreation({ user, token, onBack, taskData }: Props) {
   const validateContent = async () => {
     if (!content.trim()) {
       setValidationResult(null);
+      setIncompleteReason(null);
       return;
     }
 
     setIsValidating(true);
+    setValidationProgress('queued');
     try {
       const endpoint = taskData?.taskId 
         ? `/api/validate/assignment/${taskData.taskId}`
         : '/api/validate';
       
-      const res = await apiCall(endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`
-        },
-        body: JSON.stringify({
-          content,
-          contentId: contentId || undefined
-        })
-      });
-      
-      if (res.ok) {
-        const result = await res.json();
-        setValidationResult(result);
-      } else {
-        const error = await res.json();
-        console.error('Validation failed:', error);
-        alert(`Validation failed: ${error.error || 'Unknown error'}`);
+      // Poll the validation job instead of holding one long request open
+      const result = await runValidationJob<ValidationResult | IncompleteValidation>(endpoint, token, {
+        content,
+        contentId: contentId || undefined
+      }, setValidationProgress);
+      if (isIncompleteValidation(result)) {
         setValidationResult(null);
+        setIncompleteReason(result.reason);
+      } else {
+        setValidationResult(result);
+        setIncompleteReason(null);
       }
     } catch (error) {
-      console.error('Validation error:', error);
-      alert(`Validation error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Validation failed:', error);
+      alert(`Validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
       setValidationResult(null);
+      setIncompleteReason(null);
     } finally {
       setIsValidating(false);
     }
@@ -206,32 +211,37 @@ export function ContentCreation({ user, token, onBack, taskData }: Props) {
       // First, run validation before submitting
       console.log('Running validation before submission...');
       setIsValidating(true);
+      setValidationProgress('queued');
       
-      const validationRes = await apiCall('/api/validate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`
-        },
-        body: JSON.stringify({
+      let validationData: ValidationResult | IncompleteValidation;
+      try {
+        validationData = await runValidationJob<ValidationResult | IncompleteValidation>('/api/validate', token, {
           content: content,
+          contentId: contentId,
           contentType: contentType,
           topic: taskData?.topic,
           topicsTaughtSoFar: taskData?.topicsTaughtSoFar || []
-        })
-      });
-
-      if (!validationRes.ok) {
-        const error = await validationRes.json();
-        alert(`Validation failed: ${error.error || 'Unknown error'}`);
+        }, setValidationProgress);
+      } catch (error) {
+        alert(`Validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
         setIsValidating(false);
         return;
       }
 
-      const validationData = await validationRes.json();
-      setValidationResult(validationData);
       setIsValidating(false);
 
+      // Without a usable assessment there is nothing to attach to the submission
+      if (isIncompleteValidation(validationData)) {
+        setValidationResult(null);
+        setIncompleteReason(validationData.reason);
+        alert(`Validation could not be completed: ${validationData.reason}\n\nPlease try again before submitting.`);
+        setIsSubmitting(false);
+        return;
+      }
+
+      setValidationResult(validationData);
+      setIncompleteReason(null);
+
       // Show validation results to user before submission
       const overallScore = validationData.overallScore || validationData.overall || 0;
       const shouldProceed = confirm(
@@ -245,7 +255,7 @@ export function ContentCreation({ user, token, onBack, taskData }: Props) {
         return;
       }
 
-      // Now submit for review with validation data
+      // Now submit for review; the server attaches the validation it just ran
       const res = await apiCall('/api/content/submit', {
         method: 'POST',
         headers: {
@@ -253,8 +263,7 @@ export function ContentCreation({ user, token, onBack, taskData }: Props) {
           Authorization: `Bearer ${token}`
         },
         body: JSON.stringify({
-          contentId: contentId,
-          validationData: validationData
+          contentId: contentId
         })
       });
 
@@ -557,7 +566,7 @@ export function ContentCreation({ user, token, onBack, taskData }: Props) {
                     disabled={!content.trim() || isValidating}
                     className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:bg-purple-300 transition-colors w-full sm:w-auto"
                   >
-                    {isValidating ? 'Validating...' : 'Validate Content'}
+                    {isValidating ? VALIDATION_PROGRESS_LABELS[validationProgress] : 'Validate Content'}
                   </button>
                 </div>
                 
@@ -583,7 +592,7 @@ export function ContentCreation({ user, token, onBack, taskData }: Props) {
                       disabled={isSubmitting}
                       className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-green-300 transition-colors w-full sm:w-auto"
                     >
-                      {isSubmitting ? 'Submitting...' : 'Submit for Review'}
+                      {isSubmitting ? (isValidating ? VALIDATION_PROGRESS_LABELS[validationProgress] : 'Submitting...') : 'Submit for Review'}
                     </button>
                   ) : null}
                 </div>
@@ -599,7 +608,18 @@ export function ContentCreation({ user, token, onBack, taskData }: Props) {
             <div className="max-w-7xl mx-auto">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Validation Dashboard</h3>
               
-              {!validationResult ? (
+              {incompleteReason ? (
+                <div className="bg-gray-50 border border-gray-300 rounded-lg p-6">
+                  <div className="flex items-center gap-3 mb-2">
+                    <span className="material-icons text-gray-500 text-2xl">help_outline</span>
+                    <h4 className="font-semibold text-gray-900">Validation could not be completed</h4>
+                  </div>
+                  <p className="text-sm text-gray-700">
+                    None of the models returned a usable assessment, so no score was recorded. This says nothing about the quality of your content - please try again.
+                  </p>
+                  <p className="text-xs text-gray-500 mt-2">{incompleteReason}</p>
+                </div>
+              ) : !validationResult ? (
                 <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-left">
                   <span className="material-icons text-gray-400 text-5xl mb-3">check_circle</span>
                   <p className="text-gray-600">
@@ -643,6 +663,38 @@ export function ContentCreation({ user, token, onBack, taskData }: Props) {
                     </div>
                   </div>
 
+                  {/* Per-section scores of a long document validated section by section */}
+                  {validationResult.sections && validationResult.sections.length > 1 && (
+                    <div className="bg-gray-50 border border-gray-200 rounded-lg p-6">
+                      <h4 className="font-semibold text-gray-900 mb-3">Section Scores</h4>
+                      <div className="space-y-2">
+                        {validationResult.sections.map(section => (
+                          <div key={section.index} className="flex justify-between items-center gap-2">
+                            <span className="text-sm text-gray-700 truncate">{section.heading ?? `Section ${section.index + 1}`}</span>
+                            <span className={`font-semibold whitespace-nowrap ${section.overall >= 70 ? 'text-gray-900' : 'text-red-700'}`}>
+                              {section.overall}/100
+                              {section.flaggedForReview && <span className="ml-1 text-xs text-amber-700">(models disagreed)</span>}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Sub-topics from the assignment guidelines */}
+                  {validationResult.subTopicCoverage && validationResult.subTopicCoverage.length > 0 && (
+                    <div className="lg:col-span-3 bg-white border border-gray-200 rounded-lg p-6">
+                      <SubTopicCoverageMatrix coverage={validationResult.subTopicCoverage} />
+                    </div>
+                  )}
+
+                  {/* Concepts from later topics in the curriculum */}
+                  {validationResult.prerequisiteWarnings && validationResult.prerequisiteWarnings.length > 0 && (
+                    <div className="lg:col-span-3 bg-white border border-gray-200 rounded-lg p-6">
+                      <PrerequisiteWarnings warnings={validationResult.prerequisiteWarnings} />
+                    </div>
+                  )}
+
                   {/* Issues */}
                 </div>
               )}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { apiCall } from '../utils/api';
+import { isIncompleteValidation, startValidationJob, streamValidationJob, type IncompleteValidation, type ValidationAggregation, type ValidationDisagreement, type ValidationCallResult, type SubTopicCoverage, type PrerequisiteWarning, type ValidationIssue, type ValidationSection } from '../utils/validationJobs';
 import { EditorSplit } from './EditorSplit';
 import { ResultsPanel } from './ResultsPanel';
 import { AssignmentTasks } from './AssignmentTasks';
@@ -37,7 +38,7 @@ type Content = {
   id: string;
   title: string;
   content: string;
-  status: 'DRAFT' | 'REVIEW' | 'APPROVED' | 'REJECTED';
+  status: 'DRAFT' | 'VALIDATING' | 'REVIEW' | 'APPROVED' | 'REJECTED';
   contentType: 'PRE_READ' | 'ASSIGNMENT' | 'LECTURE_NOTE';
   difficulty?: string;
   tags: string[];
@@ -65,17 +66,24 @@ type ValidateResponse = {
   overallConfidence?: number;
   providers?: string[];
   processingTime?: number;
+  aggregation?: ValidationAggregation;
+  disagreement?: ValidationDisagreement;
   assignmentContext?: {
     topic: string;
     topicsTaughtSoFar: string[];
     hasGuidelines: boolean;
-    guidelines?: string;
+    guidelines?: string | null;
+    difficulty?: string | null;
+    dueDate?: string | null;
   } | null;
   criteria: {
-    relevance: { score: number; feedback: string; confidence?: number; issues?: any[]; suggestions?: string[] };
-    continuity: { score: number; feedback: string; confidence?: number; issues?: any[]; suggestions?: string[] };
-    documentation: { score: number; feedback: string; confidence?: number; issues?: any[]; suggestions?: string[] };
+    relevance: { score: number; feedback: string; confidence?: number; issues?: ValidationIssue[]; suggestions?: string[] };
+    continuity: { score: number; feedback: string; confidence?: number; issues?: ValidationIssue[]; suggestions?: string[] };
+    documentation: { score: number; feedback: string; confidence?: number; issues?: ValidationIssue[]; suggestions?: string[] };
   };
+  sections?: ValidationSection[] | null;
+  subTopicCoverage?: SubTopicCoverage[] | null;
+  prerequisiteWarnings?: PrerequisiteWarning[] | null;
 };
 
 type Props = {
@@ -91,7 +99,10 @@ export function CreatorDashboard({ user, token, onLogout, onNavigateToContentCre
   const [isCreating, setIsCreating] = useState(false);
   const [validationResult, setValidationResult] = useState<ValidateResponse | null>(null);
   const [isValidating, setIsValidating] = useState(false);
+  const [liveResults, setLiveResults] = useState<ValidationCallResult[]>([]);
   const [validationError, setValidationError] = useState<string | null>(null);
+  const [incompleteReason, setIncompleteReason] = useState<string | null>(null);
+  const [focusedIssue, setFocusedIssue] = useState<ValidationIssue | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [editingContent, setEditingContent] = useState<Content | null>(null);
   const [activeTab, setActiveTab] = useState<'content' | 'assignments' | 'guidelines' | 'settings'>('content');
@@ -228,37 +239,47 @@ export function CreatorDashboard({ user, token, onLogout, onNavigateToContentCre
     }
   };
 
+  const validationIssues = validationResult
+    ? [
+        ...(validationResult.criteria.relevance.issues ?? []),
+        ...(validationResult.criteria.continuity.issues ?? []),
+        ...(validationResult.criteria.documentation.issues ?? []),
+      ]
+    : [];
+  const isEditingSelected = !!selectedContent && editingContent?.id === selectedContent.id;
+
+  // A new object each time, so showing the same issue again still scrolls to it
+  const jumpToIssue = (issue: ValidationIssue) => setFocusedIssue({ ...issue });
+
   const validateContent = async () => {
     if (!selectedContent) return;
     
     setIsValidating(true);
     setValidationError(null);
+    setIncompleteReason(null);
+    
+    setLiveResults([]);
     
     try {
-      const res = await apiCall('/api/validate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`
-        },
-        body: JSON.stringify({
-          content: selectedContent.content,
-          options: {
-            contentId: selectedContent.id
-          }
-        })
+      const started = await startValidationJob<ValidateResponse | IncompleteValidation>('/api/validate', token, {
+        content: selectedContent.content,
+        contentId: selectedContent.id
       });
-
-      if (res.ok) {
-        const data = await res.json();
-        setValidationResult(data);
+      // Show each model's scores as soon as its call finishes
+      const data = started.cached
+        ? started.result
+        : await streamValidationJob<ValidateResponse | IncompleteValidation>(started.jobId, token, {
+            onCallResult: (callResult) => setLiveResults(prev => [...prev, callResult])
+          });
+      if (isIncompleteValidation(data)) {
+        setValidationResult(null);
+        setIncompleteReason(data.reason);
       } else {
-        const error = await res.json();
-        setValidationError(error.error || 'Validation failed');
+        setValidationResult(data);
       }
     } catch (error) {
       console.error('Validation error:', error);
-      setValidationError('Network error during validation');
+      setValidationError(error instanceof Error ? error.message : 'Validation failed');
     } finally {
       setIsValidating(false);
     }
@@ -285,6 +306,7 @@ export function CreatorDashboard({ user, token, onLogout, onNavigateToContentCre
     setSelectedContent(content);
     setIsCreating(false);
     setValidationResult(null);
+    setIncompleteReason(null);
   };
 
   const handleCreateContentFromAssignment = (assignment: any) => {
@@ -310,6 +332,7 @@ export function CreatorDashboard({ user, token, onLogout, onNavigateToContentCre
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'DRAFT': return 'bg-gray-100 text-gray-800';
+      case 'VALIDATING': return 'bg-blue-100 text-blue-600';
       case 'REVIEW': return 'bg-orange-100 text-orange-600';
       case 'APPROVED': return 'bg-green-100 text-green-600';
       case 'REJECTED': return 'bg-red-100 text-red-800';
@@ -866,7 +889,7 @@ export function CreatorDashboard({ user, token, onLogout, onNavigateToContentCre
 
                       <div>
                         <label className="block text-sm font-medium text-text-light mb-2">Content</label>
-                        <EditorSplit value={content} onChange={setContent} issues={[]} />
+                        <EditorSplit value={content} onChange={setContent} issues={validationIssues} focusedIssue={focusedIssue} />
                       </div>
 
                       <div className="flex justify-end gap-3">
@@ -933,6 +956,9 @@ export function CreatorDashboard({ user, token, onLogout, onNavigateToContentCre
                 onValidate={validateContent}
                 isValidating={isValidating}
                 validationError={validationError}
+                incompleteReason={incompleteReason}
+                liveResults={liveResults}
+                onJumpToIssue={isEditingSelected ? jumpToIssue : undefined}
               />
             </aside>
             </div>
@@ -0,0 +1,299 @@
+import { useState, useEffect } from 'react';
+import { apiCall } from '../utils/api';
+import type { CurriculumCourse } from '../utils/curriculum';
+
+type Props = {
+  token: string;
+};
+
+type LinkResult = {
+  linked: number;
+  unmatched: string[];
+  ambiguous: string[];
+};
+
+// Swaps an item with its neighbour, returning the new id order or null at either end
+function moved(ids: string[], index: number, direction: -1 | 1): string[] | null {
+  const target = index + direction;
+  if (target < 0 || target >= ids.length) {
+    return null;
+  }
+  const order = [...ids];
+  [order[index], order[target]] = [order[target]!, order[index]!];
+  return order;
+}
+
+export function CurriculumEditor({ token }: Props) {
+  const [courses, setCourses] = useState<CurriculumCourse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [newCourseName, setNewCourseName] = useState('');
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    const fetchCourses = async () => {
+      try {
+        const res = await apiCall('/api/curriculum/courses', {
+          headers: { Authorization: `Bearer ${token}` }
+        });
+        if (res.ok) {
+          const data = await res.json();
+          setCourses(data.courses);
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchCourses().catch(error => console.error('Error fetching curriculum:', error));
+  }, [token, reloadCount]);
+
+  // Sends one change and reloads the outline; returns the response body on success
+  const send = async (path: string, method: string, body?: unknown) => {
+    setSaving(true);
+    try {
+      const res = await apiCall(`/api/curriculum${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`
+        },
+        ...(body !== undefined && { body: JSON.stringify(body) })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(`Error saving curriculum: ${data.error}`);
+        return null;
+      }
+      setReloadCount(count => count + 1);
+      return data;
+    } catch (error) {
+      console.error('Error saving curriculum:', error);
+      alert('Failed to save curriculum');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const rename = (path: string, current: string, label: string) => {
+    const name = prompt(`New name for this ${label}:`, current);
+    if (name?.trim() && name.trim() !== current) {
+      send(path, 'PUT', { name: name.trim() });
+    }
+  };
+
+  const remove = (path: string, name: string, label: string) => {
+    if (confirm(`Delete the ${label} "${name}"? Assignments on its topics keep their topic but are no longer linked to the curriculum.`)) {
+      send(path, 'DELETE');
+    }
+  };
+
+  const add = (path: string, label: string) => {
+    const name = prompt(`Name of the new ${label}:`);
+    if (name?.trim()) {
+      send(path, 'POST', { name: name.trim() });
+    }
+  };
+
+  const editConcepts = (topicId: string, current: string[]) => {
+    const input = prompt('Concepts this topic introduces, separated by commas. Content on earlier topics that uses them is flagged.', current.join(', '));
+    if (input === null) {
+      return;
+    }
+    const concepts = [...new Set(input.split(',').map(concept => concept.trim()).filter(Boolean))];
+    send(`/topics/${topicId}`, 'PUT', { concepts });
+  };
+
+  const createCourse = async () => {
+    if (!newCourseName.trim()) {
+      return;
+    }
+    if (await send('/courses', 'POST', { name: newCourseName.trim() })) {
+      setNewCourseName('');
+    }
+  };
+
+  const linkAssignments = async () => {
+    const result: LinkResult | null = await send('/link-assignments', 'POST');
+    if (!result) {
+      return;
+    }
+    const lines = [`Linked ${result.linked} assignment${result.linked === 1 ? '' : 's'} to curriculum topics.`];
+    if (result.unmatched.length > 0) {
+      lines.push(`No topic with the name: ${result.unmatched.join(', ')}`);
+    }
+    if (result.ambiguous.length > 0) {
+      lines.push(`More than one topic with the name (link these by hand): ${result.ambiguous.join(', ')}`);
+    }
+    alert(lines.join('\n\n'));
+  };
+
+  const buttonClass = 'px-2 py-1 text-xs text-gray-600 rounded hover:bg-gray-100 disabled:opacity-40';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="p-6 border-b border-gray-200 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Curriculum</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Courses are taught module by module, topic by topic. An assignment on a topic is validated against every topic above it in its course.
+          </p>
+        </div>
+        <button
+          onClick={linkAssignments}
+          disabled={saving}
+          className="px-4 py-2 text-sm bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50 whitespace-nowrap"
+          title="Link assignments created before the curriculum to the topic with the same name"
+        >
+          Link Existing Assignments
+        </button>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newCourseName}
+            onChange={(e) => setNewCourseName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && createCourse()}
+            placeholder="New course name"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <button
+            onClick={createCourse}
+            disabled={saving || !newCourseName.trim()}
+            className="px-4 py-2 text-sm bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50"
+          >
+            Add Course
+          </button>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : courses.length === 0 ? (
+          <p className="text-sm text-gray-500">No courses yet.</p>
+        ) : (
+          courses.map(course => {
+            const moduleIds = course.modules.map(module => module.id);
+            return (
+              <div key={course.id} className="border border-gray-200 rounded-lg">
+                <div className="flex items-center justify-between px-4 py-3 bg-gray-50 rounded-t-lg">
+                  <h3 className="font-semibold text-gray-900">{course.name}</h3>
+                  <div className="flex gap-1">
+                    <button onClick={() => add(`/courses/${course.id}/modules`, 'module')} disabled={saving} className={buttonClass}>Add module</button>
+                    <button onClick={() => rename(`/courses/${course.id}`, course.name, 'course')} disabled={saving} className={buttonClass}>Rename</button>
+                    <button onClick={() => remove(`/courses/${course.id}`, course.name, 'course')} disabled={saving} className={`${buttonClass} text-red-600`}>Delete</button>
+                  </div>
+                </div>
+
+                {course.modules.length === 0 ? (
+                  <p className="px-4 py-3 text-sm text-gray-500">No modules yet.</p>
+                ) : (
+                  <ol className="divide-y divide-gray-100">
+                    {course.modules.map((module, moduleIndex) => {
+                      const topicIds = module.topics.map(topic => topic.id);
+                      const moduleOrder = (direction: -1 | 1) => moved(moduleIds, moduleIndex, direction);
+                      return (
+                        <li key={module.id} className="px-4 py-3">
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm font-medium text-gray-800">
+                              {moduleIndex + 1}. {module.name}
+                            </span>
+                            <div className="flex gap-1">
+                              <button
+                                onClick={() => send(`/courses/${course.id}/modules/order`, 'PUT', { ids: moduleOrder(-1) })}
+                                disabled={saving || !moduleOrder(-1)}
+                                className={buttonClass}
+                                title="Move up"
+                              >
+                                ↑
+                              </button>
+                              <button
+                                onClick={() => send(`/courses/${course.id}/modules/order`, 'PUT', { ids: moduleOrder(1) })}
+                                disabled={saving || !moduleOrder(1)}
+                                className={buttonClass}
+                                title="Move down"
+                              >
+                                ↓
+                              </button>
+                              <button onClick={() => add(`/modules/${module.id}/topics`, 'topic')} disabled={saving} className={buttonClass}>Add topic</button>
+                              <button onClick={() => rename(`/modules/${module.id}`, module.name, 'module')} disabled={saving} className={buttonClass}>Rename</button>
+                              <button onClick={() => remove(`/modules/${module.id}`, module.name, 'module')} disabled={saving} className={`${buttonClass} text-red-600`}>Delete</button>
+                            </div>
+                          </div>
+
+                          {module.topics.length > 0 && (
+                            <ol className="mt-2 ml-4 space-y-1">
+                              {module.topics.map((topic, topicIndex) => {
+                                const topicOrder = (direction: -1 | 1) => moved(topicIds, topicIndex, direction);
+                                return (
+                                  <li key={topic.id} className="flex items-center justify-between text-sm">
+                                    <div>
+                                      <span className="text-gray-700">
+                                        {moduleIndex + 1}.{topicIndex + 1} {topic.name}
+                                        {topic._count.assignments > 0 && (
+                                          <span className="ml-2 text-xs text-gray-400">
+                                            {topic._count.assignments} assignment{topic._count.assignments === 1 ? '' : 's'}
+                                          </span>
+                                        )}
+                                      </span>
+                                      {topic.concepts.length > 0 && (
+                                        <div className="flex flex-wrap gap-1 mt-0.5">
+                                          {topic.concepts.map(concept => (
+                                            <span key={concept} className="px-1.5 py-0.5 bg-blue-50 text-blue-700 rounded text-xs">{concept}</span>
+                                          ))}
+                                        </div>
+                                      )}
+                                    </div>
+                                    <div className="flex items-center gap-1">
+                                      <button
+                                        onClick={() => send(`/modules/${module.id}/topics/order`, 'PUT', { ids: topicOrder(-1) })}
+                                        disabled={saving || !topicOrder(-1)}
+                                        className={buttonClass}
+                                        title="Move up"
+                                      >
+                                        ↑
+                                      </button>
+                                      <button
+                                        onClick={() => send(`/modules/${module.id}/topics/order`, 'PUT', { ids: topicOrder(1) })}
+                                        disabled={saving || !topicOrder(1)}
+                                        className={buttonClass}
+                                        title="Move down"
+                                      >
+                                        ↓
+                                      </button>
+                                      {course.modules.length > 1 && (
+                                        <select
+                                          value=""
+                                          onChange={(e) => e.target.value && send(`/topics/${topic.id}`, 'PUT', { moduleId: e.target.value })}
+                                          disabled={saving}
+                                          className="text-xs text-gray-600 border border-gray-200 rounded px-1 py-0.5"
+                                        >
+                                          <option value="">Move to...</option>
+                                          {course.modules.filter(other => other.id !== module.id).map(other => (
+                                            <option key={other.id} value={other.id}>{other.name}</option>
+                                          ))}
+                                        </select>
+                                      )}
+                                      <button onClick={() => editConcepts(topic.id, topic.concepts)} disabled={saving} className={buttonClass}>Concepts</button>
+                                      <button onClick={() => rename(`/topics/${topic.id}`, topic.name, 'topic')} disabled={saving} className={buttonClass}>Rename</button>
+                                      <button onClick={() => remove(`/topics/${topic.id}`, topic.name, 'topic')} disabled={saving} className={`${buttonClass} text-red-600`}>Delete</button>
+                                    </div>
+                                  </li>
+                                );
+                              })}
+                            </ol>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
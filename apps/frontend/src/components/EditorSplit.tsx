@@ -1,4 +1,5 @@
-import { useRef } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { MouseEvent, ReactNode } from 'react'
 // Temporarily disable CodeMirror to resolve runtime issues
 // import { EditorView } from '@codemirror/view'
 // import { basicSetup } from '@codemirror/basic-setup'
@@ -9,20 +10,49 @@ import rehypeHighlight from 'rehype-highlight'
 import 'highlight.js/styles/github.css'
 import { MarkdownComponents } from '../utils/markdownComponents'
 
-type Issue = { start: number; end: number; message: string; severity: 'critical' | 'important' | 'minor' }
+// quote is the text the issue was reported on; once the range no longer holds it the issue is stale
+type Issue = { start: number; end: number; message: string; severity: 'critical' | 'important' | 'minor'; quote?: string }
 
 type Props = {
   value: string
   onChange: (v: string) => void
   preview?: boolean
   issues?: Issue[]
+  // Selected and scrolled into view each time a new issue object is passed
+  focusedIssue?: Issue | null
 }
 
-export function EditorSplit({ value, onChange }: Props) {
+const SEVERITY_LABELS: Record<Issue['severity'], string> = {
+  critical: 'Critical',
+  important: 'Important',
+  minor: 'Minor',
+}
+
+// Issues that still line up with the text, without overlaps (plain text highlights can't nest)
+function highlightableIssues(value: string, issues: Issue[]): Issue[] {
+  const current = issues
+    .filter(issue => issue.end <= value.length && (issue.quote === undefined || value.slice(issue.start, issue.end) === issue.quote))
+    .sort((a, b) => a.start - b.start)
+
+  const result: Issue[] = []
+  for (const issue of current) {
+    const previous = result[result.length - 1]
+    if (!previous || issue.start >= previous.end) {
+      result.push(issue)
+    }
+  }
+  return result
+}
+
+export function EditorSplit({ value, onChange, issues = [], focusedIssue }: Props) {
   // const cmRef = useRef<HTMLDivElement | null>(null)
   // const [cmView, setCmView] = useState<EditorView | null>(null)
   const editorTextareaRef = useRef<HTMLTextAreaElement>(null)
+  const highlightsRef = useRef<HTMLDivElement>(null)
   const previewRef = useRef<HTMLDivElement>(null)
+  const [hoveredIssue, setHoveredIssue] = useState<Issue | null>(null)
+
+  const visibleIssues = useMemo(() => highlightableIssues(value, issues), [value, issues])
 
   // useEffect(() => {
   //   if (!cmRef.current || cmView) return
@@ -45,11 +75,50 @@ export function EditorSplit({ value, onChange }: Props) {
   //   }
   // }, [value, cmView])
 
-  // Note: Issues highlighting could be implemented with textarea overlays if needed
-  // For now, we'll focus on consistency with the main ContentCreation editor
+  // Issues are highlighted on a layer behind the transparent textarea that mirrors its text and wrapping
+  const highlightedText: ReactNode[] = []
+  let position = 0
+  visibleIssues.forEach((issue, index) => {
+    highlightedText.push(value.slice(position, issue.start))
+    highlightedText.push(
+      <mark key={index} data-issue-index={index} data-issue-range={`${issue.start}:${issue.end}`} className={`dec-${issue.severity} text-transparent rounded-sm`}>
+        {value.slice(issue.start, issue.end)}
+      </mark>
+    )
+    position = issue.end
+  })
+  // A trailing newline only takes up a line when something follows it
+  highlightedText.push(`${value.slice(position)}\u200b`)
+
+  useEffect(() => {
+    const editor = editorTextareaRef.current
+    if (!focusedIssue || !editor) return
+    // Only issues still highlighted can be jumped to; a stale range would select the wrong text
+    const mark = highlightsRef.current?.querySelector<HTMLElement>(`[data-issue-range="${focusedIssue.start}:${focusedIssue.end}"]`)
+    if (!mark) return
+
+    editor.focus()
+    editor.setSelectionRange(focusedIssue.start, focusedIssue.end)
+    editor.scrollTop = Math.max(0, mark.offsetTop - editor.clientHeight / 3)
+  }, [focusedIssue])
+
+  // The textarea sits on top, so hovering is matched against the highlight boxes by position
+  const handleEditorMouseMove = (e: MouseEvent<HTMLTextAreaElement>) => {
+    const marks = highlightsRef.current?.querySelectorAll<HTMLElement>('mark') ?? []
+    const hovered = Array.from(marks).find(mark => Array.from(mark.getClientRects()).some(rect =>
+      e.clientX >= rect.left && e.clientX <= rect.right && e.clientY >= rect.top && e.clientY <= rect.bottom
+    ))
+    const issue = hovered ? visibleIssues[Number(hovered.dataset.issueIndex)] ?? null : null
+    if (issue !== hoveredIssue) {
+      setHoveredIssue(issue)
+    }
+  }
 
   // Synchronized scrolling for split view
   const handleEditorScroll = () => {
+    if (editorTextareaRef.current && highlightsRef.current) {
+      highlightsRef.current.scrollTop = editorTextareaRef.current.scrollTop
+    }
     if (editorTextareaRef.current && previewRef.current) {
       const editor = editorTextareaRef.current
       const preview = previewRef.current
@@ -68,18 +137,37 @@ export function EditorSplit({ value, onChange }: Props) {
             <div className="bg-gray-50 px-4 py-2 border-b border-gray-200 text-left">
               <span className="text-sm font-medium text-gray-700">MARKDOWN EDITOR</span>
             </div>
-            <textarea
-              ref={editorTextareaRef}
-              className="flex-1 p-4 border-none outline-none resize-none font-mono text-sm text-gray-900 placeholder-gray-500"
-              placeholder="Start writing your content here..."
-              value={value}
-              onChange={(e) => onChange(e.target.value)}
-              onScroll={handleEditorScroll}
-              style={{ 
-                textAlign: 'left',
-                direction: 'ltr'
-              }}
-            />
+            <div className="relative flex-1 min-h-0 bg-white">
+              <div
+                ref={highlightsRef}
+                aria-hidden="true"
+                className="absolute inset-0 p-4 overflow-hidden font-mono text-sm text-transparent whitespace-pre-wrap break-words pointer-events-none"
+                style={{ textAlign: 'left', direction: 'ltr', scrollbarGutter: 'stable' }}
+              >
+                {highlightedText}
+              </div>
+              <textarea
+                ref={editorTextareaRef}
+                className="absolute inset-0 w-full h-full p-4 border-none outline-none resize-none bg-transparent font-mono text-sm text-gray-900 placeholder-gray-500"
+                placeholder="Start writing your content here..."
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                onScroll={handleEditorScroll}
+                onMouseMove={handleEditorMouseMove}
+                onMouseLeave={() => setHoveredIssue(null)}
+                title={hoveredIssue ? `${SEVERITY_LABELS[hoveredIssue.severity]}: ${hoveredIssue.message}` : undefined}
+                style={{ 
+                  textAlign: 'left',
+                  direction: 'ltr',
+                  scrollbarGutter: 'stable'
+                }}
+              />
+            </div>
+            {visibleIssues.length > 0 && (
+              <div className="bg-gray-50 px-4 py-1 border-t border-gray-200 text-left text-xs text-gray-500">
+                {visibleIssues.length} issue{visibleIssues.length === 1 ? '' : 's'} highlighted; hover one for details
+              </div>
+            )}
           </div>
           
           {/* Preview Pane */}
@@ -0,0 +1,792 @@
+import { useState, useEffect } from 'react';
+import { apiCall } from '../utils/api';
+
+type ContentType = 'PRE_READ' | 'ASSIGNMENT' | 'LECTURE_NOTE';
+type Verdict = 'APPROVE' | 'REJECT';
+type Difficulty = 'EASY' | 'MEDIUM' | 'HARD';
+
+type GoldenSetItem = {
+  id: string;
+  title: string;
+  contentType: ContentType;
+  topic: string;
+  topicsTaughtSoFar: string[];
+  difficulty: Difficulty | null;
+  content: string;
+  expectedMinScore: number;
+  expectedMaxScore: number;
+  expectedVerdict: Verdict | null;
+  notes: string | null;
+  isActive: boolean;
+  createdBy: { name: string; email: string };
+};
+
+type PromptVersion = {
+  id: string;
+  name: string;
+  version: number;
+  isActive: boolean;
+};
+
+type GoldenOutcome = {
+  score: number | null;
+  inBand: boolean;
+  verdict: Verdict | null;
+  flaggedForReview: boolean;
+  error?: string;
+};
+
+type ItemStatus = 'PASS' | 'DRIFTED' | 'RECOVERED' | 'OUT_OF_BAND' | 'ERROR';
+
+type ItemResult = {
+  itemId: string;
+  title: string;
+  contentType: ContentType;
+  expectedMinScore: number;
+  expectedMaxScore: number;
+  expectedVerdict: Verdict | null;
+  production: GoldenOutcome;
+  candidate: GoldenOutcome;
+  delta: number | null;
+  status: ItemStatus;
+};
+
+type SideSummary = {
+  inBand: number;
+  errors: number;
+  flagged: number;
+  meanScore: number | null;
+  verdictsChecked: number;
+  verdictMatches: number;
+};
+
+type RunSummary = {
+  items: number;
+  pass: number;
+  drifted: number;
+  recovered: number;
+  outOfBand: number;
+  errors: number;
+  meanAbsDelta: number | null;
+  production: SideSummary;
+  candidate: SideSummary;
+};
+
+type GoldenSetRun = {
+  id: string;
+  name: string | null;
+  status: 'RUNNING' | 'COMPLETED' | 'FAILED';
+  useStubProvider: boolean;
+  candidate: { contentType?: ContentType; promptTemplateId?: string; approveThreshold: number };
+  itemCount: number;
+  results?: ItemResult[];
+  summary: RunSummary | null;
+  error: string | null;
+  startedAt: string;
+  completedAt: string | null;
+  requestedBy: { name: string; email: string };
+};
+
+type ItemDraft = {
+  title: string;
+  contentType: ContentType;
+  topic: string;
+  topicsTaughtSoFar: string;
+  difficulty: Difficulty | '';
+  content: string;
+  expectedMinScore: number;
+  expectedMaxScore: number;
+  expectedVerdict: Verdict | '';
+  notes: string;
+};
+
+type Props = {
+  token: string;
+};
+
+const CONTENT_TYPE_OPTIONS: Array<{ value: ContentType; label: string }> = [
+  { value: 'ASSIGNMENT', label: 'Assignment' },
+  { value: 'LECTURE_NOTE', label: 'Lecture Note' },
+  { value: 'PRE_READ', label: 'Pre-Read' },
+];
+
+const STATUS_STYLES: Record<ItemStatus, { label: string; className: string }> = {
+  PASS: { label: 'Pass', className: 'bg-green-100 text-green-800' },
+  DRIFTED: { label: 'Drifted', className: 'bg-red-100 text-red-800' },
+  RECOVERED: { label: 'Recovered', className: 'bg-blue-100 text-blue-800' },
+  OUT_OF_BAND: { label: 'Out of band', className: 'bg-yellow-100 text-yellow-800' },
+  ERROR: { label: 'Error', className: 'bg-gray-100 text-gray-700' },
+};
+
+const EMPTY_DRAFT: ItemDraft = {
+  title: '',
+  contentType: 'ASSIGNMENT',
+  topic: '',
+  topicsTaughtSoFar: '',
+  difficulty: '',
+  content: '',
+  expectedMinScore: 60,
+  expectedMaxScore: 80,
+  expectedVerdict: '',
+  notes: '',
+};
+
+const POLL_INTERVAL_MS = 3000;
+
+function contentTypeLabel(contentType: ContentType): string {
+  return CONTENT_TYPE_OPTIONS.find(option => option.value === contentType)?.label ?? contentType;
+}
+
+function formatOutcome(outcome: GoldenOutcome): string {
+  if (outcome.score === null) return outcome.error ? `— (${outcome.error})` : '—';
+  return `${outcome.score}${outcome.verdict ? ` · ${outcome.verdict === 'APPROVE' ? 'approve' : 'reject'}` : ''}`;
+}
+
+export function GoldenSet({ token }: Props) {
+  const [items, setItems] = useState<GoldenSetItem[]>([]);
+  const [runs, setRuns] = useState<GoldenSetRun[]>([]);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  const [draft, setDraft] = useState<ItemDraft>(EMPTY_DRAFT);
+  const [editingItemId, setEditingItemId] = useState<string | null>(null);
+  const [savingItem, setSavingItem] = useState(false);
+
+  const [runName, setRunName] = useState('');
+  const [runContentType, setRunContentType] = useState<ContentType | ''>('');
+  const [candidatePromptId, setCandidatePromptId] = useState('');
+  const [promptVersions, setPromptVersions] = useState<PromptVersion[]>([]);
+  const [approveThreshold, setApproveThreshold] = useState(70);
+  const [useStubProvider, setUseStubProvider] = useState(true);
+  const [startingRun, setStartingRun] = useState(false);
+
+  const [selectedRun, setSelectedRun] = useState<GoldenSetRun | null>(null);
+
+  useEffect(() => {
+    const fetchGoldenSet = async () => {
+      const [itemsRes, runsRes] = await Promise.all([
+        apiCall('/api/super-admin/golden-set/items', {
+          headers: { Authorization: `Bearer ${token}` }
+        }),
+        apiCall('/api/super-admin/golden-set/runs', {
+          headers: { Authorization: `Bearer ${token}` }
+        }),
+      ]);
+      if (itemsRes.ok) {
+        const data = await itemsRes.json();
+        setItems(data.items);
+      }
+      if (runsRes.ok) {
+        const data = await runsRes.json();
+        setRuns(data.runs);
+      }
+    };
+    fetchGoldenSet().catch(error => console.error('Error fetching golden set:', error));
+  }, [token, reloadCount]);
+
+  // A candidate prompt only makes sense for one content type
+  useEffect(() => {
+    setCandidatePromptId('');
+    if (!runContentType) {
+      setPromptVersions([]);
+      return;
+    }
+    const fetchVersions = async () => {
+      const res = await apiCall(`/api/super-admin/prompts/history/${runContentType}`, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      if (res.ok) {
+        const data = await res.json();
+        setPromptVersions(data.versions);
+      }
+    };
+    fetchVersions().catch(error => console.error('Error fetching prompt versions:', error));
+  }, [runContentType, token]);
+
+  // Keep the open run fresh until it finishes
+  const selectedRunId = selectedRun?.id;
+  const selectedRunStatus = selectedRun?.status;
+  useEffect(() => {
+    if (!selectedRunId || selectedRunStatus !== 'RUNNING') return;
+    const timer = setInterval(async () => {
+      try {
+        const res = await apiCall(`/api/super-admin/golden-set/runs/${selectedRunId}`, {
+          headers: { Authorization: `Bearer ${token}` }
+        });
+        if (res.ok) {
+          const data = await res.json();
+          setSelectedRun(data.run);
+          if (data.run.status !== 'RUNNING') {
+            setReloadCount(count => count + 1);
+          }
+        }
+      } catch (error) {
+        console.error('Error polling golden-set run:', error);
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [selectedRunId, selectedRunStatus, token]);
+
+  const editItem = (item: GoldenSetItem) => {
+    setEditingItemId(item.id);
+    setDraft({
+      title: item.title,
+      contentType: item.contentType,
+      topic: item.topic,
+      topicsTaughtSoFar: item.topicsTaughtSoFar.join(', '),
+      difficulty: item.difficulty ?? '',
+      content: item.content,
+      expectedMinScore: item.expectedMinScore,
+      expectedMaxScore: item.expectedMaxScore,
+      expectedVerdict: item.expectedVerdict ?? '',
+      notes: item.notes ?? '',
+    });
+  };
+
+  const resetDraft = () => {
+    setEditingItemId(null);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const saveItem = async () => {
+    if (!draft.title.trim() || !draft.topic.trim() || !draft.content.trim()) {
+      alert('Title, topic and content are required');
+      return;
+    }
+    if (draft.expectedMinScore > draft.expectedMaxScore) {
+      alert('The expected minimum score must not exceed the maximum');
+      return;
+    }
+
+    setSavingItem(true);
+    try {
+      const res = await apiCall(
+        editingItemId ? `/api/super-admin/golden-set/items/${editingItemId}` : '/api/super-admin/golden-set/items',
+        {
+          method: editingItemId ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`
+          },
+          body: JSON.stringify({
+            title: draft.title,
+            contentType: draft.contentType,
+            topic: draft.topic,
+            topicsTaughtSoFar: draft.topicsTaughtSoFar.split(',').map(topic => topic.trim()).filter(Boolean),
+            difficulty: draft.contentType === 'ASSIGNMENT' && draft.difficulty ? draft.difficulty : null,
+            content: draft.content,
+            expectedMinScore: draft.expectedMinScore,
+            expectedMaxScore: draft.expectedMaxScore,
+            expectedVerdict: draft.expectedVerdict || null,
+            notes: draft.notes.trim() || null,
+          })
+        }
+      );
+      if (res.ok) {
+        resetDraft();
+        setReloadCount(count => count + 1);
+      } else {
+        const error = await res.json();
+        alert(`Error saving golden-set item: ${error.error}`);
+      }
+    } catch (error) {
+      console.error('Error saving golden-set item:', error);
+      alert('Failed to save golden-set item');
+    } finally {
+      setSavingItem(false);
+    }
+  };
+
+  const toggleItem = async (item: GoldenSetItem) => {
+    try {
+      const res = await apiCall(`/api/super-admin/golden-set/items/${item.id}/toggle`, {
+        method: 'PATCH',
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      if (res.ok) {
+        setReloadCount(count => count + 1);
+      } else {
+        const error = await res.json();
+        alert(`Error updating golden-set item: ${error.error}`);
+      }
+    } catch (error) {
+      console.error('Error toggling golden-set item:', error);
+      alert('Failed to update golden-set item');
+    }
+  };
+
+  const startRun = async () => {
+    setStartingRun(true);
+    try {
+      const res = await apiCall('/api/super-admin/golden-set/runs', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`
+        },
+        body: JSON.stringify({
+          ...(runName.trim() && { name: runName.trim() }),
+          useStubProvider,
+          candidate: {
+            ...(runContentType && { contentType: runContentType }),
+            ...(candidatePromptId && { promptTemplateId: candidatePromptId }),
+            approveThreshold,
+          },
+        })
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setRunName('');
+        setSelectedRun({ ...data.run, results: [] });
+        setReloadCount(count => count + 1);
+      } else {
+        const details = Array.isArray(data.details)
+          ? `\n\n${data.details.map((detail: unknown) => typeof detail === 'string' ? detail : (detail as { message?: string }).message).join('\n')}`
+          : '';
+        alert(`Error starting golden-set run: ${data.error}${details}`);
+      }
+    } catch (error) {
+      console.error('Error starting golden-set run:', error);
+      alert('Failed to start golden-set run');
+    } finally {
+      setStartingRun(false);
+    }
+  };
+
+  const openRun = async (runId: string) => {
+    try {
+      const res = await apiCall(`/api/super-admin/golden-set/runs/${runId}`, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setSelectedRun(data.run);
+      } else {
+        alert(`Error loading golden-set run: ${data.error}`);
+      }
+    } catch (error) {
+      console.error('Error loading golden-set run:', error);
+      alert('Failed to load golden-set run');
+    }
+  };
+
+  const activeItemCount = items.filter(item => item.isActive && (!runContentType || item.contentType === runContentType)).length;
+  const selectedResults = selectedRun?.results ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Golden Set</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Curated content with expected score bands. Run it against a candidate prompt or model setup and compare with production before switching.
+        </p>
+      </div>
+
+      {/* Run */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+        <h3 className="text-sm font-medium text-gray-900">New Run</h3>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Name (optional)</label>
+            <input
+              type="text"
+              value={runName}
+              onChange={(e) => setRunName(e.target.value)}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+              placeholder="e.g., Prompt v7 check"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Content Type</label>
+            <select
+              value={runContentType}
+              onChange={(e) => setRunContentType(e.target.value as ContentType | '')}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="">All types</option>
+              {CONTENT_TYPE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Candidate Prompt</label>
+            <select
+              value={candidatePromptId}
+              onChange={(e) => setCandidatePromptId(e.target.value)}
+              disabled={!runContentType}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-50"
+            >
+              <option value="">Same as production</option>
+              {promptVersions.map(version => (
+                <option key={version.id} value={version.id}>
+                  v{version.version} - {version.name}{version.isActive ? ' (active)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Approve at or above</label>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={approveThreshold}
+              onChange={(e) => setApproveThreshold(Math.min(100, Math.max(0, Math.round(Number(e.target.value)))))}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={useStubProvider}
+              onChange={(e) => setUseStubProvider(e.target.checked)}
+              className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Use the stub provider (offline, no model calls or cost)
+          </label>
+          <button
+            onClick={startRun}
+            disabled={startingRun || activeItemCount === 0}
+            className="px-4 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+          >
+            {startingRun ? 'Starting...' : `Run ${activeItemCount} Item${activeItemCount === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+
+      {/* Selected run report */}
+      {selectedRun && (
+        <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-sm font-medium text-gray-900">
+                {selectedRun.name || 'Golden-set run'}
+                {selectedRun.useStubProvider && <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">Stub</span>}
+              </h3>
+              <p className="text-xs text-gray-500 mt-1">
+                {selectedRun.status === 'RUNNING'
+                  ? `Running: ${selectedResults.length} of ${selectedRun.itemCount} items done`
+                  : selectedRun.status === 'FAILED'
+                  ? `Failed: ${selectedRun.error ?? 'unknown error'}`
+                  : `Completed ${selectedRun.completedAt ? new Date(selectedRun.completedAt).toLocaleString() : ''}`}
+              </p>
+            </div>
+            <button onClick={() => setSelectedRun(null)} className="text-xs text-gray-500 hover:text-gray-700">Close</button>
+          </div>
+
+          {selectedRun.summary && (
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+              {[
+                { label: 'Pass', value: selectedRun.summary.pass, className: 'text-green-700' },
+                { label: 'Drifted', value: selectedRun.summary.drifted, className: 'text-red-700' },
+                { label: 'Recovered', value: selectedRun.summary.recovered, className: 'text-blue-700' },
+                { label: 'Out of band', value: selectedRun.summary.outOfBand, className: 'text-yellow-700' },
+                { label: 'Errors', value: selectedRun.summary.errors, className: 'text-gray-700' },
+                { label: 'Mean |Δ|', value: selectedRun.summary.meanAbsDelta ?? '—', className: 'text-gray-900' },
+              ].map(card => (
+                <div key={card.label} className="border border-gray-200 rounded-md p-3">
+                  <div className="text-xs text-gray-500">{card.label}</div>
+                  <div className={`text-xl font-semibold ${card.className}`}>{card.value}</div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {selectedRun.summary && (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 uppercase">
+                  <th className="py-1 text-left font-medium"></th>
+                  <th className="py-1 text-right font-medium">In Band</th>
+                  <th className="py-1 text-right font-medium">Mean Score</th>
+                  <th className="py-1 text-right font-medium">Verdict Matches</th>
+                  <th className="py-1 text-right font-medium">Flagged</th>
+                  <th className="py-1 text-right font-medium">Errors</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(['production', 'candidate'] as const).map(side => {
+                  const summary = selectedRun.summary![side];
+                  return (
+                    <tr key={side}>
+                      <td className="py-1 text-gray-900">{side === 'production' ? 'Production' : 'Candidate'}</td>
+                      <td className="py-1 text-right text-gray-600">{summary.inBand} / {selectedRun.summary!.items}</td>
+                      <td className="py-1 text-right text-gray-600">{summary.meanScore ?? '—'}</td>
+                      <td className="py-1 text-right text-gray-600">
+                        {summary.verdictsChecked > 0 ? `${summary.verdictMatches} / ${summary.verdictsChecked}` : '—'}
+                      </td>
+                      <td className="py-1 text-right text-gray-600">{summary.flagged}</td>
+                      <td className="py-1 text-right text-gray-600">{summary.errors}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+
+          {selectedResults.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Expected</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Production</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Candidate</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Δ</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {selectedResults.map(result => (
+                    <tr key={result.itemId} className={result.status === 'DRIFTED' ? 'bg-red-50' : ''}>
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-gray-900">{result.title}</div>
+                        <div className="text-xs text-gray-500">{contentTypeLabel(result.contentType)}</div>
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-600">
+                        {result.expectedMinScore}–{result.expectedMaxScore}
+                        {result.expectedVerdict && <span className="text-xs text-gray-400"> · {result.expectedVerdict === 'APPROVE' ? 'approve' : 'reject'}</span>}
+                      </td>
+                      <td className={`px-3 py-2 text-right ${result.production.inBand ? 'text-gray-600' : 'text-yellow-700'}`}>
+                        {formatOutcome(result.production)}
+                      </td>
+                      <td className={`px-3 py-2 text-right ${result.candidate.inBand ? 'text-gray-600' : 'text-red-700 font-medium'}`}>
+                        {formatOutcome(result.candidate)}
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-600">
+                        {result.delta === null ? '—' : `${result.delta > 0 ? '+' : ''}${result.delta}`}
+                      </td>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_STYLES[result.status].className}`}>
+                          {STATUS_STYLES[result.status].label}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Recent runs */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+        <h3 className="text-sm font-medium text-gray-900">Recent Runs</h3>
+        {runs.length === 0 ? (
+          <p className="text-sm text-gray-500">No golden-set runs yet.</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase">
+                <th className="py-1 text-left font-medium">Run</th>
+                <th className="py-1 text-left font-medium">Started</th>
+                <th className="py-1 text-right font-medium">Items</th>
+                <th className="py-1 text-right font-medium">Drifted</th>
+                <th className="py-1 text-left font-medium pl-4">Status</th>
+                <th className="py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map(run => (
+                <tr key={run.id}>
+                  <td className="py-1 text-gray-900">
+                    {run.name || 'Unnamed run'}
+                    {run.useStubProvider && <span className="ml-2 text-xs text-gray-400">stub</span>}
+                  </td>
+                  <td className="py-1 text-gray-600">
+                    {new Date(run.startedAt).toLocaleString()} by {run.requestedBy.name || run.requestedBy.email}
+                  </td>
+                  <td className="py-1 text-right text-gray-600">{run.itemCount}</td>
+                  <td className={`py-1 text-right ${run.summary && run.summary.drifted > 0 ? 'text-red-700 font-medium' : 'text-gray-600'}`}>
+                    {run.summary?.drifted ?? '—'}
+                  </td>
+                  <td className="py-1 pl-4 text-gray-600">{run.status.charAt(0) + run.status.slice(1).toLowerCase()}</td>
+                  <td className="py-1 text-right">
+                    <button onClick={() => openRun(run.id)} className="text-xs text-indigo-600 hover:text-indigo-800">
+                      View
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Items */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+        <h3 className="text-sm font-medium text-gray-900">{editingItemId ? 'Edit Item' : 'Add Item'}</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Title</label>
+            <input
+              type="text"
+              value={draft.title}
+              onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Content Type</label>
+            <select
+              value={draft.contentType}
+              onChange={(e) => setDraft(prev => ({ ...prev, contentType: e.target.value as ContentType }))}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              {CONTENT_TYPE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Topic</label>
+            <input
+              type="text"
+              value={draft.topic}
+              onChange={(e) => setDraft(prev => ({ ...prev, topic: e.target.value }))}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Topics Taught So Far (comma-separated)</label>
+            <input
+              type="text"
+              value={draft.topicsTaughtSoFar}
+              onChange={(e) => setDraft(prev => ({ ...prev, topicsTaughtSoFar: e.target.value }))}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+          {draft.contentType === 'ASSIGNMENT' && (
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Difficulty</label>
+              <select
+                value={draft.difficulty}
+                onChange={(e) => setDraft(prev => ({ ...prev, difficulty: e.target.value as Difficulty | '' }))}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="">Not set</option>
+                <option value="EASY">Easy</option>
+                <option value="MEDIUM">Medium</option>
+                <option value="HARD">Hard</option>
+              </select>
+            </div>
+          )}
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Content</label>
+          <textarea
+            value={draft.content}
+            onChange={(e) => setDraft(prev => ({ ...prev, content: e.target.value }))}
+            rows={8}
+            className="w-full px-3 py-2 text-sm font-mono border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Expected Min Score</label>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={draft.expectedMinScore}
+              onChange={(e) => setDraft(prev => ({ ...prev, expectedMinScore: Math.min(100, Math.max(0, Math.round(Number(e.target.value)))) }))}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Expected Max Score</label>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={draft.expectedMaxScore}
+              onChange={(e) => setDraft(prev => ({ ...prev, expectedMaxScore: Math.min(100, Math.max(0, Math.round(Number(e.target.value)))) }))}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Expected Verdict</label>
+            <select
+              value={draft.expectedVerdict}
+              onChange={(e) => setDraft(prev => ({ ...prev, expectedVerdict: e.target.value as Verdict | '' }))}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="">None</option>
+              <option value="APPROVE">Approve</option>
+              <option value="REJECT">Reject</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Notes</label>
+            <input
+              type="text"
+              value={draft.notes}
+              onChange={(e) => setDraft(prev => ({ ...prev, notes: e.target.value }))}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+        </div>
+        <div className="flex gap-3">
+          <button
+            onClick={saveItem}
+            disabled={savingItem}
+            className="px-4 py-2 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {savingItem ? 'Saving...' : editingItemId ? 'Save Changes' : 'Add Item'}
+          </button>
+          {editingItemId && (
+            <button
+              onClick={resetDraft}
+              className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+
+        {items.length === 0 ? (
+          <p className="text-sm text-gray-500">No golden-set items yet.</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase">
+                <th className="py-1 text-left font-medium">Item</th>
+                <th className="py-1 text-left font-medium">Type</th>
+                <th className="py-1 text-right font-medium">Band</th>
+                <th className="py-1 text-left font-medium pl-4">Verdict</th>
+                <th className="py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map(item => (
+                <tr key={item.id} className={item.isActive ? '' : 'opacity-50'}>
+                  <td className="py-1">
+                    <div className="text-gray-900">{item.title}</div>
+                    <div className="text-xs text-gray-500">{item.topic}</div>
+                  </td>
+                  <td className="py-1 text-gray-600">{contentTypeLabel(item.contentType)}</td>
+                  <td className="py-1 text-right text-gray-600">{item.expectedMinScore}–{item.expectedMaxScore}</td>
+                  <td className="py-1 pl-4 text-gray-600">
+                    {item.expectedVerdict ? (item.expectedVerdict === 'APPROVE' ? 'Approve' : 'Reject') : '—'}
+                  </td>
+                  <td className="py-1 text-right space-x-3">
+                    <button onClick={() => editItem(item)} className="text-xs text-indigo-600 hover:text-indigo-800">
+                      Edit
+                    </button>
+                    <button onClick={() => toggleItem(item)} className="text-xs text-gray-600 hover:text-gray-800">
+                      {item.isActive ? 'Exclude' : 'Include'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
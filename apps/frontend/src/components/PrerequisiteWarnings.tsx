@@ -0,0 +1,27 @@
+import type { PrerequisiteWarning } from '../utils/validationJobs';
+
+type Props = {
+  warnings: PrerequisiteWarning[];
+};
+
+// Concepts the content uses before the course curriculum introduces them
+export function PrerequisiteWarnings({ warnings }: Props) {
+  return (
+    <div className="mb-6">
+      <h3 className="text-sm font-semibold text-gray-900 mb-1">Used Before It Is Taught</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        These concepts belong to topics later in the course. Explain them or leave them out.
+      </p>
+      <ul className="space-y-1.5">
+        {warnings.map(warning => (
+          <li key={warning.concept} className="flex items-start justify-between gap-3 p-2 bg-amber-50 border border-amber-200 rounded-md text-sm">
+            <span className="font-medium text-amber-900">{warning.concept}</span>
+            <span className="text-xs text-amber-800 text-right">
+              taught in "{warning.introducedIn}" · used {warning.occurrences} time{warning.occurrences === 1 ? '' : 's'}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
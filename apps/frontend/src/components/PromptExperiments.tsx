@@ -0,0 +1,502 @@
+import { useState, useEffect } from 'react';
+import { apiCall } from '../utils/api';
+
+type ContentType = 'PRE_READ' | 'ASSIGNMENT' | 'LECTURE_NOTE';
+
+type PromptVersion = {
+  id: string;
+  name: string;
+  version: number;
+  isActive: boolean;
+};
+
+type ExperimentVariant = {
+  id: string;
+  label: string;
+  weight: number;
+  promptTemplate: { id: string; name: string; version: number };
+  _count: { validationResults: number };
+};
+
+type Experiment = {
+  id: string;
+  name: string;
+  contentType: ContentType;
+  status: 'RUNNING' | 'ENDED';
+  startedAt: string;
+  endedAt: string | null;
+  createdBy: { name: string; email: string };
+  variants: ExperimentVariant[];
+};
+
+type ScoreSummary = {
+  mean: number;
+  stdDev: number;
+  min: number;
+  p25: number;
+  median: number;
+  p75: number;
+  max: number;
+  histogram: Array<{ from: number; to: number; count: number }>;
+};
+
+type VariantReport = {
+  id: string;
+  label: string;
+  weight: number;
+  trafficShare: number;
+  promptTemplate: { id: string; name: string; version: number };
+  results: number;
+  scores: ScoreSummary | null;
+  disagreement: { meanMax: number | null; flaggedRate: number | null };
+  outcomes: { contents: number; approved: number; rejected: number; inReview: number; approvalRate: number | null };
+};
+
+type ExperimentReport = {
+  experiment: Omit<Experiment, 'variants'>;
+  variants: VariantReport[];
+};
+
+type DraftVariant = {
+  promptTemplateId: string;
+  label: string;
+  weight: number;
+};
+
+type Props = {
+  token: string;
+};
+
+const CONTENT_TYPE_OPTIONS: Array<{ value: ContentType; label: string }> = [
+  { value: 'ASSIGNMENT', label: 'Assignment' },
+  { value: 'LECTURE_NOTE', label: 'Lecture Note' },
+  { value: 'PRE_READ', label: 'Pre-Read' },
+];
+
+function formatRate(rate: number | null): string {
+  return rate === null ? '—' : `${Math.round(rate * 1000) / 10}%`;
+}
+
+export function PromptExperiments({ token }: Props) {
+  const [contentType, setContentType] = useState<ContentType>('ASSIGNMENT');
+  const [experiments, setExperiments] = useState<Experiment[]>([]);
+  const [promptVersions, setPromptVersions] = useState<PromptVersion[]>([]);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  const [experimentName, setExperimentName] = useState('');
+  const [draftVariants, setDraftVariants] = useState<DraftVariant[]>([]);
+  const [creating, setCreating] = useState(false);
+
+  const [weightEdits, setWeightEdits] = useState<Record<string, number>>({});
+  const [report, setReport] = useState<ExperimentReport | null>(null);
+  const [loadingReportId, setLoadingReportId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchExperiments = async () => {
+      const [experimentsRes, versionsRes] = await Promise.all([
+        apiCall('/api/super-admin/experiments', {
+          headers: { Authorization: `Bearer ${token}` }
+        }),
+        apiCall(`/api/super-admin/prompts/history/${contentType}`, {
+          headers: { Authorization: `Bearer ${token}` }
+        }),
+      ]);
+      if (experimentsRes.ok) {
+        const data = await experimentsRes.json();
+        const loaded: Experiment[] = data.experiments;
+        setExperiments(loaded);
+        setWeightEdits(Object.fromEntries(
+          loaded.flatMap(experiment => experiment.variants.map(variant => [variant.id, variant.weight]))
+        ));
+      }
+      if (versionsRes.ok) {
+        const data = await versionsRes.json();
+        const versions: PromptVersion[] = data.versions;
+        setPromptVersions(versions);
+        // Start with the active prompt as control against the newest other version
+        const control = versions.find(version => version.isActive) ?? versions[0];
+        const challenger = versions.find(version => version.id !== control?.id);
+        setDraftVariants([
+          ...(control ? [{ promptTemplateId: control.id, label: 'Control', weight: 50 }] : []),
+          ...(challenger ? [{ promptTemplateId: challenger.id, label: 'Variant B', weight: 50 }] : []),
+        ]);
+      }
+    };
+    fetchExperiments().catch(error => console.error('Error fetching experiments:', error));
+  }, [contentType, token, reloadCount]);
+
+  const editDraftVariant = (index: number, changes: Partial<DraftVariant>) => {
+    setDraftVariants(prev => prev.map((variant, i) => i === index ? { ...variant, ...changes } : variant));
+  };
+
+  const addDraftVariant = () => {
+    const unused = promptVersions.find(version => !draftVariants.some(variant => variant.promptTemplateId === version.id));
+    if (!unused) {
+      alert('Every saved prompt version is already in this experiment');
+      return;
+    }
+    setDraftVariants(prev => [
+      ...prev,
+      { promptTemplateId: unused.id, label: `Variant ${String.fromCharCode(65 + prev.length)}`, weight: 50 },
+    ]);
+  };
+
+  const startExperiment = async () => {
+    if (!experimentName.trim()) {
+      alert('Please name the experiment');
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const res = await apiCall('/api/super-admin/experiments', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`
+        },
+        body: JSON.stringify({ name: experimentName, contentType, variants: draftVariants })
+      });
+      if (res.ok) {
+        setExperimentName('');
+        setReloadCount(count => count + 1);
+      } else {
+        const error = await res.json();
+        const details = Array.isArray(error.details)
+          ? `\n\n${error.details.map((detail: unknown) => typeof detail === 'string' ? detail : (detail as { message?: string }).message).join('\n')}`
+          : '';
+        alert(`Error starting experiment: ${error.error}${details}`);
+      }
+    } catch (error) {
+      console.error('Error starting experiment:', error);
+      alert('Failed to start experiment');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const saveWeights = async (experiment: Experiment) => {
+    try {
+      const res = await apiCall(`/api/super-admin/experiments/${experiment.id}/weights`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`
+        },
+        body: JSON.stringify({
+          weights: Object.fromEntries(experiment.variants.map(variant => [variant.id, weightEdits[variant.id] ?? variant.weight]))
+        })
+      });
+      if (res.ok) {
+        setReloadCount(count => count + 1);
+      } else {
+        const error = await res.json();
+        alert(`Error saving weights: ${error.error}`);
+      }
+    } catch (error) {
+      console.error('Error saving weights:', error);
+      alert('Failed to save weights');
+    }
+  };
+
+  const endExperiment = async (experiment: Experiment) => {
+    if (!confirm(`End "${experiment.name}"? Validations will go back to the active prompt.`)) {
+      return;
+    }
+    try {
+      const res = await apiCall(`/api/super-admin/experiments/${experiment.id}/end`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      if (res.ok) {
+        setReloadCount(count => count + 1);
+      } else {
+        const error = await res.json();
+        alert(`Error ending experiment: ${error.error}`);
+      }
+    } catch (error) {
+      console.error('Error ending experiment:', error);
+      alert('Failed to end experiment');
+    }
+  };
+
+  const loadReport = async (experimentId: string) => {
+    setLoadingReportId(experimentId);
+    try {
+      const res = await apiCall(`/api/super-admin/experiments/${experimentId}/report`, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setReport(data);
+      } else {
+        alert(`Error loading report: ${data.error}`);
+      }
+    } catch (error) {
+      console.error('Error loading report:', error);
+      alert('Failed to load report');
+    } finally {
+      setLoadingReportId(null);
+    }
+  };
+
+  const typeExperiments = experiments.filter(experiment => experiment.contentType === contentType);
+  const running = typeExperiments.find(experiment => experiment.status === 'RUNNING');
+  const draftWeightTotal = draftVariants.reduce((sum, variant) => sum + variant.weight, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Prompt Experiments</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Split validations between prompt versions by weight and compare how each performs. A given text always gets the same variant.
+          </p>
+        </div>
+        <select
+          value={contentType}
+          onChange={(e) => { setContentType(e.target.value as ContentType); setReport(null); }}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          {CONTENT_TYPE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {!running && (
+        <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+          <h3 className="text-sm font-medium text-gray-900">New Experiment</h3>
+          {promptVersions.length < 2 ? (
+            <p className="text-sm text-gray-500">Save at least two prompt versions for this content type in the Prompt Playground to run an experiment.</p>
+          ) : (
+            <>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={experimentName}
+                  onChange={(e) => setExperimentName(e.target.value)}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+                  placeholder="e.g., Stricter continuity wording"
+                />
+              </div>
+              <div className="space-y-2">
+                {draftVariants.map((variant, index) => (
+                  <div key={index} className="flex items-center gap-3">
+                    <input
+                      type="text"
+                      value={variant.label}
+                      onChange={(e) => editDraftVariant(index, { label: e.target.value })}
+                      className="w-32 px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                    <select
+                      value={variant.promptTemplateId}
+                      onChange={(e) => editDraftVariant(index, { promptTemplateId: e.target.value })}
+                      className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+                    >
+                      {promptVersions.map(version => (
+                        <option key={version.id} value={version.id}>
+                          v{version.version} - {version.name}{version.isActive ? ' (active)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min={0}
+                      value={variant.weight}
+                      onChange={(e) => editDraftVariant(index, { weight: Math.max(0, Math.round(Number(e.target.value))) })}
+                      className="w-20 px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                    <span className="w-14 text-xs text-gray-500">
+                      {draftWeightTotal > 0 ? `${Math.round((variant.weight / draftWeightTotal) * 100)}%` : '—'}
+                    </span>
+                    {draftVariants.length > 2 && (
+                      <button
+                        onClick={() => setDraftVariants(prev => prev.filter((_, i) => i !== index))}
+                        className="text-xs text-red-600 hover:text-red-800"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-3">
+                <button
+                  onClick={addDraftVariant}
+                  className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Add Variant
+                </button>
+                <button
+                  onClick={startExperiment}
+                  disabled={creating}
+                  className="px-4 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+                >
+                  {creating ? 'Starting...' : 'Start Experiment'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+        <h3 className="text-sm font-medium text-gray-900">Experiments</h3>
+        {typeExperiments.length === 0 ? (
+          <p className="text-sm text-gray-500">No experiments for this content type yet.</p>
+        ) : (
+          typeExperiments.map(experiment => (
+            <div key={experiment.id} className="border border-gray-200 rounded-md p-3 space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <span className="font-medium text-gray-900">{experiment.name}</span>
+                  <span className={`ml-2 px-2 py-0.5 text-xs rounded-full ${
+                    experiment.status === 'RUNNING' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                  }`}>
+                    {experiment.status === 'RUNNING' ? 'Running' : 'Ended'}
+                  </span>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Started {new Date(experiment.startedAt).toLocaleString()} by {experiment.createdBy.name || experiment.createdBy.email}
+                    {experiment.endedAt && ` · ended ${new Date(experiment.endedAt).toLocaleString()}`}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => loadReport(experiment.id)}
+                    disabled={loadingReportId !== null}
+                    className="px-3 py-1 text-xs bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    {loadingReportId === experiment.id ? 'Loading...' : 'View Report'}
+                  </button>
+                  {experiment.status === 'RUNNING' && (
+                    <>
+                      <button
+                        onClick={() => saveWeights(experiment)}
+                        className="px-3 py-1 text-xs text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+                      >
+                        Save Weights
+                      </button>
+                      <button
+                        onClick={() => endExperiment(experiment)}
+                        className="px-3 py-1 text-xs bg-red-600 text-white rounded-md hover:bg-red-700"
+                      >
+                        End
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 uppercase">
+                    <th className="py-1 text-left font-medium">Variant</th>
+                    <th className="py-1 text-left font-medium">Prompt</th>
+                    <th className="py-1 text-right font-medium">Weight</th>
+                    <th className="py-1 text-right font-medium">Results</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {experiment.variants.map(variant => (
+                    <tr key={variant.id}>
+                      <td className="py-1 text-gray-900">{variant.label}</td>
+                      <td className="py-1 text-gray-600">v{variant.promptTemplate.version} - {variant.promptTemplate.name}</td>
+                      <td className="py-1 text-right">
+                        {experiment.status === 'RUNNING' ? (
+                          <input
+                            type="number"
+                            min={0}
+                            value={weightEdits[variant.id] ?? variant.weight}
+                            onChange={(e) => setWeightEdits(prev => ({ ...prev, [variant.id]: Math.max(0, Math.round(Number(e.target.value))) }))}
+                            className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-md text-right"
+                          />
+                        ) : variant.weight}
+                      </td>
+                      <td className="py-1 text-right text-gray-600">{variant._count.validationResults}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))
+        )}
+      </div>
+
+      {report && report.experiment.contentType === contentType && (
+        <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium text-gray-900">Report: {report.experiment.name}</h3>
+            <button onClick={() => setReport(null)} className="text-xs text-gray-500 hover:text-gray-700">Close</button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Variant</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Traffic</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Results</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Mean ± SD</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Median (IQR)</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Mean Disagreement</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Flagged</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Approved / Rejected</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Approval Rate</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {report.variants.map(variant => (
+                  <tr key={variant.id}>
+                    <td className="px-3 py-2">
+                      <div className="font-medium text-gray-900">{variant.label}</div>
+                      <div className="text-xs text-gray-500">v{variant.promptTemplate.version} - {variant.promptTemplate.name}</div>
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">{formatRate(variant.trafficShare)}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">{variant.results}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">
+                      {variant.scores ? `${variant.scores.mean} ± ${variant.scores.stdDev}` : '—'}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">
+                      {variant.scores ? `${variant.scores.median} (${variant.scores.p25}–${variant.scores.p75})` : '—'}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">{variant.disagreement.meanMax ?? '—'}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">{formatRate(variant.disagreement.flaggedRate)}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">
+                      {variant.outcomes.approved} / {variant.outcomes.rejected}
+                      {variant.outcomes.inReview > 0 && <span className="text-xs text-gray-400"> ({variant.outcomes.inReview} in review)</span>}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">{formatRate(variant.outcomes.approvalRate)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Score distributions side by side */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {report.variants.map(variant => {
+              const peak = Math.max(1, ...(variant.scores?.histogram.map(bucket => bucket.count) ?? []));
+              return (
+                <div key={variant.id}>
+                  <h4 className="text-xs font-medium text-gray-700 mb-2">{variant.label}: overall score distribution</h4>
+                  {variant.scores ? (
+                    <div className="flex items-end gap-1 h-24">
+                      {variant.scores.histogram.map(bucket => (
+                        <div key={bucket.from} className="flex-1 flex flex-col items-center justify-end h-full" title={`${bucket.from}–${bucket.to}: ${bucket.count}`}>
+                          <div className="w-full bg-indigo-400 rounded-t" style={{ height: `${(bucket.count / peak) * 100}%` }}></div>
+                          <span className="text-[10px] text-gray-400 mt-1">{bucket.from}</span>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-500">No results yet.</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
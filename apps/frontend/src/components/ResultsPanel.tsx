@@ -1,4 +1,7 @@
 import cx from 'classnames'
+import type { PrerequisiteWarning, RubricBreakdown, SubTopicCoverage, ValidationAggregation, ValidationCallResult, ValidationDisagreement, ValidationIssue, ValidationSection } from '../utils/validationJobs'
+import { SubTopicCoverageMatrix } from './SubTopicCoverageMatrix'
+import { PrerequisiteWarnings } from './PrerequisiteWarnings'
 
 type Props = {
   result: {
@@ -6,26 +9,269 @@ type Props = {
     overallConfidence?: number
     providers?: string[]
     processingTime?: number
+    aggregation?: ValidationAggregation
+    disagreement?: ValidationDisagreement
     assignmentContext?: {
       topic: string
       topicsTaughtSoFar: string[]
       hasGuidelines: boolean
-      guidelines?: string
+      guidelines?: string | null
+      difficulty?: string | null
+      dueDate?: string | null
     } | null
     criteria: {
-      relevance: { score: number; confidence?: number; feedback: string; suggestions?: string[] }
-      continuity: { score: number; confidence?: number; feedback: string; suggestions?: string[] }
-      documentation: { score: number; confidence?: number; feedback: string; suggestions?: string[]; issues?: { start: number; end: number; message: string; severity: 'critical' | 'important' | 'minor' }[] }
+      relevance: { score: number; confidence?: number; feedback: string; suggestions?: string[]; issues?: ValidationIssue[] }
+      continuity: { score: number; confidence?: number; feedback: string; suggestions?: string[]; issues?: ValidationIssue[] }
+      documentation: { score: number; confidence?: number; feedback: string; suggestions?: string[]; issues?: ValidationIssue[] }
+      rubric?: RubricBreakdown
     }
+    // Only present when a long document was validated section by section
+    sections?: ValidationSection[] | null
+    // Present when the content is linked to an assignment whose guidelines list sub-topics
+    subTopicCoverage?: SubTopicCoverage[] | null
+    // Present when the assignment is on a curriculum topic whose course lists concepts
+    prerequisiteWarnings?: PrerequisiteWarning[] | null
   } | null
   onValidate?: () => void
   isValidating?: boolean
   validationError?: string | null
+  // The run finished but no model produced a usable assessment
+  incompleteReason?: string | null
+  // Per-call results streamed while validation is still running
+  liveResults?: ValidationCallResult[]
+  // Shows the issue in the editor; without it the issue list is read-only
+  onJumpToIssue?: (issue: ValidationIssue) => void
 }
 
+const CRITERIA_LABELS = [
+  ['Adherence to Structure', 'relevance'],
+  ['Coverage of Topics', 'continuity'],
+  ['Ease of Understanding', 'documentation'],
+] as const
 
-export function ResultsPanel({ result, onValidate, isValidating, validationError }: Props) {
-  if (!result && !isValidating && !validationError) {
+const SEVERITY_STYLES: Record<ValidationIssue['severity'], string> = {
+  critical: 'bg-red-100 text-red-800',
+  important: 'bg-yellow-100 text-yellow-800',
+  minor: 'bg-blue-100 text-blue-800',
+}
+
+function IssueList({ issues, onJumpToIssue }: { issues: ValidationIssue[]; onJumpToIssue?: ((issue: ValidationIssue) => void) | undefined }) {
+  return (
+    <div className="mb-6">
+      <h3 className="text-sm font-semibold text-gray-900 mb-3">Issues in the Text ({issues.length})</h3>
+      <div className="space-y-2">
+        {issues.map(issue => (
+          <div key={`${issue.start}:${issue.end}`} className="p-3 rounded-lg border border-gray-100 bg-gray-50">
+            <div className="flex items-center justify-between gap-2 mb-1">
+              <span className={cx('px-1.5 py-0.5 rounded text-xs font-medium capitalize', SEVERITY_STYLES[issue.severity])}>
+                {issue.severity}
+              </span>
+              {onJumpToIssue && (
+                <button onClick={() => onJumpToIssue(issue)} className="text-xs text-blue-600 hover:text-blue-800 font-medium">
+                  Show in editor
+                </button>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 italic truncate" title={issue.quote}>"{issue.quote}"</p>
+            <p className="text-sm text-gray-700 mt-1">{issue.message}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function RubricResults({ rubric }: { rubric: RubricBreakdown }) {
+  // Only rubrics with a threshold somewhere give a verdict worth showing
+  const hasThresholds = rubric.passThreshold != null || Object.values(rubric.criteria).some(criterion => criterion.passThreshold !== undefined)
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900">Rubric Breakdown</h3>
+        <div className="flex items-center gap-2">
+          {hasThresholds && rubric.passed !== undefined && (
+            <span className={cx('px-2 py-0.5 text-xs font-medium rounded-full',
+              rubric.passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+            )}>
+              {rubric.passed ? 'Passes rubric' : 'Below rubric threshold'}
+            </span>
+          )}
+          <span className="text-sm font-semibold text-gray-900">
+            {rubric.overallScore}/100{rubric.passThreshold != null && ` (pass ${rubric.passThreshold})`}
+          </span>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {Object.entries(rubric.criteria).map(([key, criterion]) => {
+          const percent = criterion.maxScore > 0 ? (criterion.score / criterion.maxScore) * 100 : 0
+          return (
+            <div key={key} className="border border-gray-100 rounded-lg p-3 bg-gray-50">
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span className="font-medium text-gray-900">{criterion.label}</span>
+                <span className={cx('font-semibold', criterion.passed === false ? 'text-red-600' : 'text-gray-900')}>
+                  {criterion.score}/{criterion.maxScore}
+                  {criterion.passThreshold !== undefined && (
+                    <span className="ml-1 text-xs font-normal text-gray-500">(pass {criterion.passThreshold})</span>
+                  )}
+                </span>
+              </div>
+              <div className="h-1.5 w-full rounded-full bg-gray-200 mb-2">
+                <div
+                  className={cx('h-1.5 rounded-full',
+                    percent > 85 ? 'bg-green-500' :
+                    percent >= 70 ? 'bg-yellow-500' : 'bg-red-500'
+                  )}
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+              {criterion.explanation && (
+                <p className="text-xs text-gray-600">{criterion.explanation}</p>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {(rubric.strengths.length > 0 || rubric.weaknesses.length > 0) && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-4">
+          {rubric.strengths.length > 0 && (
+            <div className="p-3 rounded-lg border border-green-100 bg-green-50">
+              <div className="text-xs font-medium text-green-800 mb-1">Strengths</div>
+              <ul className="list-disc list-inside text-xs text-green-900 space-y-1">
+                {rubric.strengths.map((strength, i) => <li key={i}>{strength}</li>)}
+              </ul>
+            </div>
+          )}
+          {rubric.weaknesses.length > 0 && (
+            <div className="p-3 rounded-lg border border-red-100 bg-red-50">
+              <div className="text-xs font-medium text-red-800 mb-1">Weaknesses</div>
+              <ul className="list-disc list-inside text-xs text-red-900 space-y-1">
+                {rubric.weaknesses.map((weakness, i) => <li key={i}>{weakness}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function SectionBreakdown({ sections }: { sections: ValidationSection[] }) {
+  // The section pulling the document score down the most: low score weighted by how much text it carries
+  const weakest = sections.reduce((worst, section) =>
+    (100 - section.overall) * section.length > (100 - worst.overall) * worst.length ? section : worst
+  )
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-sm font-semibold text-gray-900 mb-1">Section Breakdown</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        This document was long enough to be validated section by section; its score is the length-weighted average of these.
+      </p>
+      <div className="space-y-2">
+        {sections.map(section => (
+          <div
+            key={section.index}
+            className={cx('p-3 rounded-lg border', section === weakest && section.overall < 100 ? 'border-red-200 bg-red-50' : 'border-gray-100 bg-gray-50')}
+          >
+            <div className="flex items-center justify-between gap-2 text-sm mb-1">
+              <span className="font-medium text-gray-900 truncate">{section.heading ?? `Section ${section.index + 1}`}</span>
+              <span className="font-semibold text-gray-900 whitespace-nowrap">{section.overall}/100</span>
+            </div>
+            <div className="h-1.5 w-full rounded-full bg-gray-200 mb-1">
+              <div
+                className={cx('h-1.5 rounded-full',
+                  section.overall > 85 ? 'bg-green-500' :
+                  section.overall >= 70 ? 'bg-yellow-500' : 'bg-red-500'
+                )}
+                style={{ width: `${section.overall}%` }}
+              />
+            </div>
+            <div className="flex flex-wrap gap-x-3 text-xs text-gray-600">
+              {CRITERIA_LABELS.map(([label, key]) => (
+                <span key={key}>{label}: {section.scores[key]}</span>
+              ))}
+            </div>
+            {section === weakest && section.overall < 100 && (
+              <p className="text-xs text-red-700 mt-1">Improving this section would raise the document score the most.</p>
+            )}
+            {section.flaggedForReview && (
+              <p className="text-xs text-amber-700 mt-1">The models disagreed on this section.</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function LiveResults({ liveResults }: { liveResults: ValidationCallResult[] }) {
+  // Round 2 supersedes round 1 once any cross-validated result lands
+  const round2 = liveResults.filter(r => r.stage === 'round2')
+  const latest = round2.length > 0 ? round2 : liveResults.filter(r => r.stage === 'round1')
+  const latestStage = round2.length > 0 ? 'Round 2 (cross-validated)' : 'Round 1'
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold">Validation Dashboard</h2>
+          <span className="flex items-center gap-2 text-xs text-blue-600">
+            <span className="animate-spin w-3 h-3 border-2 border-blue-600 border-t-transparent rounded-full"></span>
+            {round2.length > 0 ? 'Cross-validating' : 'Validating'}
+          </span>
+        </div>
+
+        <p className="text-xs text-gray-500 mb-4">
+          Provisional scores from {latestStage} ({latest.length} of {latest[0]?.total ?? 0} models). These update when the next round lands.
+        </p>
+
+        <div className="space-y-4 mb-6">
+          {CRITERIA_LABELS.map(([label, key]) => {
+            const score = Math.max(...latest.map(r => r.scores[key]))
+            return (
+              <div key={key}>
+                <div className="flex items-center justify-between text-sm text-gray-700 mb-1">
+                  <span className="font-medium text-gray-900">{label}</span>
+                  <span className="font-semibold text-gray-900">{score}%</span>
+                </div>
+                <div className="h-2 w-full rounded-full bg-gray-200">
+                  <div
+                    className={cx('h-2 rounded-full transition-all duration-300',
+                      score > 85 ? 'bg-green-500' :
+                      score >= 70 ? 'bg-yellow-500' : 'bg-red-500'
+                    )}
+                    style={{ width: `${score}%` }}
+                  />
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="space-y-2">
+          {liveResults.map((r, i) => (
+            <div key={i} className="flex items-center justify-between text-xs p-2 rounded border border-gray-100 bg-gray-50">
+              <span className="text-gray-700">
+                <span className={cx('px-1.5 py-0.5 rounded mr-2', r.stage === 'round2' ? 'bg-green-100 text-green-700' : 'bg-blue-100 text-blue-700')}>
+                  {r.stage === 'round2' ? 'Round 2' : 'Round 1'}
+                </span>
+                {r.modelVersion || r.provider}
+              </span>
+              <span className="text-gray-600">
+                {r.scores.relevance} / {r.scores.continuity} / {r.scores.documentation}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export function ResultsPanel({ result, onValidate, isValidating, validationError, incompleteReason, liveResults, onJumpToIssue }: Props) {
+  if (!result && !isValidating && !validationError && !incompleteReason) {
     return (
       <div className="bg-white p-4 rounded-lg shadow-sm flex flex-col gap-4">
         <h2 className="text-lg font-semibold">Validation Dashboard</h2>
@@ -55,6 +301,10 @@ export function ResultsPanel({ result, onValidate, isValidating, validationError
     )
   }
 
+  if (isValidating && liveResults && liveResults.length > 0) {
+    return <LiveResults liveResults={liveResults} />
+  }
+
   if (isValidating) {
     return (
       <div className="space-y-6">
@@ -105,8 +355,38 @@ export function ResultsPanel({ result, onValidate, isValidating, validationError
       </div>
     )
   }
-  
+
+  // Not a score: the content may be fine, the models just didn't return anything usable
+  if (incompleteReason) {
+    return (
+      <div className="space-y-6">
+        <div className="rounded-lg border border-gray-300 bg-gray-50 p-6 shadow-sm">
+          <h2 className="text-lg font-semibold mb-4 text-gray-800">Validation Could Not Be Completed</h2>
+          <p className="text-gray-700 text-sm mb-2">
+            None of the models returned a usable assessment, so no score was recorded. This says nothing about the quality of your content.
+          </p>
+          <p className="text-gray-500 text-xs">{incompleteReason}</p>
+
+          <button
+            onClick={onValidate}
+            className="w-full bg-gray-700 hover:bg-gray-800 text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200 flex items-center justify-center gap-2 mt-4"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+            </svg>
+            Try Again
+          </button>
+        </div>
+      </div>
+    )
+  }
+
   const { providers, criteria, overallConfidence, processingTime } = result!
+  const issues = [
+    ...(criteria.relevance.issues ?? []),
+    ...(criteria.continuity.issues ?? []),
+    ...(criteria.documentation.issues ?? []),
+  ].sort((a, b) => a.start - b.start)
   // Quality assessment (currently unused but available for future use)
   // const qualityLabel = overallScore > 65 ? 'Good' : overallScore >= 90 ? 'Fair' : 'Needs work'
   // const qualityColor = overallScore > 85 ? 'text-green-600' : overallScore >= 70 ? 'text-yellow-600' : 'text-red-600'
@@ -138,6 +418,16 @@ export function ResultsPanel({ result, onValidate, isValidating, validationError
           </div>
         )}
 
+        {/* The models disagreed too much for the combined score to count as a pass */}
+        {result!.aggregation?.flaggedForReview && (
+          <div className="mb-6 p-3 bg-amber-50 rounded-lg border border-amber-200">
+            <span className="text-sm font-medium text-amber-800">Flagged for human review</span>
+            <p className="text-xs text-amber-700 mt-1">
+              The models' scores differed by up to {result!.disagreement?.max ?? 'many'} points, so this result can't pass on its own and a reviewer will score it manually.
+            </p>
+          </div>
+        )}
+
         {/* Assignment Context Display */}
         {result!.assignmentContext && (
           <div className="mb-6 p-4 bg-purple-50 border border-purple-200 rounded-lg">
@@ -153,6 +443,13 @@ export function ResultsPanel({ result, onValidate, isValidating, validationError
                 <span className="font-medium text-purple-800">Topic:</span>
                 <span className="ml-2 text-purple-700">{result!.assignmentContext.topic}</span>
               </div>
+
+              {result!.assignmentContext.difficulty && (
+                <div>
+                  <span className="font-medium text-purple-800">Difficulty:</span>
+                  <span className="ml-2 text-purple-700 capitalize">{result!.assignmentContext.difficulty.toLowerCase()}</span>
+                </div>
+              )}
               
               {result!.assignmentContext.topicsTaughtSoFar.length > 0 && (
                 <div>
@@ -194,10 +491,10 @@ export function ResultsPanel({ result, onValidate, isValidating, validationError
         <div className="mb-6">
           <div className="space-y-6">
             {([
-              ['Adherence to Structure', criteria.relevance, 'How well the content follows the required structure and format'],
-              ['Coverage of Topics', criteria.continuity, 'How thoroughly the content covers the required topics'],
-              ['Ease of Understanding', criteria.documentation, 'How clear and accessible the content is for learners'],
-            ] as const).map(([label, item, description]) => (
+              ['Adherence to Structure', criteria.relevance, 'How well the content follows the required structure and format', 'relevance'],
+              ['Coverage of Topics', criteria.continuity, 'How thoroughly the content covers the required topics', 'continuity'],
+              ['Ease of Understanding', criteria.documentation, 'How clear and accessible the content is for learners', 'documentation'],
+            ] as const).map(([label, item, description, key]) => (
               <div key={label} className="border border-gray-100 rounded-lg p-4 bg-gray-50">
                 <div className="flex items-center justify-between text-sm text-gray-700 mb-2">
                   <div>
@@ -211,12 +508,17 @@ export function ResultsPanel({ result, onValidate, isValidating, validationError
                         Agreement {Math.round(item.confidence * 100)}%
                       </div>
                     )}
+                    {result!.disagreement && result!.disagreement[key] > 0 && (
+                      <div className="text-xs text-gray-500">
+                        Models differ by {result!.disagreement[key]} pts
+                      </div>
+                    )}
                   </div>
                 </div>
                 <div className="h-2 w-full rounded-full bg-gray-200 mb-3">
                   <div 
                     className={cx('h-2 rounded-full transition-all duration-300', 
-                      item.score > 85 ? 'bg-green-500' : 
+                      item.score > 85 ? (result!.aggregation?.flaggedForReview ? 'bg-amber-400' : 'bg-green-500') : 
                       item.score >= 70 ? 'bg-yellow-500' : 'bg-red-500'
                     )} 
                     style={{ width: `${item.score}%` }} 
@@ -233,15 +535,25 @@ export function ResultsPanel({ result, onValidate, isValidating, validationError
           </div>
         </div>
 
+        {criteria.rubric && <RubricResults rubric={criteria.rubric} />}
+
+        {result!.subTopicCoverage && result!.subTopicCoverage.length > 0 && <SubTopicCoverageMatrix coverage={result!.subTopicCoverage} />}
+
+        {result!.prerequisiteWarnings && result!.prerequisiteWarnings.length > 0 && <PrerequisiteWarnings warnings={result!.prerequisiteWarnings} />}
+
+        {result!.sections && result!.sections.length > 1 && <SectionBreakdown sections={result!.sections} />}
+
+        {issues.length > 0 && <IssueList issues={issues} onJumpToIssue={onJumpToIssue} />}
+
         <div className="mb-6">
           <div className="space-y-3">
             {/* Collect all suggestions from all criteria */}
             {(() => {
               const allSuggestions = [
+                ...(criteria.rubric?.suggestion ? [criteria.rubric.suggestion] : []),
                 ...(criteria.relevance.suggestions || []),
                 ...(criteria.continuity.suggestions || []),
-                ...(criteria.documentation.suggestions || []),
-                ...(criteria.documentation.issues?.map((iss: any) => iss.message) || [])
+                ...(criteria.documentation.suggestions || [])
               ].filter(Boolean).slice(0, 5);
 
               
@@ -0,0 +1,444 @@
+import { useState, useEffect } from 'react';
+import { apiCall } from '../utils/api';
+
+type ContentType = 'PRE_READ' | 'ASSIGNMENT' | 'LECTURE_NOTE';
+type SummaryCriterion = 'relevance' | 'continuity' | 'documentation';
+
+type RubricCriterion = {
+  key: string;
+  label: string;
+  maxScore: number;
+  summary: SummaryCriterion;
+  description: string;
+  explanationHint?: string;
+  passThreshold?: number;
+};
+
+type SavedRubric = {
+  id: string;
+  name: string;
+  contentType: ContentType;
+  description: string | null;
+  criteria: RubricCriterion[];
+  passThreshold: number | null;
+  isActive: boolean;
+  updatedAt: string;
+  createdBy: { name: string; email: string } | null;
+};
+
+type BuiltInRubric = {
+  contentType: ContentType;
+  name: string;
+  criteria: RubricCriterion[];
+  passThreshold: number | null;
+};
+
+// Numbers as typed into the form; an empty threshold means none
+type CriterionDraft = {
+  key: string;
+  label: string;
+  maxScore: string;
+  summary: SummaryCriterion;
+  description: string;
+  explanationHint: string;
+  passThreshold: string;
+};
+
+type RubricDraft = {
+  // Set when editing a saved rubric
+  id: string | null;
+  name: string;
+  contentType: ContentType;
+  passThreshold: string;
+  criteria: CriterionDraft[];
+};
+
+type Props = {
+  token: string;
+};
+
+const CONTENT_TYPE_NAMES: Record<ContentType, string> = {
+  ASSIGNMENT: 'Assignment',
+  LECTURE_NOTE: 'Lecture Note',
+  PRE_READ: 'Pre-Read',
+};
+
+const SUMMARY_NAMES: Record<SummaryCriterion, string> = {
+  relevance: 'Relevance',
+  continuity: 'Continuity',
+  documentation: 'Documentation',
+};
+
+function toDraft(rubric: { name: string; contentType: ContentType; criteria: RubricCriterion[]; passThreshold: number | null }, id: string | null): RubricDraft {
+  return {
+    id,
+    name: rubric.name,
+    contentType: rubric.contentType,
+    passThreshold: rubric.passThreshold?.toString() ?? '',
+    criteria: rubric.criteria.map(criterion => ({
+      key: criterion.key,
+      label: criterion.label,
+      maxScore: criterion.maxScore.toString(),
+      summary: criterion.summary,
+      description: criterion.description,
+      explanationHint: criterion.explanationHint ?? '',
+      passThreshold: criterion.passThreshold?.toString() ?? '',
+    })),
+  };
+}
+
+function parseThreshold(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Math.max(0, Math.round(Number(value)));
+}
+
+function totalPoints(criteria: Array<{ maxScore: number | string }>): number {
+  return criteria.reduce((sum, criterion) => sum + (Number(criterion.maxScore) || 0), 0);
+}
+
+export function RubricBuilder({ token }: Props) {
+  const [rubrics, setRubrics] = useState<SavedRubric[]>([]);
+  const [defaults, setDefaults] = useState<BuiltInRubric[]>([]);
+  const [contentType, setContentType] = useState<ContentType>('ASSIGNMENT');
+  const [draft, setDraft] = useState<RubricDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    const fetchRubrics = async () => {
+      const res = await apiCall('/api/super-admin/rubrics', {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      if (res.ok) {
+        const data = await res.json();
+        setRubrics(data.rubrics);
+        setDefaults(data.defaults);
+      }
+    };
+    fetchRubrics().catch(error => console.error('Error fetching rubrics:', error));
+  }, [token, reloadCount]);
+
+  const builtIn = defaults.find(rubric => rubric.contentType === contentType);
+  const saved = rubrics.filter(rubric => rubric.contentType === contentType);
+  const active = saved.find(rubric => rubric.isActive);
+
+  // Sends one change and reloads the list; returns whether it succeeded
+  const send = async (path: string, method: string, body?: unknown) => {
+    setSaving(true);
+    try {
+      const res = await apiCall(`/api/super-admin/rubrics${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`
+        },
+        ...(body !== undefined && { body: JSON.stringify(body) })
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        const details = Array.isArray(error.details)
+          ? `\n\n${error.details.map((issue: { path?: unknown[]; message: string }) => `${issue.path?.join('.') ?? ''} ${issue.message}`.trim()).join('\n')}`
+          : '';
+        alert(`Error saving rubric: ${error.error}${details}`);
+        return false;
+      }
+      setReloadCount(count => count + 1);
+      return true;
+    } catch (error) {
+      console.error('Error saving rubric:', error);
+      alert('Failed to save rubric');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    const body = {
+      name: draft.name,
+      passThreshold: parseThreshold(draft.passThreshold) ?? null,
+      criteria: draft.criteria.map(criterion => ({
+        key: criterion.key.trim(),
+        label: criterion.label,
+        maxScore: Math.round(Number(criterion.maxScore)),
+        summary: criterion.summary,
+        description: criterion.description,
+        ...(criterion.explanationHint.trim() && { explanationHint: criterion.explanationHint.trim() }),
+        ...(parseThreshold(criterion.passThreshold) !== undefined && { passThreshold: parseThreshold(criterion.passThreshold) }),
+      })),
+    };
+    const succeeded = draft.id
+      ? await send(`/${draft.id}`, 'PUT', body)
+      : await send('', 'POST', { ...body, contentType: draft.contentType });
+    if (succeeded) {
+      setDraft(null);
+    }
+  };
+
+  const toggle = (rubric: SavedRubric) => {
+    const message = rubric.isActive
+      ? `Deactivate "${rubric.name}"? ${CONTENT_TYPE_NAMES[rubric.contentType]} content will be scored with the built-in rubric.`
+      : `Activate "${rubric.name}"? New ${CONTENT_TYPE_NAMES[rubric.contentType]} validations will be scored with it.`;
+    if (confirm(message)) {
+      send(`/${rubric.id}/toggle`, 'PATCH');
+    }
+  };
+
+  const updateCriterion = (index: number, changes: Partial<CriterionDraft>) => {
+    setDraft(current => current && {
+      ...current,
+      criteria: current.criteria.map((criterion, i) => i === index ? { ...criterion, ...changes } : criterion),
+    });
+  };
+
+  const moveCriterion = (index: number, direction: -1 | 1) => {
+    setDraft(current => {
+      const target = index + direction;
+      if (!current || target < 0 || target >= current.criteria.length) return current;
+      const criteria = [...current.criteria];
+      [criteria[index], criteria[target]] = [criteria[target]!, criteria[index]!];
+      return { ...current, criteria };
+    });
+  };
+
+  const removeCriterion = (index: number) => {
+    setDraft(current => current && { ...current, criteria: current.criteria.filter((_, i) => i !== index) });
+  };
+
+  const addCriterion = () => {
+    setDraft(current => current && {
+      ...current,
+      criteria: [...current.criteria, {
+        key: '',
+        label: '',
+        maxScore: '10',
+        summary: 'documentation',
+        description: '',
+        explanationHint: '',
+        passThreshold: '',
+      }],
+    });
+  };
+
+  const inputClass = 'px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+  const buttonClass = 'px-2 py-1 text-xs text-gray-600 rounded hover:bg-gray-100 disabled:opacity-40';
+
+  if (draft) {
+    const total = totalPoints(draft.criteria);
+    return (
+      <div className="bg-white rounded-lg shadow p-6 space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              {draft.id ? 'Edit' : 'New'} {CONTENT_TYPE_NAMES[draft.contentType]} Rubric
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">
+              The prompt lists these criteria and asks for a score out of each one's max points. The overall score is the
+              points earned as a percentage of the {total} available. Use {'{TOPIC}'} in a description for the content's topic.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setDraft(null)}
+              disabled={saving}
+              className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={saveDraft}
+              disabled={saving || !draft.name.trim() || draft.criteria.length === 0}
+              className="px-4 py-2 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Rubric'}
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block text-sm font-medium text-gray-700">
+            Name
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className={`${inputClass} mt-1 w-full`}
+            />
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            Overall pass threshold (0-100)
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={draft.passThreshold}
+              onChange={(e) => setDraft({ ...draft, passThreshold: e.target.value })}
+              placeholder="None"
+              className={`${inputClass} mt-1 w-full`}
+            />
+          </label>
+        </div>
+
+        <div className="space-y-4">
+          {draft.criteria.map((criterion, index) => (
+            <div key={index} className="border border-gray-200 rounded-lg p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-semibold text-gray-900">
+                  {index + 1}. {criterion.label || 'New criterion'}
+                </span>
+                <div className="flex gap-1">
+                  <button onClick={() => moveCriterion(index, -1)} disabled={index === 0} className={buttonClass} title="Move up">↑</button>
+                  <button onClick={() => moveCriterion(index, 1)} disabled={index === draft.criteria.length - 1} className={buttonClass} title="Move down">↓</button>
+                  <button onClick={() => removeCriterion(index)} className={`${buttonClass} text-red-600`}>Remove</button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                <label className="block text-xs font-medium text-gray-600">
+                  Label
+                  <input
+                    type="text"
+                    value={criterion.label}
+                    onChange={(e) => updateCriterion(index, { label: e.target.value })}
+                    className={`${inputClass} mt-1 w-full`}
+                  />
+                </label>
+                <label className="block text-xs font-medium text-gray-600" title="Names the score in the model's reply, e.g. factualCorrectness">
+                  Key
+                  <input
+                    type="text"
+                    value={criterion.key}
+                    onChange={(e) => updateCriterion(index, { key: e.target.value })}
+                    className={`${inputClass} mt-1 w-full font-mono`}
+                  />
+                </label>
+                <label className="block text-xs font-medium text-gray-600">
+                  Max points
+                  <input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={criterion.maxScore}
+                    onChange={(e) => updateCriterion(index, { maxScore: e.target.value })}
+                    className={`${inputClass} mt-1 w-full`}
+                  />
+                </label>
+                <label className="block text-xs font-medium text-gray-600">
+                  Pass threshold (points)
+                  <input
+                    type="number"
+                    min={0}
+                    value={criterion.passThreshold}
+                    onChange={(e) => updateCriterion(index, { passThreshold: e.target.value })}
+                    placeholder="None"
+                    className={`${inputClass} mt-1 w-full`}
+                  />
+                </label>
+                <label className="block text-xs font-medium text-gray-600" title="The summary score this criterion counts towards">
+                  Counts towards
+                  <select
+                    value={criterion.summary}
+                    onChange={(e) => updateCriterion(index, { summary: e.target.value as SummaryCriterion })}
+                    className={`${inputClass} mt-1 w-full`}
+                  >
+                    {Object.entries(SUMMARY_NAMES).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <label className="block text-xs font-medium text-gray-600">
+                What the model checks (markdown)
+                <textarea
+                  value={criterion.description}
+                  onChange={(e) => updateCriterion(index, { description: e.target.value })}
+                  rows={4}
+                  className={`${inputClass} mt-1 w-full font-mono`}
+                />
+              </label>
+              <label className="block text-xs font-medium text-gray-600">
+                The explanation should include
+                <input
+                  type="text"
+                  value={criterion.explanationHint}
+                  onChange={(e) => updateCriterion(index, { explanationHint: e.target.value })}
+                  placeholder="e.g. actual percentages"
+                  className={`${inputClass} mt-1 w-full`}
+                />
+              </label>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <button onClick={addCriterion} className="px-3 py-1.5 text-sm text-indigo-600 border border-indigo-200 rounded-md hover:bg-indigo-50">
+            Add Criterion
+          </button>
+          <span className="text-sm text-gray-600">{draft.criteria.length} criteria, {total} points in total</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Scoring Rubrics</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            The active rubric sets the criteria, points and pass thresholds validation scores a content type against.
+            Without one, the built-in rubric is used.
+          </p>
+        </div>
+        <select
+          value={contentType}
+          onChange={(e) => setContentType(e.target.value as ContentType)}
+          className={inputClass}
+        >
+          {Object.entries(CONTENT_TYPE_NAMES).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+        {builtIn && (
+          <li className="flex items-center justify-between px-4 py-3">
+            <div>
+              <span className="text-sm font-medium text-gray-900">{builtIn.name}</span>
+              {!active && <span className="ml-2 px-2 py-0.5 text-xs bg-green-100 text-green-800 rounded-full">Active</span>}
+              <p className="text-xs text-gray-500 mt-0.5">
+                {builtIn.criteria.length} criteria, {totalPoints(builtIn.criteria)} points
+              </p>
+            </div>
+            <button
+              onClick={() => setDraft(toDraft({ ...builtIn, name: `${CONTENT_TYPE_NAMES[contentType]} rubric` }, null))}
+              className={buttonClass}
+            >
+              Copy to new rubric
+            </button>
+          </li>
+        )}
+        {saved.map(rubric => (
+          <li key={rubric.id} className="flex items-center justify-between px-4 py-3">
+            <div>
+              <span className="text-sm font-medium text-gray-900">{rubric.name}</span>
+              {rubric.isActive && <span className="ml-2 px-2 py-0.5 text-xs bg-green-100 text-green-800 rounded-full">Active</span>}
+              <p className="text-xs text-gray-500 mt-0.5">
+                {rubric.criteria.length} criteria, {totalPoints(rubric.criteria)} points
+                {rubric.passThreshold !== null && `, passes at ${rubric.passThreshold}`}
+                {' · '}updated {new Date(rubric.updatedAt).toLocaleDateString()}
+                {rubric.createdBy && ` · created by ${rubric.createdBy.name}`}
+              </p>
+            </div>
+            <div className="flex gap-1">
+              <button onClick={() => setDraft(toDraft(rubric, rubric.id))} disabled={saving} className={buttonClass}>Edit</button>
+              <button onClick={() => toggle(rubric)} disabled={saving} className={buttonClass}>
+                {rubric.isActive ? 'Deactivate' : 'Activate'}
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import type { SubTopicCoverage } from '../utils/validationJobs';
+
+type Props = {
+  coverage: SubTopicCoverage[];
+};
+
+const VERDICT_STYLES: Record<SubTopicCoverage['verdict'], { label: string; className: string }> = {
+  covered: { label: 'Covered', className: 'bg-green-100 text-green-800' },
+  partial: { label: 'Partial', className: 'bg-yellow-100 text-yellow-800' },
+  missing: { label: 'Missing', className: 'bg-red-100 text-red-800' },
+};
+
+// Covered/partial/missing verdict per sub-topic listed in the assignment guidelines
+export function SubTopicCoverageMatrix({ coverage }: Props) {
+  const coveredCount = coverage.filter(item => item.verdict === 'covered').length;
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900">Sub-topic Coverage</h3>
+        <span className="text-xs text-gray-500">{coveredCount} of {coverage.length} covered</span>
+      </div>
+      <table className="w-full text-sm border border-gray-100 rounded-lg overflow-hidden">
+        <tbody>
+          {coverage.map(item => (
+            <tr key={item.subTopic} className="border-t border-gray-100 first:border-t-0 align-top">
+              <td className="p-2 font-medium text-gray-900">{item.subTopic}</td>
+              <td className="p-2 whitespace-nowrap">
+                <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${VERDICT_STYLES[item.verdict].className}`}>
+                  {VERDICT_STYLES[item.verdict].label}
+                </span>
+                {item.source === 'keywords' && (
+                  <span className="ml-1 text-xs text-gray-400" title="No model assessed this sub-topic, so it was checked by looking for its key terms">
+                    keyword check
+                  </span>
+                )}
+              </td>
+              <td className="p-2 text-xs text-gray-600">{item.notes.join(' ')}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState, useEffect } from 'react';
+import { apiCall } from '../utils/api';
+
+type ContentType = 'PRE_READ' | 'ASSIGNMENT' | 'LECTURE_NOTE';
+type GateCriterion = 'relevance' | 'continuity' | 'documentation';
+
+type SubmissionGate = {
+  contentType: ContentType;
+  minOverallScore: number | null;
+  minCriterionScores: Partial<Record<GateCriterion, number>>;
+  updatedAt: string | null;
+  updatedBy: { name: string; email: string } | null;
+};
+
+// Minimums as typed into the form; empty means no minimum
+type GateDraft = {
+  minOverallScore: string;
+  minCriterionScores: Record<GateCriterion, string>;
+};
+
+type Props = {
+  token: string;
+};
+
+const CONTENT_TYPE_NAMES: Record<ContentType, string> = {
+  ASSIGNMENT: 'Assignment',
+  LECTURE_NOTE: 'Lecture Note',
+  PRE_READ: 'Pre-Read',
+};
+
+const CRITERIA: Array<{ key: GateCriterion; label: string }> = [
+  { key: 'relevance', label: 'Relevance' },
+  { key: 'continuity', label: 'Continuity' },
+  { key: 'documentation', label: 'Documentation' },
+];
+
+function toDraft(gate: SubmissionGate): GateDraft {
+  return {
+    minOverallScore: gate.minOverallScore?.toString() ?? '',
+    minCriterionScores: {
+      relevance: gate.minCriterionScores.relevance?.toString() ?? '',
+      continuity: gate.minCriterionScores.continuity?.toString() ?? '',
+      documentation: gate.minCriterionScores.documentation?.toString() ?? '',
+    },
+  };
+}
+
+function parseMinimum(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Math.min(100, Math.max(0, Math.round(Number(value))));
+}
+
+export function SubmissionGateSettings({ token }: Props) {
+  const [gates, setGates] = useState<SubmissionGate[]>([]);
+  const [drafts, setDrafts] = useState<Partial<Record<ContentType, GateDraft>>>({});
+  const [savingType, setSavingType] = useState<ContentType | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    const fetchGates = async () => {
+      const res = await apiCall('/api/super-admin/submission-gates', {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      if (res.ok) {
+        const data = await res.json();
+        const loaded: SubmissionGate[] = data.gates;
+        setGates(loaded);
+        setDrafts(Object.fromEntries(loaded.map(gate => [gate.contentType, toDraft(gate)])));
+      }
+    };
+    fetchGates().catch(error => console.error('Error fetching submission gates:', error));
+  }, [token, reloadCount]);
+
+  const saveGate = async (contentType: ContentType) => {
+    const draft = drafts[contentType];
+    if (!draft) return;
+
+    setSavingType(contentType);
+    try {
+      const res = await apiCall(`/api/super-admin/submission-gates/${contentType}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`
+        },
+        body: JSON.stringify({
+          minOverallScore: parseMinimum(draft.minOverallScore) ?? null,
+          minCriterionScores: Object.fromEntries(
+            CRITERIA.map(({ key }) => [key, parseMinimum(draft.minCriterionScores[key])])
+          ),
+        })
+      });
+      if (res.ok) {
+        setReloadCount(count => count + 1);
+      } else {
+        const error = await res.json();
+        alert(`Error saving submission minimums: ${error.error}`);
+      }
+    } catch (error) {
+      console.error('Error saving submission gate:', error);
+      alert('Failed to save submission minimums');
+    } finally {
+      setSavingType(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Submission Minimums</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Content must be validated before it is submitted for review. Set the scores it must reach; leave a field empty for no minimum.
+          While any minimum is set, results the models disagreed on need an admin override.
+        </p>
+      </div>
+
+      {gates.map(gate => {
+        const draft = drafts[gate.contentType];
+        if (!draft) return null;
+
+        return (
+          <div key={gate.contentType} className="bg-white border border-gray-200 rounded-lg p-6" style={{ textAlign: 'left' }}>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-gray-900">{CONTENT_TYPE_NAMES[gate.contentType]}</h3>
+              {gate.updatedBy && gate.updatedAt && (
+                <span className="text-xs text-gray-500">
+                  Updated by {gate.updatedBy.name} on {new Date(gate.updatedAt).toLocaleDateString()}
+                </span>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-end gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Overall</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={draft.minOverallScore}
+                  onChange={(e) => setDrafts(prev => ({ ...prev, [gate.contentType]: { ...draft, minOverallScore: e.target.value } }))}
+                  placeholder="None"
+                  className="w-28 px-3 py-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+                />
+              </div>
+              {CRITERIA.map(({ key, label }) => (
+                <div key={key}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={draft.minCriterionScores[key]}
+                    onChange={(e) => setDrafts(prev => ({
+                      ...prev,
+                      [gate.contentType]: { ...draft, minCriterionScores: { ...draft.minCriterionScores, [key]: e.target.value } }
+                    }))}
+                    placeholder="None"
+                    className="w-28 px-3 py-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                </div>
+              ))}
+              <button
+                onClick={() => saveGate(gate.contentType)}
+                disabled={savingType !== null}
+                className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {savingType === gate.contentType ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,5 +1,11 @@
 import { useState, useEffect } from 'react';
 import { apiCall } from '../utils/api';
+import { TemplateVersionHistory } from './TemplateVersionHistory';
+import { PromptExperiments } from './PromptExperiments';
+import { GoldenSet } from './GoldenSet';
+import { CalibrationReport } from './CalibrationReport';
+import { SubmissionGateSettings } from './SubmissionGateSettings';
+import { RubricBuilder } from './RubricBuilder';
 
 type User = {
   id: string;
@@ -22,6 +28,16 @@ type PromptTemplate = {
   };
 };
 
+type RoundResult = {
+  provider: string;
+  modelVersion?: string;
+  scores: {
+    relevance: number;
+    continuity: number;
+    documentation: number;
+  };
+};
+
 type GuidelinesTemplate = {
   id: string;
   name: string;
@@ -37,6 +53,74 @@ type GuidelinesTemplate = {
   };
 };
 
+type AggregationStrategy = 'MAX' | 'MIN' | 'MEAN' | 'WEIGHTED' | 'AGREEMENT';
+
+type AggregationSetting = {
+  contentType: 'PRE_READ' | 'ASSIGNMENT' | 'LECTURE_NOTE';
+  strategy: AggregationStrategy;
+  agreementThreshold: number | null;
+  disagreementThreshold: number | null;
+  updatedAt: string | null;
+  updatedBy: {
+    name: string;
+    email: string;
+  } | null;
+};
+
+const AGGREGATION_STRATEGY_LABELS: Record<AggregationStrategy, string> = {
+  MAX: 'Maximum (best score across models)',
+  MIN: 'Minimum (strictest model)',
+  MEAN: 'Mean of all models',
+  WEIGHTED: 'Weighted by model weight',
+  AGREEMENT: 'Require agreement, else flag for human review',
+};
+
+type UsageTotals = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+};
+
+type UsageUser = {
+  id: string;
+  name: string | null;
+  email: string;
+};
+
+type UsageAnalytics = {
+  days: number;
+  totals: UsageTotals;
+  byCreator: Array<UsageTotals & { creator: UsageUser | null; budgetUsd: number | null }>;
+  byAdmin: Array<UsageTotals & { admin: UsageUser | null }>;
+  byContentType: Array<UsageTotals & { contentType: 'PRE_READ' | 'ASSIGNMENT' | 'LECTURE_NOTE' | null }>;
+  byDay: Array<UsageTotals & { day: string }>;
+};
+
+type LLMPrice = {
+  modelName: string;
+  inputPerMillionUsd: number | null;
+  outputPerMillionUsd: number | null;
+  source: 'custom' | 'default' | 'missing';
+  active: boolean;
+};
+
+type ValidationBudget = {
+  creator: UsageUser;
+  monthlyBudgetUsd: number | null;
+  spentThisMonthUsd: number;
+};
+
+const CONTENT_TYPE_NAMES: Record<string, string> = {
+  PRE_READ: 'Pre-Read',
+  ASSIGNMENT: 'Assignment',
+  LECTURE_NOTE: 'Lecture Note',
+};
+
+// Validation calls cost fractions of a cent, so small amounts keep more precision
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(amount > 0 && amount < 1 ? 4 : 2)}`;
+}
 
 type CreatorAnalytics = {
   id: string;
@@ -71,7 +155,7 @@ type Props = {
 };
 
 export function SuperAdminDashboard({ user, token, onLogout }: Props) {
-  const [activeTab, setActiveTab] = useState<'playground' | 'guidelines' | 'users' | 'analytics'>('playground');
+  const [activeTab, setActiveTab] = useState<'playground' | 'experiments' | 'golden-set' | 'guidelines' | 'rubrics' | 'scoring' | 'calibration' | 'usage' | 'users' | 'analytics'>('playground');
   // Removed unused prompts state
   const [guidelines, setGuidelines] = useState<GuidelinesTemplate[]>([]);
   const [creators, setCreators] = useState<CreatorAnalytics[]>([]);
@@ -94,6 +178,8 @@ export function SuperAdminDashboard({ user, token, onLogout }: Props) {
   const [playgroundVariables, setPlaygroundVariables] = useState({
     topic: '',
     topicsTaughtSoFar: '',
+    difficulty: '',
+    subTopics: '',
     content: '',
   });
   const [availableVariables, setAvailableVariables] = useState<any>(null);
@@ -101,13 +187,29 @@ export function SuperAdminDashboard({ user, token, onLogout }: Props) {
   const [testingPrompt, setTestingPrompt] = useState(false);
   const [currentPrompt, setCurrentPrompt] = useState<PromptTemplate | null>(null);
   const [savingPrompt, setSavingPrompt] = useState(false);
+  // Bumped whenever a new version is saved so the version history reloads
+  const [promptHistoryKey, setPromptHistoryKey] = useState(0);
   
   // Guidelines management state
   const [selectedGuidelinesType, setSelectedGuidelinesType] = useState<'ASSIGNMENT' | 'LECTURE_NOTE' | 'PRE_READ'>('ASSIGNMENT');
+  const [guidelinesHistoryKey, setGuidelinesHistoryKey] = useState(0);
+
+  // Score aggregation state
+  const [aggregationSettings, setAggregationSettings] = useState<AggregationSetting[]>([]);
+  const [defaultAgreementThreshold, setDefaultAgreementThreshold] = useState(10);
+  const [savingAggregationType, setSavingAggregationType] = useState<string | null>(null);
+
+  // Usage & cost state
+  const [usageDays, setUsageDays] = useState(30);
+  const [usageAnalytics, setUsageAnalytics] = useState<UsageAnalytics | null>(null);
+  const [llmPrices, setLlmPrices] = useState<LLMPrice[]>([]);
+  const [validationBudgets, setValidationBudgets] = useState<ValidationBudget[]>([]);
+  const [savingPriceModel, setSavingPriceModel] = useState<string | null>(null);
+  const [savingBudgetCreatorId, setSavingBudgetCreatorId] = useState<string | null>(null);
 
   useEffect(() => {
     fetchData();
-  }, [activeTab]);
+  }, [activeTab, usageDays]);
 
   const fetchData = async () => {
     setLoading(true);
@@ -116,6 +218,16 @@ export function SuperAdminDashboard({ user, token, onLogout }: Props) {
         case 'guidelines':
           await fetchGuidelines();
           break;
+        case 'scoring':
+          await fetchAggregationSettings();
+          break;
+        case 'usage':
+          await Promise.all([
+            fetchUsageAnalytics(),
+            fetchLlmPrices(),
+            fetchValidationBudgets()
+          ]);
+          break;
         case 'playground':
           await fetchAvailableVariables();
           await fetchCurrentPrompt();
@@ -195,6 +307,17 @@ export function SuperAdminDashboard({ user, token, onLogout }: Props) {
     }
   };
 
+  // With no active template, validation uses the built-in prompt, so start editing from that
+  const loadDefaultPrompt = async (contentType: string) => {
+    const res = await apiCall(`/api/super-admin/prompts/default/${contentType}`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    if (res.ok) {
+      const data = await res.json();
+      setPlaygroundPrompt(data.prompt);
+    }
+  };
+
   const fetchCurrentPrompt = async () => {
     const res = await apiCall('/api/super-admin/prompts', {
       headers: { Authorization: `Bearer ${token}` }
@@ -208,6 +331,9 @@ export function SuperAdminDashboard({ user, token, onLogout }: Props) {
       if (activePrompt) {
         setCurrentPrompt(activePrompt);
         setPlaygroundPrompt(activePrompt.prompt);
+      } else {
+        setCurrentPrompt(null);
+        await loadDefaultPrompt(playgroundContentType);
       }
     }
   };
@@ -234,7 +360,8 @@ export function SuperAdminDashboard({ user, token, onLogout }: Props) {
           variables: {
             topic: playgroundVariables.topic,
             prerequisites: playgroundVariables.topicsTaughtSoFar,
-            guidelines: '', // Guidelines are now fetched from database
+            difficulty: playgroundVariables.difficulty,
+            subTopics: playgroundVariables.subTopics,
             content: playgroundVariables.content,
           }
         })
@@ -244,7 +371,10 @@ export function SuperAdminDashboard({ user, token, onLogout }: Props) {
       setTestResults(results);
 
       if (!res.ok) {
-        alert(`Test failed: ${results.error}`);
+        const templateIssues = Array.isArray(results.details) && results.details.every((detail: unknown) => typeof detail === 'string')
+          ? `\n\n${results.details.join('\n')}`
+          : '';
+        alert(`Test failed: ${results.error}${templateIssues}`);
       }
     } catch (error) {
       console.error('Error testing prompt:', error);
@@ -264,7 +394,8 @@ export function SuperAdminDashboard({ user, token, onLogout }: Props) {
     setSavingPrompt(true);
     try {
       const promptData = {
-        name: `${playgroundContentType.replace('_', ' ')} Validation Prompt v${(currentPrompt?.version || 0) + 1}`,
+        // The server assigns the version number; saving always adds a new version
+        name: `${CONTENT_TYPE_NAMES[playgroundContentType]} Validation Prompt`,
         contentType: playgroundContentType,
         prompt: playgroundPrompt,
       };
@@ -284,10 +415,14 @@ export function SuperAdminDashboard({ user, token, onLogout }: Props) {
 
       if (res.ok) {
         await fetchCurrentPrompt(); // Refresh the current prompt
+        setPromptHistoryKey(key => key + 1);
         alert('Prompt saved successfully!');
       } else {
         const error = await res.json();
-        alert(`Error saving prompt: ${error.error}`);
+        const templateIssues = Array.isArray(error.details) && error.details.every((detail: unknown) => typeof detail === 'string')
+          ? `\n\n${error.details.join('\n')}`
+          : '';
+        alert(`Error saving prompt: ${error.error}${templateIssues}`);
       }
     } catch (error) {
       console.error('Error saving prompt:', error);
@@ -314,7 +449,7 @@ export function SuperAdminDashboard({ user, token, onLogout }: Props) {
         setPlaygroundPrompt(activePrompt.prompt);
       } else {
         setCurrentPrompt(null);
-        setPlaygroundPrompt('');
+        await loadDefaultPrompt(newContentType);
       }
     }
   };
@@ -329,7 +464,7 @@ export function SuperAdminDashboard({ user, token, onLogout }: Props) {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          name: `${contentType} Guidelines v1`,
+          name: `${CONTENT_TYPE_NAMES[contentType]} Guidelines`,
           contentType,
           guidelines
         })
@@ -337,6 +472,7 @@ export function SuperAdminDashboard({ user, token, onLogout }: Props) {
       
       if (res.ok) {
         await fetchGuidelines();
+        setGuidelinesHistoryKey(key => key + 1);
         alert('Guidelines created successfully!');
       } else {
         const error = await res.json();
@@ -361,6 +497,7 @@ export function SuperAdminDashboard({ user, token, onLogout }: Props) {
       
       if (res.ok) {
         await fetchGuidelines();
+        setGuidelinesHistoryKey(key => key + 1);
         alert('Guidelines updated successfully!');
       } else {
         const error = await res.json();
@@ -372,7 +509,154 @@ export function SuperAdminDashboard({ user, token, onLogout }: Props) {
     }
   };
 
+  const fetchAggregationSettings = async () => {
+    const res = await apiCall('/api/super-admin/aggregation-settings', {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    if (res.ok) {
+      const data = await res.json();
+      setAggregationSettings(data.settings);
+      setDefaultAgreementThreshold(data.defaultAgreementThreshold);
+    }
+  };
+
+  const editAggregationSetting = (contentType: AggregationSetting['contentType'], changes: Partial<AggregationSetting>) => {
+    setAggregationSettings(prev => prev.map(setting =>
+      setting.contentType === contentType ? { ...setting, ...changes } : setting
+    ));
+  };
+
+  const saveAggregationSetting = async (setting: AggregationSetting) => {
+    setSavingAggregationType(setting.contentType);
+    try {
+      const res = await apiCall(`/api/super-admin/aggregation-settings/${setting.contentType}`, {
+        method: 'PUT',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          strategy: setting.strategy,
+          agreementThreshold: setting.agreementThreshold,
+          disagreementThreshold: setting.disagreementThreshold
+        })
+      });
+
+      if (res.ok) {
+        await fetchAggregationSettings();
+        alert('Scoring strategy updated successfully!');
+      } else {
+        const error = await res.json();
+        alert(`Error: ${error.error}`);
+      }
+    } catch (error) {
+      console.error('Error updating aggregation setting:', error);
+      alert('Failed to update scoring strategy');
+    } finally {
+      setSavingAggregationType(null);
+    }
+  };
+
+  const fetchUsageAnalytics = async () => {
+    const res = await apiCall(`/api/super-admin/usage-analytics?days=${usageDays}`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    if (res.ok) {
+      setUsageAnalytics(await res.json());
+    }
+  };
+
+  const fetchLlmPrices = async () => {
+    const res = await apiCall('/api/super-admin/llm-prices', {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    if (res.ok) {
+      const data = await res.json();
+      setLlmPrices(data.prices);
+    }
+  };
+
+  const fetchValidationBudgets = async () => {
+    const res = await apiCall('/api/super-admin/validation-budgets', {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    if (res.ok) {
+      const data = await res.json();
+      setValidationBudgets(data.budgets);
+    }
+  };
+
+  const editLlmPrice = (modelName: string, changes: Partial<LLMPrice>) => {
+    setLlmPrices(prev => prev.map(price =>
+      price.modelName === modelName ? { ...price, ...changes } : price
+    ));
+  };
+
+  const saveLlmPrice = async (price: LLMPrice) => {
+    if (price.inputPerMillionUsd === null || price.outputPerMillionUsd === null) {
+      alert('Enter both input and output prices');
+      return;
+    }
+
+    setSavingPriceModel(price.modelName);
+    try {
+      const res = await apiCall(`/api/super-admin/llm-prices/${encodeURIComponent(price.modelName)}`, {
+        method: 'PUT',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          inputPerMillionUsd: price.inputPerMillionUsd,
+          outputPerMillionUsd: price.outputPerMillionUsd
+        })
+      });
+
+      if (res.ok) {
+        await fetchLlmPrices();
+      } else {
+        const error = await res.json();
+        alert(`Error: ${error.error}`);
+      }
+    } catch (error) {
+      console.error('Error updating LLM price:', error);
+      alert('Failed to update price');
+    } finally {
+      setSavingPriceModel(null);
+    }
+  };
 
+  const editValidationBudget = (creatorId: string, monthlyBudgetUsd: number | null) => {
+    setValidationBudgets(prev => prev.map(budget =>
+      budget.creator.id === creatorId ? { ...budget, monthlyBudgetUsd } : budget
+    ));
+  };
+
+  const saveValidationBudget = async (budget: ValidationBudget) => {
+    setSavingBudgetCreatorId(budget.creator.id);
+    try {
+      const res = await apiCall(`/api/super-admin/users/${budget.creator.id}/validation-budget`, {
+        method: 'PUT',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ monthlyBudgetUsd: budget.monthlyBudgetUsd })
+      });
+
+      if (res.ok) {
+        await fetchValidationBudgets();
+      } else {
+        const error = await res.json();
+        alert(`Error: ${error.error}`);
+      }
+    } catch (error) {
+      console.error('Error updating validation budget:', error);
+      alert('Failed to update budget');
+    } finally {
+      setSavingBudgetCreatorId(null);
+    }
+  };
 
 
   const downloadSampleCSV = () => {
@@ -569,7 +853,13 @@ superadmin@example.com,SUPER_ADMIN,`;
           <div className="flex space-x-8">
             {[
               { id: 'playground', label: 'Prompt Playground' },
+              { id: 'experiments', label: 'Experiments' },
+              { id: 'golden-set', label: 'Golden Set' },
               { id: 'guidelines', label: 'Guidelines Management' },
+              { id: 'rubrics', label: 'Rubrics' },
+              { id: 'scoring', label: 'Scoring' },
+              { id: 'calibration', label: 'Calibration' },
+              { id: 'usage', label: 'Usage & Cost' },
               { id: 'users', label: 'User Management' },
               { id: 'analytics', label: 'Creator Analytics' },
             ].map((tab) => (
@@ -719,7 +1009,32 @@ superadmin@example.com,SUPER_ADMIN,`;
                           />
                         </div>
 
+                        {playgroundContentType === 'ASSIGNMENT' && (
+                          <div>
+                            <label className="block text-xs font-medium text-gray-600 mb-1">Difficulty</label>
+                            <select
+                              value={playgroundVariables.difficulty}
+                              onChange={(e) => setPlaygroundVariables(prev => ({ ...prev, difficulty: e.target.value }))}
+                              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+                            >
+                              <option value="">Not specified</option>
+                              <option value="EASY">Easy</option>
+                              <option value="MEDIUM">Medium</option>
+                              <option value="HARD">Hard</option>
+                            </select>
+                          </div>
+                        )}
 
+                        <div>
+                          <label className="block text-xs font-medium text-gray-600 mb-1">Sub-topics (assignment guidelines)</label>
+                          <textarea
+                            value={playgroundVariables.subTopics}
+                            onChange={(e) => setPlaygroundVariables(prev => ({ ...prev, subTopics: e.target.value }))}
+                            rows={3}
+                            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+                            placeholder="Optional, one per line, e.g. - useState basics"
+                          />
+                        </div>
 
                         <div>
                           <label className="block text-xs font-medium text-gray-600 mb-1">Content</label>
@@ -767,6 +1082,14 @@ superadmin@example.com,SUPER_ADMIN,`;
                           </div>
                         </div>
 
+                        {testResults.dualValidationResult.status === 'incomplete' && (
+                          <div className="bg-gray-100 border border-gray-300 rounded-lg p-4">
+                            <h3 className="text-sm font-medium text-gray-900 mb-1">Validation could not be completed</h3>
+                            <p className="text-xs text-gray-700">{testResults.dualValidationResult.reason}</p>
+                          </div>
+                        )}
+
+                        {testResults.dualValidationResult.status !== 'incomplete' && (<>
                         {/* Final Scores */}
                         <div className="bg-white border border-gray-200 rounded-lg p-4">
                           <h3 className="text-sm font-medium text-gray-900 mb-3">Final Validation Scores</h3>
@@ -803,55 +1126,33 @@ superadmin@example.com,SUPER_ADMIN,`;
                             ))}
                           </div>
                         </div>
+                        </>)}
 
                         {/* Round 1 vs Round 2 Comparison */}
                         <div className="bg-white border border-gray-200 rounded-lg p-4">
                           <h3 className="text-sm font-medium text-gray-900 mb-3">Dual LLM Validation Details</h3>
                           
                           <div className="grid grid-cols-2 gap-4">
-                            <div>
-                              <h4 className="text-xs font-medium text-blue-700 mb-2">Round 1 (Initial)</h4>
-                              <div className="space-y-2">
-                                <div>
-                                  <span className="text-xs text-gray-600">OpenAI:</span>
-                                  <div className="text-xs space-y-1">
-                                    <div>Relevance: {testResults.dualValidationResult.round1Results.openai.scores.relevance}</div>
-                                    <div>Continuity: {testResults.dualValidationResult.round1Results.openai.scores.continuity}</div>
-                                    <div>Documentation: {testResults.dualValidationResult.round1Results.openai.scores.documentation}</div>
-                                  </div>
-                                </div>
-                                <div>
-                                  <span className="text-xs text-gray-600">Gemini:</span>
-                                  <div className="text-xs space-y-1">
-                                    <div>Relevance: {testResults.dualValidationResult.round1Results.gemini.scores.relevance}</div>
-                                    <div>Continuity: {testResults.dualValidationResult.round1Results.gemini.scores.continuity}</div>
-                                    <div>Documentation: {testResults.dualValidationResult.round1Results.gemini.scores.documentation}</div>
-                                  </div>
-                                </div>
-                              </div>
-                            </div>
-                            
-                            <div>
-                              <h4 className="text-xs font-medium text-green-700 mb-2">Round 2 (Cross-Validated)</h4>
-                              <div className="space-y-2">
-                                <div>
-                                  <span className="text-xs text-gray-600">OpenAI:</span>
-                                  <div className="text-xs space-y-1">
-                                    <div>Relevance: {testResults.dualValidationResult.round2Results.openai.scores.relevance}</div>
-                                    <div>Continuity: {testResults.dualValidationResult.round2Results.openai.scores.continuity}</div>
-                                    <div>Documentation: {testResults.dualValidationResult.round2Results.openai.scores.documentation}</div>
-                                  </div>
-                                </div>
-                                <div>
-                                  <span className="text-xs text-gray-600">Gemini:</span>
-                                  <div className="text-xs space-y-1">
-                                    <div>Relevance: {testResults.dualValidationResult.round2Results.gemini.scores.relevance}</div>
-                                    <div>Continuity: {testResults.dualValidationResult.round2Results.gemini.scores.continuity}</div>
-                                    <div>Documentation: {testResults.dualValidationResult.round2Results.gemini.scores.documentation}</div>
-                                  </div>
+                            {([
+                              ['Round 1 (Initial)', 'text-blue-700', testResults.dualValidationResult.round1Results],
+                              ['Round 2 (Cross-Validated)', 'text-green-700', testResults.dualValidationResult.round2Results],
+                            ] as const).map(([roundLabel, roundColor, roundResults]) => (
+                              <div key={roundLabel}>
+                                <h4 className={`text-xs font-medium ${roundColor} mb-2`}>{roundLabel}</h4>
+                                <div className="space-y-2">
+                                  {(roundResults as RoundResult[]).map((result, index) => (
+                                    <div key={index}>
+                                      <span className="text-xs text-gray-600">{result.modelVersion || result.provider}:</span>
+                                      <div className="text-xs space-y-1">
+                                        <div>Relevance: {result.scores.relevance}</div>
+                                        <div>Continuity: {result.scores.continuity}</div>
+                                        <div>Documentation: {result.scores.documentation}</div>
+                                      </div>
+                                    </div>
+                                  ))}
                                 </div>
                               </div>
-                            </div>
+                            ))}
                           </div>
                           
                           <div className="mt-3 pt-3 border-t border-gray-200">
@@ -873,9 +1174,26 @@ superadmin@example.com,SUPER_ADMIN,`;
                   </div>
                 </div>
 
+                <TemplateVersionHistory
+                  kind="prompts"
+                  contentType={playgroundContentType}
+                  token={token}
+                  refreshKey={promptHistoryKey}
+                  onRolledBack={fetchCurrentPrompt}
+                />
               </div>
             )}
 
+            {/* Prompt Experiments Tab */}
+            {activeTab === 'experiments' && (
+              <PromptExperiments token={token} />
+            )}
+
+            {/* Golden Set Tab */}
+            {activeTab === 'golden-set' && (
+              <GoldenSet token={token} />
+            )}
+
             {/* Guidelines Management Tab */}
             {activeTab === 'guidelines' && (
               <div className="space-y-6">
@@ -956,9 +1274,380 @@ superadmin@example.com,SUPER_ADMIN,`;
                     </div>
                   );
                 })()}
+
+                <TemplateVersionHistory
+                  kind="guidelines"
+                  contentType={selectedGuidelinesType}
+                  token={token}
+                  refreshKey={guidelinesHistoryKey}
+                  onRolledBack={fetchGuidelines}
+                />
+              </div>
+            )}
+
+            {/* Rubrics Tab */}
+            {activeTab === 'rubrics' && (
+              <RubricBuilder token={token} />
+            )}
+
+            {/* Scoring Tab */}
+            {activeTab === 'scoring' && (
+              <div className="space-y-6">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">Score Aggregation</h2>
+                  <p className="text-sm text-gray-600 mt-1">
+                    Choose how each model's cross-validated scores are combined into the final score for each content type.
+                  </p>
+                </div>
+
+                {aggregationSettings.map((setting) => {
+                  const contentTypeName = setting.contentType === 'ASSIGNMENT' ? 'Assignment' :
+                                         setting.contentType === 'LECTURE_NOTE' ? 'Lecture Note' :
+                                         'Pre-Read';
+
+                  return (
+                    <div key={setting.contentType} className="bg-white border border-gray-200 rounded-lg p-6" style={{ textAlign: 'left' }}>
+                      <div className="flex items-center justify-between mb-4">
+                        <h3 className="text-lg font-medium text-gray-900">{contentTypeName}</h3>
+                        {setting.updatedBy && setting.updatedAt && (
+                          <span className="text-xs text-gray-500">
+                            Updated by {setting.updatedBy.name} on {new Date(setting.updatedAt).toLocaleDateString()}
+                          </span>
+                        )}
+                      </div>
+
+                      <div className="flex flex-wrap items-end gap-4">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Strategy</label>
+                          <select
+                            value={setting.strategy}
+                            onChange={(e) => editAggregationSetting(setting.contentType, { strategy: e.target.value as AggregationStrategy })}
+                            className="px-3 py-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+                          >
+                            {(Object.keys(AGGREGATION_STRATEGY_LABELS) as AggregationStrategy[]).map(strategy => (
+                              <option key={strategy} value={strategy}>{AGGREGATION_STRATEGY_LABELS[strategy]}</option>
+                            ))}
+                          </select>
+                        </div>
+
+                        {setting.strategy === 'AGREEMENT' && (
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">Max disagreement (points)</label>
+                            <input
+                              type="number"
+                              min={0}
+                              max={100}
+                              value={setting.agreementThreshold ?? ''}
+                              placeholder={String(defaultAgreementThreshold)}
+                              onChange={(e) => editAggregationSetting(setting.contentType, {
+                                agreementThreshold: e.target.value === '' ? null : Number(e.target.value)
+                              })}
+                              className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+                            />
+                          </div>
+                        )}
+
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Block auto-pass above disagreement (points)</label>
+                          <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={setting.disagreementThreshold ?? ''}
+                            placeholder="Off"
+                            onChange={(e) => editAggregationSetting(setting.contentType, {
+                              disagreementThreshold: e.target.value === '' ? null : Number(e.target.value)
+                            })}
+                            className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+                          />
+                        </div>
+
+                        <button
+                          onClick={() => saveAggregationSetting(setting)}
+                          disabled={savingAggregationType === setting.contentType}
+                          className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 text-sm disabled:opacity-50"
+                        >
+                          {savingAggregationType === setting.contentType ? 'Saving...' : 'Save'}
+                        </button>
+                      </div>
+
+                      {setting.strategy === 'AGREEMENT' && (
+                        <p className="text-xs text-gray-500 mt-3">
+                          Scores are averaged; if models differ by more than the threshold on any criterion, the result is flagged for human review.
+                        </p>
+                      )}
+                      {setting.disagreementThreshold !== null && (
+                        <p className="text-xs text-gray-500 mt-3">
+                          Results where models differ by more than {setting.disagreementThreshold} points on any criterion are flagged and can't pass without a reviewer.
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+
+                <SubmissionGateSettings token={token} />
               </div>
             )}
 
+            {/* Calibration Tab */}
+            {activeTab === 'calibration' && (
+              <CalibrationReport token={token} />
+            )}
+
+            {/* Usage & Cost Tab */}
+            {activeTab === 'usage' && (
+              <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">LLM Usage & Cost</h2>
+                    <p className="text-sm text-gray-600 mt-1">
+                      Tokens and spend for every validation call, priced when the call was made.
+                    </p>
+                  </div>
+                  <select
+                    value={usageDays}
+                    onChange={(e) => setUsageDays(Number(e.target.value))}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+                  >
+                    <option value={7}>Last 7 days</option>
+                    <option value={30}>Last 30 days</option>
+                    <option value={90}>Last 90 days</option>
+                  </select>
+                </div>
+
+                {usageAnalytics && (
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className="bg-white border border-gray-200 rounded-lg p-4">
+                        <div className="text-sm text-gray-500">Total spend</div>
+                        <div className="text-2xl font-semibold text-gray-900">{formatUsd(usageAnalytics.totals.costUsd)}</div>
+                      </div>
+                      <div className="bg-white border border-gray-200 rounded-lg p-4">
+                        <div className="text-sm text-gray-500">LLM calls</div>
+                        <div className="text-2xl font-semibold text-gray-900">{usageAnalytics.totals.calls.toLocaleString()}</div>
+                      </div>
+                      <div className="bg-white border border-gray-200 rounded-lg p-4">
+                        <div className="text-sm text-gray-500">Tokens (prompt / completion)</div>
+                        <div className="text-2xl font-semibold text-gray-900">
+                          {usageAnalytics.totals.promptTokens.toLocaleString()} / {usageAnalytics.totals.completionTokens.toLocaleString()}
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                      <div className="bg-white shadow rounded-lg overflow-hidden">
+                        <h3 className="px-4 py-3 text-sm font-medium text-gray-900 border-b border-gray-200">By creator</h3>
+                        <table className="min-w-full divide-y divide-gray-200">
+                          <thead className="bg-gray-50">
+                            <tr>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Creator</th>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Calls</th>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Spend</th>
+                            </tr>
+                          </thead>
+                          <tbody className="bg-white divide-y divide-gray-200">
+                            {usageAnalytics.byCreator.map((row) => (
+                              <tr key={row.creator?.id ?? 'none'}>
+                                <td className="px-4 py-2 text-sm text-gray-900">
+                                  {row.creator ? (row.creator.name || row.creator.email) : <span className="text-gray-500">Not attributed (playground)</span>}
+                                </td>
+                                <td className="px-4 py-2 text-sm text-gray-500">{row.calls}</td>
+                                <td className="px-4 py-2 text-sm text-gray-900">{formatUsd(row.costUsd)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+
+                      <div className="bg-white shadow rounded-lg overflow-hidden">
+                        <h3 className="px-4 py-3 text-sm font-medium text-gray-900 border-b border-gray-200">By admin (own re-validations and assigned creators)</h3>
+                        <table className="min-w-full divide-y divide-gray-200">
+                          <thead className="bg-gray-50">
+                            <tr>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Admin</th>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Calls</th>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Spend</th>
+                            </tr>
+                          </thead>
+                          <tbody className="bg-white divide-y divide-gray-200">
+                            {usageAnalytics.byAdmin.map((row) => (
+                              <tr key={row.admin?.id ?? 'none'}>
+                                <td className="px-4 py-2 text-sm text-gray-900">
+                                  {row.admin ? (row.admin.name || row.admin.email) : <span className="text-gray-500">No admin assigned</span>}
+                                </td>
+                                <td className="px-4 py-2 text-sm text-gray-500">{row.calls}</td>
+                                <td className="px-4 py-2 text-sm text-gray-900">{formatUsd(row.costUsd)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+
+                      <div className="bg-white shadow rounded-lg overflow-hidden">
+                        <h3 className="px-4 py-3 text-sm font-medium text-gray-900 border-b border-gray-200">By content type</h3>
+                        <table className="min-w-full divide-y divide-gray-200">
+                          <thead className="bg-gray-50">
+                            <tr>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Content type</th>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Calls</th>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Spend</th>
+                            </tr>
+                          </thead>
+                          <tbody className="bg-white divide-y divide-gray-200">
+                            {usageAnalytics.byContentType.map((row) => (
+                              <tr key={row.contentType ?? 'none'}>
+                                <td className="px-4 py-2 text-sm text-gray-900">
+                                  {row.contentType ? CONTENT_TYPE_NAMES[row.contentType] : 'Standalone content'}
+                                </td>
+                                <td className="px-4 py-2 text-sm text-gray-500">{row.calls}</td>
+                                <td className="px-4 py-2 text-sm text-gray-900">{formatUsd(row.costUsd)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+
+                      <div className="bg-white shadow rounded-lg overflow-hidden">
+                        <h3 className="px-4 py-3 text-sm font-medium text-gray-900 border-b border-gray-200">By day</h3>
+                        <div className="p-4 space-y-2">
+                          {usageAnalytics.byDay.length === 0 && (
+                            <p className="text-sm text-gray-500">No validation calls in this period.</p>
+                          )}
+                          {(() => {
+                            const maxCost = Math.max(...usageAnalytics.byDay.map(row => row.costUsd), 0);
+                            return usageAnalytics.byDay.map((row) => (
+                              <div key={row.day} className="flex items-center gap-3 text-sm">
+                                <span className="w-24 text-gray-500">{row.day}</span>
+                                <div className="flex-1 bg-gray-100 rounded h-3">
+                                  <div
+                                    className="bg-indigo-500 h-3 rounded"
+                                    style={{ width: `${maxCost > 0 ? (row.costUsd / maxCost) * 100 : 0}%` }}
+                                  />
+                                </div>
+                                <span className="w-24 text-right text-gray-900">{formatUsd(row.costUsd)}</span>
+                              </div>
+                            ));
+                          })()}
+                        </div>
+                      </div>
+                    </div>
+                  </>
+                )}
+
+                <div className="bg-white shadow rounded-lg overflow-hidden">
+                  <div className="px-4 py-3 border-b border-gray-200">
+                    <h3 className="text-sm font-medium text-gray-900">Price table (USD per million tokens)</h3>
+                    <p className="text-xs text-gray-500 mt-1">Changes apply to calls made from now on.</p>
+                  </div>
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Model</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Input</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Output</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {llmPrices.map((price) => (
+                        <tr key={price.modelName}>
+                          <td className="px-4 py-2 text-sm text-gray-900">
+                            {price.modelName}
+                            {price.active && <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800">Active</span>}
+                            {price.source === 'default' && <span className="ml-2 text-xs text-gray-500">list price</span>}
+                            {price.source === 'missing' && <span className="ml-2 text-xs text-red-600">no price, recorded as $0</span>}
+                          </td>
+                          <td className="px-4 py-2">
+                            <input
+                              type="number"
+                              min={0}
+                              step="0.01"
+                              value={price.inputPerMillionUsd ?? ''}
+                              onChange={(e) => editLlmPrice(price.modelName, { inputPerMillionUsd: e.target.value === '' ? null : Number(e.target.value) })}
+                              className="w-28 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                            />
+                          </td>
+                          <td className="px-4 py-2">
+                            <input
+                              type="number"
+                              min={0}
+                              step="0.01"
+                              value={price.outputPerMillionUsd ?? ''}
+                              onChange={(e) => editLlmPrice(price.modelName, { outputPerMillionUsd: e.target.value === '' ? null : Number(e.target.value) })}
+                              className="w-28 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                            />
+                          </td>
+                          <td className="px-4 py-2 text-right">
+                            <button
+                              onClick={() => saveLlmPrice(price)}
+                              disabled={savingPriceModel === price.modelName}
+                              className="px-3 py-1 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 text-sm disabled:opacity-50"
+                            >
+                              {savingPriceModel === price.modelName ? 'Saving...' : 'Save'}
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="bg-white shadow rounded-lg overflow-hidden">
+                  <div className="px-4 py-3 border-b border-gray-200">
+                    <h3 className="text-sm font-medium text-gray-900">Monthly validation budgets</h3>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Creators can't start new validations once this month's spend reaches their budget. Leave empty for no limit.
+                    </p>
+                  </div>
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Creator</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Spent this month</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Budget (USD)</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {validationBudgets.map((budget) => {
+                        const overBudget = budget.monthlyBudgetUsd !== null && budget.spentThisMonthUsd >= budget.monthlyBudgetUsd;
+                        return (
+                          <tr key={budget.creator.id}>
+                            <td className="px-4 py-2">
+                              <div className="text-sm text-gray-900">{budget.creator.name}</div>
+                              <div className="text-xs text-gray-500">{budget.creator.email}</div>
+                            </td>
+                            <td className={`px-4 py-2 text-sm ${overBudget ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
+                              {formatUsd(budget.spentThisMonthUsd)}
+                            </td>
+                            <td className="px-4 py-2">
+                              <input
+                                type="number"
+                                min={0}
+                                step="0.5"
+                                value={budget.monthlyBudgetUsd ?? ''}
+                                placeholder="No limit"
+                                onChange={(e) => editValidationBudget(budget.creator.id, e.target.value === '' ? null : Number(e.target.value))}
+                                className="w-28 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                              />
+                            </td>
+                            <td className="px-4 py-2 text-right">
+                              <button
+                                onClick={() => saveValidationBudget(budget)}
+                                disabled={savingBudgetCreatorId === budget.creator.id}
+                                className="px-3 py-1 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 text-sm disabled:opacity-50"
+                              >
+                                {savingBudgetCreatorId === budget.creator.id ? 'Saving...' : 'Save'}
+                              </button>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
 
             {/* User Management Tab */}
             {activeTab === 'users' && (
@@ -0,0 +1,244 @@
+import { useState, useEffect } from 'react';
+import { apiCall } from '../utils/api';
+
+type TemplateVersion = {
+  id: string;
+  name: string;
+  version: number;
+  isActive: boolean;
+  createdAt: string;
+  createdBy: {
+    name: string;
+    email: string;
+  };
+  _count: {
+    validationResults: number;
+  };
+};
+
+type DiffLine = {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+  oldLine: number | null;
+  newLine: number | null;
+};
+
+type TemplateDiff = {
+  from: { id: string; name: string; version: number };
+  to: { id: string; name: string; version: number };
+  diff: DiffLine[];
+};
+
+type Props = {
+  // Which super admin endpoints to use: prompt templates or guidelines templates
+  kind: 'prompts' | 'guidelines';
+  contentType: 'PRE_READ' | 'ASSIGNMENT' | 'LECTURE_NOTE';
+  token: string;
+  // Bumped by the parent after it saves a new version, so the list reloads
+  refreshKey?: number;
+  onRolledBack?: () => void;
+};
+
+const DIFF_LINE_STYLES: Record<DiffLine['type'], string> = {
+  same: 'text-gray-700',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800',
+};
+
+const DIFF_LINE_MARKERS: Record<DiffLine['type'], string> = {
+  same: ' ',
+  added: '+',
+  removed: '-',
+};
+
+export function TemplateVersionHistory({ kind, contentType, token, refreshKey, onRolledBack }: Props) {
+  const [versions, setVersions] = useState<TemplateVersion[]>([]);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [diff, setDiff] = useState<TemplateDiff | null>(null);
+  const [loadingDiff, setLoadingDiff] = useState(false);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    const fetchVersions = async () => {
+      const res = await apiCall(`/api/super-admin/${kind}/history/${contentType}`, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      if (res.ok) {
+        const data = await res.json();
+        const loaded: TemplateVersion[] = data.versions;
+        setVersions(loaded);
+        setDiff(null);
+        // Default to comparing the previous version against the newest one
+        setToId(loaded[0]?.id ?? '');
+        setFromId(loaded[1]?.id ?? loaded[0]?.id ?? '');
+      }
+    };
+    fetchVersions().catch(error => console.error('Error fetching version history:', error));
+  }, [kind, contentType, token, refreshKey, reloadCount]);
+
+  const compareVersions = async () => {
+    if (!fromId || !toId) return;
+
+    setLoadingDiff(true);
+    try {
+      const res = await apiCall(`/api/super-admin/${kind}/diff?from=${encodeURIComponent(fromId)}&to=${encodeURIComponent(toId)}`, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setDiff(data);
+      } else {
+        alert(`Error comparing versions: ${data.error}`);
+      }
+    } catch (error) {
+      console.error('Error comparing versions:', error);
+      alert('Failed to compare versions');
+    } finally {
+      setLoadingDiff(false);
+    }
+  };
+
+  const rollBack = async (version: TemplateVersion) => {
+    if (!confirm(`Make v${version.version} (${version.name}) the active version? New validations will use it immediately.`)) {
+      return;
+    }
+
+    setRollingBackId(version.id);
+    try {
+      const res = await apiCall(`/api/super-admin/${kind}/${version.id}/rollback`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      if (res.ok) {
+        setReloadCount(count => count + 1);
+        onRolledBack?.();
+      } else {
+        const error = await res.json();
+        const templateIssues = Array.isArray(error.details) && error.details.every((detail: unknown) => typeof detail === 'string')
+          ? `\n\n${error.details.join('\n')}`
+          : '';
+        alert(`Error rolling back: ${error.error}${templateIssues}`);
+      }
+    } catch (error) {
+      console.error('Error rolling back:', error);
+      alert('Failed to roll back');
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  const changedLines = diff?.diff.filter(line => line.type !== 'same').length ?? 0;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+      <div>
+        <h3 className="text-sm font-medium text-gray-900">Version History</h3>
+        <p className="text-xs text-gray-500 mt-1">
+          Saved versions are never edited. Stored validation results record the version that produced them.
+        </p>
+      </div>
+
+      {versions.length === 0 ? (
+        <p className="text-sm text-gray-500">No saved versions yet.</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Version</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Saved by</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Saved</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Results</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {versions.map(version => (
+                  <tr key={version.id}>
+                    <td className="px-3 py-2 font-medium text-gray-900">
+                      v{version.version}
+                      {version.isActive && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800">Active</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-gray-700">{version.name}</td>
+                    <td className="px-3 py-2 text-gray-600">{version.createdBy.name || version.createdBy.email}</td>
+                    <td className="px-3 py-2 text-gray-600">{new Date(version.createdAt).toLocaleString()}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">{version._count.validationResults}</td>
+                    <td className="px-3 py-2 text-right">
+                      {!version.isActive && (
+                        <button
+                          onClick={() => rollBack(version)}
+                          disabled={rollingBackId !== null}
+                          className="px-3 py-1 text-xs bg-amber-600 text-white rounded-md hover:bg-amber-700 disabled:opacity-50"
+                        >
+                          {rollingBackId === version.id ? 'Rolling back...' : 'Roll back to this'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-3 pt-3 border-t border-gray-200">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">From</label>
+              <select
+                value={fromId}
+                onChange={(e) => setFromId(e.target.value)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                {versions.map(version => (
+                  <option key={version.id} value={version.id}>v{version.version} - {version.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">To</label>
+              <select
+                value={toId}
+                onChange={(e) => setToId(e.target.value)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                {versions.map(version => (
+                  <option key={version.id} value={version.id}>v{version.version} - {version.name}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={compareVersions}
+              disabled={loadingDiff || !fromId || !toId}
+              className="px-4 py-2 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {loadingDiff ? 'Comparing...' : 'Compare'}
+            </button>
+          </div>
+
+          {diff && (
+            <div>
+              <p className="text-xs text-gray-600 mb-2">
+                v{diff.from.version} → v{diff.to.version}: {changedLines === 0 ? 'no changes' : `${changedLines} changed line${changedLines === 1 ? '' : 's'}`}
+              </p>
+              <div className="border border-gray-200 rounded-md max-h-96 overflow-auto font-mono text-xs" style={{ textAlign: 'left' }}>
+                {diff.diff.map((line, index) => (
+                  <div key={index} className={`flex ${DIFF_LINE_STYLES[line.type]}`}>
+                    <span className="w-10 shrink-0 px-1 text-right text-gray-400 select-none">{line.oldLine ?? ''}</span>
+                    <span className="w-10 shrink-0 px-1 text-right text-gray-400 select-none">{line.newLine ?? ''}</span>
+                    <span className="w-4 shrink-0 select-none">{DIFF_LINE_MARKERS[line.type]}</span>
+                    <span className="whitespace-pre-wrap break-all">{line.text}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
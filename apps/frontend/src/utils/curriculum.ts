@@ -0,0 +1,41 @@
+// Shapes returned by /api/curriculum
+
+export type CurriculumTopic = {
+  id: string;
+  name: string;
+  description: string | null;
+  position: number;
+  // Concepts the topic introduces, checked against content on earlier topics
+  concepts: string[];
+  _count: { assignments: number };
+};
+
+export type CurriculumModule = {
+  id: string;
+  name: string;
+  position: number;
+  topics: CurriculumTopic[];
+};
+
+export type CurriculumCourse = {
+  id: string;
+  name: string;
+  description: string | null;
+  modules: CurriculumModule[];
+};
+
+// Where an assignment sits in the curriculum, as included with /api/assignments
+export type AssignmentCurriculumTopic = {
+  id: string;
+  name: string;
+  module: { name: string; course: { id: string; name: string } };
+};
+
+// A course's topics in teaching order, each with the names of the topics taught before it
+export function topicsWithPrerequisites(course: CurriculumCourse) {
+  const ordered = course.modules.flatMap(module => module.topics.map(topic => ({ ...topic, moduleName: module.name })));
+  return ordered.map((topic, index) => ({
+    ...topic,
+    topicsTaughtSoFar: ordered.slice(0, index).map(item => item.name),
+  }));
+}
@@ -0,0 +1,241 @@
+import { apiCall } from './api';
+
+export type ValidationJobProgress = 'queued' | 'round1' | 'round2' | 'done' | 'failed';
+
+// One finished LLM call, as streamed while a validation job runs
+export type ValidationCallResult = {
+  stage: 'round1' | 'round2';
+  completed: number;
+  total: number;
+  provider: string;
+  modelVersion?: string;
+  scores: {
+    relevance: number;
+    continuity: number;
+    documentation: number;
+  };
+  feedback: {
+    relevance: string;
+    continuity: string;
+    documentation: string;
+  };
+};
+
+// How the models' scores were combined into the final score
+export type ValidationAggregation = {
+  strategy: 'MAX' | 'MIN' | 'MEAN' | 'WEIGHTED' | 'AGREEMENT';
+  agreementThreshold: number | null;
+  disagreementThreshold: number | null;
+  flaggedForReview: boolean;
+};
+
+// Highest minus lowest round 2 score per criterion
+export type ValidationDisagreement = {
+  relevance: number;
+  continuity: number;
+  documentation: number;
+  max: number;
+};
+
+// Content-type rubric scored criterion by criterion, as stored in ValidationResult.criteria.rubric
+export type RubricBreakdown = {
+  contentType: 'PRE_READ' | 'ASSIGNMENT' | 'LECTURE_NOTE';
+  overallScore: number;
+  criteria: Record<string, { label: string; score: number; maxScore: number; explanation: string; passThreshold?: number; passed?: boolean }>;
+  // Set on results scored against a rubric with pass thresholds; missing on older results
+  passThreshold?: number | null;
+  passed?: boolean;
+  strengths: string[];
+  weaknesses: string[];
+  suggestion: string;
+};
+
+// A passage a model flagged, located in the validated text; start/end are character offsets into it
+export type ValidationIssue = {
+  criterion: 'relevance' | 'continuity' | 'documentation';
+  start: number;
+  end: number;
+  quote: string;
+  message: string;
+  severity: 'critical' | 'important' | 'minor';
+};
+
+// Score of one heading-delimited section of a long document that was validated section by section
+export type ValidationSection = {
+  index: number;
+  heading: string | null;
+  length: number;
+  scores: {
+    relevance: number;
+    continuity: number;
+    documentation: number;
+  };
+  overall: number;
+  flaggedForReview: boolean;
+};
+
+// Verdict for one sub-topic listed in the assignment guidelines; source is "keywords" when no model assessed it
+export type SubTopicCoverage = {
+  subTopic: string;
+  verdict: 'covered' | 'partial' | 'missing';
+  source: 'models' | 'keywords';
+  modelsAssessed: number;
+  notes: string[];
+};
+
+// A concept the content uses that the course curriculum introduces in a later topic
+export type PrerequisiteWarning = {
+  concept: string;
+  introducedIn: string;
+  occurrences: number;
+  quote: string;
+};
+
+// Returned instead of scores when no model produced a usable assessment
+export type IncompleteValidation = {
+  status: 'incomplete';
+  reason: string;
+};
+
+export function isIncompleteValidation(result: unknown): result is IncompleteValidation {
+  return typeof result === 'object' && result !== null && (result as { status?: unknown }).status === 'incomplete';
+}
+
+export const VALIDATION_PROGRESS_LABELS: Record<ValidationJobProgress, string> = {
+  queued: 'Queued...',
+  round1: 'Validating (round 1 of 2)...',
+  round2: 'Cross-validating (round 2 of 2)...',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+const POLL_INTERVAL_MS = 1500;
+// A job still unfinished after this is treated as stuck rather than followed indefinitely
+const MAX_POLL_WAIT_MS = 10 * 60 * 1000;
+
+// Either a queued job to follow, or the result of an identical earlier run served from the cache
+export type ValidationJobStart<T> =
+  | { jobId: string; cached?: false }
+  | { jobId: null; cached: true; result: T };
+
+// Validation runs as a background job on the server; this starts one
+export async function startValidationJob<T>(endpoint: string, token: string, body?: unknown): Promise<ValidationJobStart<T>> {
+  const res = await apiCall(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`
+    },
+    ...(body !== undefined && { body: JSON.stringify(body) })
+  });
+
+  const started = await res.json();
+  if (!res.ok) {
+    throw new Error(started.error || 'Unknown error');
+  }
+  return started;
+}
+
+// Poll until the job is done or failed, giving up after MAX_POLL_WAIT_MS
+export async function pollValidationJob<T>(
+  jobId: string,
+  token: string,
+  onProgress?: (progress: ValidationJobProgress) => void
+): Promise<T> {
+  onProgress?.('queued');
+
+  const deadline = Date.now() + MAX_POLL_WAIT_MS;
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+
+    const res = await apiCall(`/api/validate/jobs/${jobId}`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    const job = await res.json();
+    if (!res.ok) {
+      throw new Error(job.error || 'Failed to fetch validation progress');
+    }
+
+    onProgress?.(job.progress);
+
+    if (job.progress === 'done') {
+      return job.result as T;
+    }
+    if (job.progress === 'failed') {
+      throw new Error(job.error || 'Validation failed');
+    }
+  }
+
+  throw new Error(`Validation did not finish within ${MAX_POLL_WAIT_MS / 60000} minutes. Please try again later`);
+}
+
+// Follow the job's Server-Sent Events, reporting each LLM call as it finishes.
+// EventSource can't send the Authorization header, so the stream is read through fetch.
+// A job that outlasts the stream is followed by polling from there.
+export async function streamValidationJob<T>(
+  jobId: string,
+  token: string,
+  handlers: {
+    onProgress?: (progress: ValidationJobProgress) => void;
+    onCallResult?: (result: ValidationCallResult) => void;
+  } = {}
+): Promise<T> {
+  const res = await apiCall(`/api/validate/jobs/${jobId}/stream`, {
+    headers: { Authorization: `Bearer ${token}` }
+  });
+  if (!res.ok || !res.body) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to stream validation progress');
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    const chunks = buffer.split('\n\n');
+    buffer = chunks.pop() ?? '';
+
+    for (const chunk of chunks) {
+      const event = chunk.match(/^event: (.*)$/m)?.[1];
+      const data = chunk.match(/^data: (.*)$/m)?.[1];
+      if (!event || data === undefined) continue;
+      const payload = JSON.parse(data);
+
+      if (event === 'progress') {
+        handlers.onProgress?.(payload.progress);
+      } else if (event === 'call') {
+        handlers.onCallResult?.(payload);
+      } else if (event === 'done') {
+        await reader.cancel();
+        return payload as T;
+      } else if (event === 'failed') {
+        await reader.cancel();
+        throw new Error(payload.error || 'Validation failed');
+      } else if (event === 'timeout') {
+        await reader.cancel();
+        return pollValidationJob<T>(jobId, token, handlers.onProgress);
+      }
+    }
+  }
+
+  throw new Error('Validation progress stream ended unexpectedly');
+}
+
+export async function runValidationJob<T>(
+  endpoint: string,
+  token: string,
+  body?: unknown,
+  onProgress?: (progress: ValidationJobProgress) => void
+): Promise<T> {
+  const started = await startValidationJob<T>(endpoint, token, body);
+  if (started.cached) {
+    return started.result;
+  }
+  return pollValidationJob<T>(started.jobId, token, onProgress);
+}